@@ -0,0 +1,105 @@
+import fs from "fs"
+import { ReadingType } from "../../src/sdk"
+
+/**
+ * Scenario files describe devnet data declaratively: named accounts mapped to the node's unlocked
+ * accounts, and steps that run in order. Offers and trades get a label when created, so later steps can
+ * refer to them without knowing their on-chain ids.
+ */
+
+// Seconds, or a number with a unit: "90s", "30m", "6h", "2d", "1w"
+export type Duration = number | string
+
+export type ScenarioStep =
+    | { action: "addVerifier"; account: string }
+    | { action: "register"; account: string; region: string }
+    | { action: "logProduction"; account: string; amount: number; source: string; carbonOffset?: number }
+    | { action: "logConsumption"; account: string; amount: number; source: string }
+    // Verifies the account's latest reading of the type, or the one at `index`; production mints certificates
+    | { action: "verify"; verifier: string; account: string; readingType: ReadingType; index?: number }
+    | {
+          action: "createOffer"
+          account: string
+          label: string
+          amount: number
+          // ETH per kWh
+          pricePerUnit: string
+          minPurchase: number
+          // From the chain's current time, so offers created after an increaseTime still run for as long
+          expiresIn: Duration
+          certified?: boolean
+          // Defaults to the seller's registered region
+          region?: string
+      }
+    | { action: "acceptOffer"; account: string; offer: string; amount: number; label?: string }
+    | { action: "completeTrade"; account: string; trade: string }
+    | { action: "increaseTime"; by: Duration }
+
+export interface Scenario {
+    description: string
+    // Names used in steps, mapped to indexes of the node's accounts; index 0 deployed the contracts
+    accounts: Record<string, number>
+    steps: ScenarioStep[]
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 }
+
+export const toSeconds = (duration: Duration): number => {
+    if (typeof duration === "number") return duration
+    const match = duration.trim().match(/^(\d+)\s*([smhdw])$/)
+    if (!match) throw new Error(`"${duration}" isn't a duration, e.g. "30m", "6h" or "2d"`)
+    return Number(match[1]) * DURATION_UNITS[match[2]]
+}
+
+// Account fields of each step, checked against the scenario's accounts
+const ACCOUNT_FIELDS = ["account", "verifier"] as const
+
+const STEP_ACTIONS: ScenarioStep["action"][] = [
+    "addVerifier",
+    "register",
+    "logProduction",
+    "logConsumption",
+    "verify",
+    "createOffer",
+    "acceptOffer",
+    "completeTrade",
+    "increaseTime",
+]
+
+/**
+ * Reads a scenario and checks what can be checked before anything is sent: known actions, named accounts,
+ * durations and labels. Contract rules, such as registering before logging, are left to the contracts.
+ */
+export const loadScenario = (file: string): Scenario => {
+    const scenario = JSON.parse(fs.readFileSync(file, "utf8")) as Scenario
+    if (typeof scenario.accounts !== "object" || !Array.isArray(scenario.steps)) {
+        throw new Error(`${file} needs "accounts" and "steps"`)
+    }
+
+    const offers = new Set<string>()
+    const trades = new Set<string>()
+    scenario.steps.forEach((step, index) => {
+        const where = `Step ${index + 1} (${step.action})`
+        if (!STEP_ACTIONS.includes(step.action)) throw new Error(`${where}: unknown action`)
+        ACCOUNT_FIELDS.forEach((field) => {
+            const name = (step as Record<string, unknown>)[field]
+            if (name !== undefined && !(String(name) in scenario.accounts)) {
+                throw new Error(`${where}: no account named "${name}"`)
+            }
+        })
+        if (step.action === "createOffer") {
+            toSeconds(step.expiresIn)
+            if (offers.has(step.label)) throw new Error(`${where}: offer "${step.label}" is already defined`)
+            offers.add(step.label)
+        }
+        if (step.action === "acceptOffer") {
+            if (!offers.has(step.offer)) throw new Error(`${where}: no earlier offer labelled "${step.offer}"`)
+            if (step.label) trades.add(step.label)
+        }
+        if (step.action === "completeTrade" && !trades.has(step.trade)) {
+            throw new Error(`${where}: no earlier trade labelled "${step.trade}"`)
+        }
+        if (step.action === "increaseTime") toSeconds(step.by)
+    })
+    return scenario
+}
@@ -0,0 +1,182 @@
+import path from "path"
+import { ethers } from "ethers"
+import { READ_ONLY_RPC_URL, getContractAddresses } from "../../src/constants/networks"
+import { ContractCall, EnergyClient, createEnergyClient, decodeRevert, simulateCall } from "../../src/sdk"
+import { ScenarioStep, loadScenario, toSeconds } from "./scenario"
+
+/**
+ * Seeds a local devnet from a scenario file, after `truffle migrate` has deployed the contracts and written
+ * their addresses to src/constants/contracts.json:
+ *
+ *   npm run seed -- scripts/seed/scenarios/marketplace.json [--rpc http://127.0.0.1:8545]
+ *
+ * Accounts sign through the node, so it must hold them unlocked, as Ganache and Hardhat do.
+ */
+
+interface SeedState {
+    provider: ethers.providers.JsonRpcProvider
+    // Signs as the logger's owner, for adding verifiers
+    owner: EnergyClient
+    clients: Map<string, EnergyClient>
+    addresses: Map<string, string>
+    // Ids of offers and trades by their scenario label
+    offers: Map<string, number>
+    trades: Map<string, number>
+}
+
+const parseArgs = (args: string[]) => {
+    const rpcIndex = args.indexOf("--rpc")
+    const rpcUrl = rpcIndex === -1 ? READ_ONLY_RPC_URL : args[rpcIndex + 1]
+    const file = args.filter((_, index) => rpcIndex === -1 || (index !== rpcIndex && index !== rpcIndex + 1))[0]
+    return { file, rpcUrl }
+}
+
+// Ganache's estimates can fall short of what a transaction then uses, so the gas limit gets some headroom
+const GAS_LIMIT_MARGIN_PERCENT = 25
+
+// Simulated first, so a revert is reported with its reason instead of as a failed transaction
+const send = async (call: ContractCall): Promise<ethers.ContractReceipt> => {
+    const { gasLimit } = await simulateCall(call)
+    const transaction: ethers.ContractTransaction = await call.contract[call.method](...call.args, {
+        ...(call.value ? { value: call.value } : {}),
+        gasLimit: gasLimit.mul(100 + GAS_LIMIT_MARGIN_PERCENT).div(100),
+    })
+    return transaction.wait()
+}
+
+// The first log of the receipt that the contract decodes as the event
+const eventArgs = (receipt: ethers.ContractReceipt, contract: ethers.Contract, event: string) => {
+    const parsed = receipt.logs
+        .filter((log) => log.address.toLowerCase() === contract.address.toLowerCase())
+        .map((log) => contract.interface.parseLog(log))
+        .find((log) => log.name === event)
+    if (!parsed) throw new Error(`No ${event} event in transaction ${receipt.transactionHash}`)
+    return parsed.args
+}
+
+const chainTime = async (provider: ethers.providers.JsonRpcProvider) => (await provider.getBlock("latest")).timestamp
+
+const runStep = async (step: ScenarioStep, state: SeedState): Promise<string> => {
+    const client = (name: string) => state.clients.get(name) as EnergyClient
+    const address = (name: string) => state.addresses.get(name) as string
+
+    switch (step.action) {
+        case "addVerifier":
+            // Lets a scenario run again on a chain it has already seeded
+            if (await state.owner.isVerifier(address(step.account))) return `${step.account} is already a verifier`
+            await send(state.owner.addVerifier(address(step.account)))
+            return `${step.account} is a verifier`
+        case "register":
+            await send(client(step.account).registerUser(step.region))
+            return `${step.account} registered in ${step.region}`
+        case "logProduction":
+            await send(client(step.account).logProduction(step.amount, step.source, step.carbonOffset ?? 0))
+            return `${step.account} logged ${step.amount} kWh of ${step.source} production`
+        case "logConsumption":
+            await send(client(step.account).logConsumption(step.amount, step.source))
+            return `${step.account} logged ${step.amount} kWh of ${step.source} consumption`
+        case "verify": {
+            const index =
+                step.index ??
+                (await client(step.verifier).getReadingsCount(address(step.account), step.readingType)) - 1
+            if (index < 0) throw new Error(`${step.account} has no ${step.readingType} readings to verify`)
+            await send(client(step.verifier).verifyReading(address(step.account), step.readingType, index))
+            return `${step.verifier} verified ${step.account}'s ${step.readingType} reading #${index}`
+        }
+        case "createOffer": {
+            const seller = client(step.account)
+            const region = step.region ?? (await seller.getUserRegion(address(step.account)))
+            const expirationTime = new Date(((await chainTime(state.provider)) + toSeconds(step.expiresIn)) * 1000)
+            const receipt = await send(
+                seller.createOffer({
+                    energyAmount: step.amount,
+                    pricePerUnit: ethers.utils.parseEther(step.pricePerUnit),
+                    minPurchaseAmount: step.minPurchase,
+                    expirationTime,
+                    region,
+                    isCertified: !!step.certified,
+                })
+            )
+            const offerId = eventArgs(receipt, seller.energyTrader, "OfferCreated").offerId.toNumber()
+            state.offers.set(step.label, offerId)
+            return `${step.account} offered ${step.amount} kWh in ${region} as offer #${offerId} ("${step.label}")`
+        }
+        case "acceptOffer": {
+            const buyer = client(step.account)
+            const offerId = state.offers.get(step.offer) as number
+            const offer = await buyer.getOffer(offerId)
+            const receipt = await send(buyer.acceptOffer(offerId, step.amount, offer.pricePerUnit.mul(step.amount)))
+            const tradeId = eventArgs(receipt, buyer.energyTrader, "TradeCreated").tradeId.toNumber()
+            if (step.label) state.trades.set(step.label, tradeId)
+            return `${step.account} bought ${step.amount} kWh from offer #${offerId} in trade #${tradeId}`
+        }
+        case "completeTrade": {
+            const tradeId = state.trades.get(step.trade) as number
+            await send(client(step.account).completeTrade(tradeId))
+            return `${step.account} completed trade #${tradeId}`
+        }
+        case "increaseTime": {
+            const seconds = toSeconds(step.by)
+            await state.provider.send("evm_increaseTime", [seconds])
+            // The new time only applies from the next block
+            await state.provider.send("evm_mine", [])
+            return `Chain time moved ${seconds}s ahead to ${new Date((await chainTime(state.provider)) * 1000).toISOString()}`
+        }
+    }
+}
+
+async function main() {
+    const { file, rpcUrl } = parseArgs(process.argv.slice(2))
+    if (!file) {
+        console.error("Usage: npm run seed -- <scenario.json> [--rpc <url>]")
+        process.exit(1)
+    }
+
+    const scenario = loadScenario(path.resolve(file))
+    const provider = new ethers.providers.JsonRpcProvider(rpcUrl)
+    const { chainId } = await provider.getNetwork()
+    const contractAddresses = getContractAddresses(String(chainId))
+    if (!contractAddresses) {
+        throw new Error(`No deployment for chain ${chainId} in src/constants/contracts.json; run truffle migrate first`)
+    }
+
+    const nodeAccounts: string[] = await provider.listAccounts()
+    const reader = createEnergyClient(contractAddresses, provider)
+    const state: SeedState = {
+        provider,
+        owner: createEnergyClient(contractAddresses, provider.getSigner(await reader.getLoggerOwner())),
+        clients: new Map(),
+        addresses: new Map(),
+        offers: new Map(),
+        trades: new Map(),
+    }
+    Object.entries(scenario.accounts).forEach(([name, index]) => {
+        if (!nodeAccounts[index])
+            throw new Error(`Account "${name}" is #${index}, but the node has ${nodeAccounts.length}`)
+        state.addresses.set(name, nodeAccounts[index])
+        state.clients.set(name, createEnergyClient(contractAddresses, provider.getSigner(index)))
+    })
+
+    console.log(`Seeding chain ${chainId} at ${rpcUrl}: ${scenario.description}`)
+    state.addresses.forEach((account, name) => console.log(`  ${name.padEnd(12)} ${account}`))
+
+    for (const [index, step] of scenario.steps.entries()) {
+        try {
+            console.log(`${String(index + 1).padStart(3)}. ${await runStep(step, state)}`)
+        } catch (error) {
+            // Stop at the first failure, since later steps usually depend on it
+            // Contract reverts are reported by their require() message rather than the node's full error
+            console.error(
+                `${String(index + 1).padStart(3)}. ${step.action} failed:`,
+                decodeRevert(error)?.reason ?? (error instanceof Error ? error.message : error)
+            )
+            process.exit(1)
+        }
+    }
+    console.log(`Done: ${scenario.steps.length} steps`)
+}
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error)
+    process.exit(1)
+})
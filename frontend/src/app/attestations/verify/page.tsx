@@ -0,0 +1,25 @@
+"use client"
+
+import Link from "next/link"
+import Navbar from "../../../components/Navbar"
+import AttestationVerifier from "../../../components/AttestationVerifier"
+import NetworkGuard from "../../../components/NetworkGuard"
+import ToastContainer from "../../../components/ToastContainer"
+
+// Standalone page for auditors checking a redemption attestation they were handed
+export default function VerifyAttestationPage() {
+    return (
+        <main className="min-h-screen bg-gray-100">
+            <Navbar />
+            <NetworkGuard />
+            <ToastContainer />
+
+            <div className="container mx-auto px-4 py-8 max-w-3xl">
+                <Link href="/" className="inline-block mb-6 text-green-700 hover:text-green-900">
+                    &larr; Back to the platform
+                </Link>
+                <AttestationVerifier />
+            </div>
+        </main>
+    )
+}
@@ -0,0 +1,63 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import Navbar from "../../../components/Navbar"
+import CertificateProvenanceTrail from "../../../components/CertificateProvenanceTrail"
+import NetworkGuard from "../../../components/NetworkGuard"
+import ToastContainer from "../../../components/ToastContainer"
+
+// Provenance of one certificate, shareable by URL so auditors can trace it without a wallet
+export default function CertificatePage() {
+    const params = useParams<{ id: string }>()
+    const router = useRouter()
+    const [lookupId, setLookupId] = useState<string>("")
+    const certificateId = parseInt(params.id)
+
+    const handleLookup = (e: React.FormEvent) => {
+        e.preventDefault()
+        const id = parseInt(lookupId)
+        if (isNaN(id) || id < 0) return
+        router.push(`/certificates/${id}`)
+        setLookupId("")
+    }
+
+    return (
+        <main className="min-h-screen bg-gray-100">
+            <Navbar />
+            <NetworkGuard />
+            <ToastContainer />
+
+            <div className="container mx-auto px-4 py-8 max-w-3xl">
+                <div className="flex justify-between items-center mb-6">
+                    <Link href="/" className="text-green-700 hover:text-green-900">
+                        &larr; Back to the platform
+                    </Link>
+                    <form onSubmit={handleLookup} className="flex gap-2">
+                        <input
+                            aria-label="Certificate ID"
+                            type="number"
+                            min="0"
+                            value={lookupId}
+                            onChange={(e) => setLookupId(e.target.value)}
+                            className="w-32 px-2 py-1 border border-gray-300 rounded-md text-gray-900"
+                            placeholder="Certificate ID"
+                        />
+                        <button
+                            type="submit"
+                            className="bg-blue-600 text-white py-1 px-3 rounded-md hover:bg-blue-700 transition-colors">
+                            Trace
+                        </button>
+                    </form>
+                </div>
+
+                {isNaN(certificateId) || certificateId < 0 ? (
+                    <p className="text-center py-8 text-red-600">&quot;{params.id}&quot; is not a certificate ID.</p>
+                ) : (
+                    <CertificateProvenanceTrail certificateId={certificateId} />
+                )}
+            </div>
+        </main>
+    )
+}
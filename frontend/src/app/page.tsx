@@ -1,10 +1,18 @@
 "use client"
 
 import Navbar from "../components/Navbar"
+import AdminPanel from "../components/AdminPanel"
 import EnergyLoggerCard from "../components/EnergyLoggerCard"
 import RenewableCertificateCard from "../components/RenewableCertificateCard"
 import EnergyTraderCard from "../components/EnergyTraderCard"
 import EnergyMarketplace from "../components/EnergyMarketplace"
+import NetworkGuard from "../components/NetworkGuard"
+import PersonalDashboard from "../components/PersonalDashboard"
+import RegionDashboard from "../components/RegionDashboard"
+import SustainabilityReport from "../components/SustainabilityReport"
+import ToastContainer from "../components/ToastContainer"
+import TransactionConfirmDialog from "../components/TransactionConfirmDialog"
+import VerifierConsole from "../components/VerifierConsole"
 import { ContractProvider } from "../contexts/ContractContext"
 
 export default function Home() {
@@ -12,10 +20,15 @@ export default function Home() {
         <ContractProvider>
             <main className="min-h-screen bg-gray-100">
                 <Navbar />
+                <NetworkGuard />
+                <TransactionConfirmDialog />
+                <ToastContainer />
 
                 <div className="container mx-auto px-4 py-8">
                     <h1 className="text-3xl font-bold text-center mb-8 text-gray-900">Decentralized Energy Platform</h1>
 
+                    <PersonalDashboard />
+
                     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
                         <div>
                             <h2 className="text-2xl font-semibold mb-4 text-gray-900">Energy Management</h2>
@@ -34,6 +47,11 @@ export default function Home() {
                         </div>
                     </div>
 
+                    <RegionDashboard />
+                    <SustainabilityReport />
+                    <VerifierConsole />
+                    <AdminPanel />
+
                     <div className="mt-16 text-center text-gray-700">
                         <h3 className="text-xl font-semibold mb-2 text-gray-900">About This Platform</h3>
                         <p className="max-w-3xl mx-auto">
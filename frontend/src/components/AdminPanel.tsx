@@ -0,0 +1,476 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { ethers } from "ethers"
+import { useContract } from "../contexts/ContractContext"
+import { useAdminAuditLog } from "../hooks/useAdminAuditLog"
+import { ContractCall, DecodedRevert, LedgerSettings, formatEth, toFieldErrors } from "../sdk"
+import FieldError from "./FieldError"
+
+// setPlatformFeeRate rejects anything above 10%
+const MAX_FEE_RATE = 1000
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+const formatFeeRate = (feeRate: number) => `${feeRate / 100}%`
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+// Owner-only settings of the EnergyLogger and EnergyTradeLedger, each shown only to the owner of that contract
+export default function AdminPanel() {
+    const { client, account, isConnected, chainId, sendTransaction } = useContract()
+    const { entries, record, storageError } = useAdminAuditLog(chainId)
+    const [loggerOwner, setLoggerOwner] = useState<string>("")
+    const [ledgerSettings, setLedgerSettings] = useState<LedgerSettings | null>(null)
+    const [verifiers, setVerifiers] = useState<string[]>([])
+    const [newVerifier, setNewVerifier] = useState<string>("")
+    const [certificateContract, setCertificateContract] = useState<string>("")
+    const [feeRate, setFeeRate] = useState<string>("")
+    const [feeRecipient, setFeeRecipient] = useState<string>("")
+    const [loggerContract, setLoggerContract] = useState<string>("")
+    const [loggerErrors, setLoggerErrors] = useState<Record<string, string>>({})
+    const [ledgerErrors, setLedgerErrors] = useState<Record<string, string>>({})
+    const [isSubmitting, setIsSubmitting] = useState<boolean>(false)
+
+    const fetchLoggerState = useCallback(async () => {
+        if (!client) return
+        try {
+            const [owner, currentVerifiers] = await Promise.all([client.getLoggerOwner(), client.getVerifiers()])
+            setLoggerOwner(owner)
+            setVerifiers(currentVerifiers)
+        } catch (error) {
+            console.error("Error fetching logger settings:", error)
+        }
+    }, [client])
+
+    const fetchLedgerState = useCallback(async () => {
+        if (!client) return
+        try {
+            setLedgerSettings(await client.getLedgerSettings())
+        } catch (error) {
+            console.error("Error fetching ledger settings:", error)
+        }
+    }, [client])
+
+    useEffect(() => {
+        fetchLoggerState()
+        fetchLedgerState()
+    }, [fetchLoggerState, fetchLedgerState])
+
+    const isLoggerOwner = isConnected && !!loggerOwner && sameAddress(loggerOwner, account)
+    const isLedgerOwner = isConnected && !!ledgerSettings && sameAddress(ledgerSettings.owner, account)
+
+    // Sends an owner transaction and writes it to the audit log once it is mined
+    const runAdminAction = async (
+        action: string,
+        call: ContractCall,
+        details: string,
+        onRevert: (revert: DecodedRevert) => void
+    ) => {
+        setIsSubmitting(true)
+        try {
+            const receipt = await sendTransaction(action, call, { summary: details, onRevert })
+            if (!receipt) return false
+            record({ action, details, account, txHash: receipt.transactionHash })
+            return true
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    const handleAddVerifier = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!client) return
+
+        const verifier = newVerifier.trim()
+        if (!ethers.utils.isAddress(verifier)) {
+            setLoggerErrors({ verifier: "Enter a valid verifier address." })
+            return
+        }
+
+        setLoggerErrors({})
+        const done = await runAdminAction(
+            "Add verifier",
+            client.addVerifier(verifier),
+            `Allow ${verifier} to verify readings and mint certificates`,
+            (revert) => setLoggerErrors(toFieldErrors(revert, ["verifier"]))
+        )
+        if (!done) return
+        setNewVerifier("")
+        fetchLoggerState()
+    }
+
+    const handleRemoveVerifier = async (verifier: string) => {
+        if (!client) return
+
+        setLoggerErrors({})
+        const done = await runAdminAction(
+            "Remove verifier",
+            client.removeVerifier(verifier),
+            `Revoke ${verifier}'s permission to verify readings`,
+            (revert) => setLoggerErrors(toFieldErrors(revert, ["verifier"]))
+        )
+        if (done) fetchLoggerState()
+    }
+
+    const handleSetCertificateContract = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!client) return
+
+        const address = certificateContract.trim()
+        if (!ethers.utils.isAddress(address)) {
+            setLoggerErrors({ contractAddress: "Enter a valid certificate contract address." })
+            return
+        }
+
+        setLoggerErrors({})
+        const done = await runAdminAction(
+            "Set certificate contract",
+            client.setCertificateContract(address),
+            `Point the EnergyLogger at the certificate contract ${address}. Verified production mints there from now on.`,
+            (revert) => setLoggerErrors(toFieldErrors(revert, ["contractAddress"]))
+        )
+        if (done) setCertificateContract("")
+    }
+
+    const handleSetFeeRate = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!client || !ledgerSettings) return
+
+        const rate = Number(feeRate)
+        if (!Number.isInteger(rate) || rate < 0 || rate > MAX_FEE_RATE) {
+            setLedgerErrors({ feeRate: `Enter a whole number of basis points between 0 and ${MAX_FEE_RATE}.` })
+            return
+        }
+
+        setLedgerErrors({})
+        const done = await runAdminAction(
+            "Set platform fee",
+            client.setPlatformFeeRate(rate),
+            `Change the platform fee from ${formatFeeRate(ledgerSettings.platformFeeRate)} to ${formatFeeRate(rate)} of every purchase`,
+            (revert) => setLedgerErrors(toFieldErrors(revert, ["feeRate"]))
+        )
+        if (!done) return
+        setFeeRate("")
+        fetchLedgerState()
+    }
+
+    const handleSetFeeRecipient = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!client) return
+
+        const recipient = feeRecipient.trim()
+        if (!ethers.utils.isAddress(recipient)) {
+            setLedgerErrors({ feeRecipient: "Enter a valid fee recipient address." })
+            return
+        }
+
+        setLedgerErrors({})
+        const done = await runAdminAction(
+            "Set fee recipient",
+            client.setFeeRecipient(recipient),
+            `Send future platform fees to ${recipient}`,
+            (revert) => setLedgerErrors(toFieldErrors(revert, ["feeRecipient"]))
+        )
+        if (!done) return
+        setFeeRecipient("")
+        fetchLedgerState()
+    }
+
+    const handleSetLoggerContract = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!client) return
+
+        const address = loggerContract.trim()
+        if (!ethers.utils.isAddress(address)) {
+            setLedgerErrors({ contractAddress: "Enter a valid logger contract address." })
+            return
+        }
+
+        setLedgerErrors({})
+        const done = await runAdminAction(
+            "Set logger contract",
+            client.setLoggerContract(address),
+            `Point the EnergyTradeLedger at the logger contract ${address}`,
+            (revert) => setLedgerErrors(toFieldErrors(revert, ["contractAddress"]))
+        )
+        if (done) setLoggerContract("")
+    }
+
+    const handleWithdraw = async () => {
+        if (!client || !ledgerSettings) return
+
+        setLedgerErrors({})
+        const done = await runAdminAction(
+            "Withdraw ledger ETH",
+            client.withdrawETH(),
+            `Withdraw ${formatEth(ledgerSettings.balance)} ETH held by the ledger to the owner account`,
+            (revert) => setLedgerErrors(toFieldErrors(revert, []))
+        )
+        if (done) fetchLedgerState()
+    }
+
+    // The contracts keep their references to each other private, so the last change made here is shown instead
+    const lastWiring = (action: string) => entries.find((entry) => entry.action === action)
+
+    if (!client || (!isLoggerOwner && !isLedgerOwner)) return null
+
+    const inputClassName =
+        "flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+    const buttonClassName =
+        "bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400"
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+            <h2 className="text-xl font-bold mb-4 text-gray-800">Administration</h2>
+
+            <div className="mb-6 p-4 bg-gray-50 rounded-lg text-sm text-gray-700">
+                <h3 className="font-semibold text-gray-800 mb-2">Contract Wiring</h3>
+                <div className="flex justify-between">
+                    <span>EnergyLogger</span>
+                    <span className="font-mono">{client.energyLogger.address}</span>
+                </div>
+                <div className="flex justify-between">
+                    <span>RenewableCertificate</span>
+                    <span className="font-mono">{client.renewableCertificate.address}</span>
+                </div>
+                <div className="flex justify-between">
+                    <span>EnergyTradeLedger</span>
+                    <span className="font-mono">{client.energyTrader.address}</span>
+                </div>
+                {["Set certificate contract", "Set logger contract"].map((action) => {
+                    const entry = lastWiring(action)
+                    return (
+                        entry && (
+                            <p key={action} className="mt-2 text-xs text-gray-500">
+                                {entry.details} ({new Date(entry.timestamp).toLocaleString()})
+                            </p>
+                        )
+                    )
+                })}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {isLoggerOwner && (
+                    <div>
+                        <h3 className="text-lg font-semibold text-gray-700 mb-2">EnergyLogger</h3>
+
+                        <h4 className="text-sm font-medium text-gray-700 mb-1">Verifiers ({verifiers.length})</h4>
+                        <ul className="mb-3 divide-y divide-gray-200 border border-gray-200 rounded-md">
+                            {verifiers.map((verifier) => (
+                                <li key={verifier} className="flex justify-between items-center px-3 py-2 text-sm">
+                                    <span className="font-mono" title={verifier}>
+                                        {formatAddress(verifier)}
+                                        {sameAddress(verifier, loggerOwner) && (
+                                            <span className="ml-2 text-xs text-gray-500">(owner)</span>
+                                        )}
+                                    </span>
+                                    {!sameAddress(verifier, loggerOwner) && (
+                                        <button
+                                            onClick={() => handleRemoveVerifier(verifier)}
+                                            disabled={isSubmitting}
+                                            className="text-red-600 hover:text-red-800 disabled:text-gray-400">
+                                            Remove
+                                        </button>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+
+                        <form onSubmit={handleAddVerifier} className="mb-4">
+                            <div className="flex gap-2">
+                                <input
+                                    aria-label="New verifier address"
+                                    type="text"
+                                    value={newVerifier}
+                                    onChange={(e) => setNewVerifier(e.target.value)}
+                                    className={inputClassName}
+                                    placeholder="0x... verifier address"
+                                    required
+                                />
+                                <button type="submit" disabled={isSubmitting} className={buttonClassName}>
+                                    Add
+                                </button>
+                            </div>
+                            <FieldError message={loggerErrors.verifier} />
+                        </form>
+
+                        <form onSubmit={handleSetCertificateContract} className="mb-4">
+                            <label htmlFor="certificate-contract" className="block text-sm text-gray-700 mb-1">
+                                Certificate contract
+                            </label>
+                            <div className="flex gap-2">
+                                <input
+                                    id="certificate-contract"
+                                    type="text"
+                                    value={certificateContract}
+                                    onChange={(e) => setCertificateContract(e.target.value)}
+                                    className={inputClassName}
+                                    placeholder="0x... RenewableCertificate address"
+                                    required
+                                />
+                                <button type="submit" disabled={isSubmitting} className={buttonClassName}>
+                                    Set
+                                </button>
+                            </div>
+                            <FieldError message={loggerErrors.contractAddress} />
+                        </form>
+
+                        <FieldError message={loggerErrors.form} />
+                    </div>
+                )}
+
+                {isLedgerOwner && ledgerSettings && (
+                    <div>
+                        <h3 className="text-lg font-semibold text-gray-700 mb-2">EnergyTradeLedger</h3>
+
+                        <div className="mb-3 text-sm text-gray-700 space-y-1">
+                            <div className="flex justify-between">
+                                <span>Platform fee:</span>
+                                <span>
+                                    {formatFeeRate(ledgerSettings.platformFeeRate)} ({ledgerSettings.platformFeeRate}{" "}
+                                    bps)
+                                </span>
+                            </div>
+                            <div className="flex justify-between">
+                                <span>Fee recipient:</span>
+                                <span className="font-mono" title={ledgerSettings.feeRecipient}>
+                                    {formatAddress(ledgerSettings.feeRecipient)}
+                                </span>
+                            </div>
+                            <div className="flex justify-between items-center">
+                                <span>Balance:</span>
+                                <span>
+                                    {formatEth(ledgerSettings.balance)} ETH
+                                    <button
+                                        onClick={handleWithdraw}
+                                        disabled={isSubmitting || ledgerSettings.balance.isZero()}
+                                        className="ml-3 text-green-600 hover:text-green-800 disabled:text-gray-400">
+                                        Withdraw
+                                    </button>
+                                </span>
+                            </div>
+                        </div>
+
+                        <form onSubmit={handleSetFeeRate} className="mb-4">
+                            <label htmlFor="fee-rate" className="block text-sm text-gray-700 mb-1">
+                                Platform fee (basis points, 100 = 1%)
+                            </label>
+                            <div className="flex gap-2">
+                                <input
+                                    id="fee-rate"
+                                    type="number"
+                                    value={feeRate}
+                                    onChange={(e) => setFeeRate(e.target.value)}
+                                    className={inputClassName}
+                                    placeholder={`0 - ${MAX_FEE_RATE}`}
+                                    required
+                                    min="0"
+                                    max={MAX_FEE_RATE}
+                                />
+                                <button type="submit" disabled={isSubmitting} className={buttonClassName}>
+                                    Set
+                                </button>
+                            </div>
+                            <FieldError message={ledgerErrors.feeRate} />
+                        </form>
+
+                        <form onSubmit={handleSetFeeRecipient} className="mb-4">
+                            <label htmlFor="fee-recipient" className="block text-sm text-gray-700 mb-1">
+                                Fee recipient
+                            </label>
+                            <div className="flex gap-2">
+                                <input
+                                    id="fee-recipient"
+                                    type="text"
+                                    value={feeRecipient}
+                                    onChange={(e) => setFeeRecipient(e.target.value)}
+                                    className={inputClassName}
+                                    placeholder="0x... recipient address"
+                                    required
+                                />
+                                <button type="submit" disabled={isSubmitting} className={buttonClassName}>
+                                    Set
+                                </button>
+                            </div>
+                            <FieldError message={ledgerErrors.feeRecipient} />
+                        </form>
+
+                        <form onSubmit={handleSetLoggerContract} className="mb-4">
+                            <label htmlFor="logger-contract" className="block text-sm text-gray-700 mb-1">
+                                Logger contract
+                            </label>
+                            <div className="flex gap-2">
+                                <input
+                                    id="logger-contract"
+                                    type="text"
+                                    value={loggerContract}
+                                    onChange={(e) => setLoggerContract(e.target.value)}
+                                    className={inputClassName}
+                                    placeholder="0x... EnergyLogger address"
+                                    required
+                                />
+                                <button type="submit" disabled={isSubmitting} className={buttonClassName}>
+                                    Set
+                                </button>
+                            </div>
+                            <FieldError message={ledgerErrors.contractAddress} />
+                        </form>
+
+                        <FieldError message={ledgerErrors.form} />
+                    </div>
+                )}
+            </div>
+
+            <h3 className="text-lg font-semibold text-gray-700 mt-6 mb-2">Audit Log</h3>
+            <p className="text-sm text-gray-500 mb-2">
+                Only changes made from this browser are listed. They are kept in its local storage, so changes made
+                elsewhere, or before its storage was cleared, don&apos;t appear here.
+            </p>
+            {storageError && (
+                <div className="mb-4 p-3 bg-yellow-50 rounded-lg text-yellow-800 text-sm">
+                    The audit log couldn&apos;t be saved ({storageError}). Entries recorded now will be lost when this
+                    page closes, so note down any changes you make.
+                </div>
+            )}
+            {entries.length > 0 ? (
+                <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                    <table className="min-w-full">
+                        <thead>
+                            <tr className="border-b border-gray-200">
+                                <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Action
+                                </th>
+                                <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Details
+                                </th>
+                                <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    By
+                                </th>
+                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Date
+                                </th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {entries.map((entry) => (
+                                <tr key={entry.txHash} className="border-b border-gray-200">
+                                    <td className="py-2 text-sm font-medium">{entry.action}</td>
+                                    <td className="py-2 text-sm text-gray-700">{entry.details}</td>
+                                    <td className="py-2 text-sm font-mono" title={entry.account}>
+                                        {formatAddress(entry.account)}
+                                    </td>
+                                    <td className="py-2 text-xs text-right text-gray-500" title={entry.txHash}>
+                                        {new Date(entry.timestamp).toLocaleString()}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            ) : (
+                <p className="text-gray-500">No administrative changes have been made from this browser yet.</p>
+            )}
+        </div>
+    )
+}
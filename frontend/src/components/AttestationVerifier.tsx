@@ -0,0 +1,115 @@
+"use client"
+
+import { useState } from "react"
+import { useContract } from "../contexts/ContractContext"
+import {
+    AttestationCheck,
+    SignedRedemptionAttestation,
+    parseSignedAttestation,
+    verifyRedemptionAttestation,
+} from "../sdk"
+import FieldError from "./FieldError"
+
+// Checks a redemption attestation's signature and re-reads its certificate from the chain, without a wallet
+export default function AttestationVerifier() {
+    const { client, chainId } = useContract()
+    const [json, setJson] = useState<string>("")
+    const [signed, setSigned] = useState<SignedRedemptionAttestation | null>(null)
+    const [checks, setChecks] = useState<AttestationCheck[]>([])
+    const [errors, setErrors] = useState<Record<string, string>>({})
+    const [isVerifying, setIsVerifying] = useState<boolean>(false)
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        if (file) setJson(await file.text())
+    }
+
+    const handleVerify = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!client) return
+
+        const parsed = parseSignedAttestation(json)
+        setSigned(parsed)
+        setChecks([])
+        if (!parsed) {
+            setErrors({ json: "This isn't a signed redemption attestation." })
+            return
+        }
+
+        setIsVerifying(true)
+        setErrors({})
+        try {
+            setChecks(await verifyRedemptionAttestation(client, Number(chainId), parsed))
+        } catch (error) {
+            console.error("Error verifying attestation:", error)
+            setErrors({ form: "The certificate couldn't be read from the chain. Check the network and try again." })
+        } finally {
+            setIsVerifying(false)
+        }
+    }
+
+    const isVerified = checks.length > 0 && checks.every((check) => check.passed)
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow-md">
+            <h2 className="text-2xl font-bold mb-2 text-blue-700">Verify a Redemption Attestation</h2>
+            <p className="text-sm text-gray-700 mb-4">
+                Paste or upload the JSON attestation. Its signature is checked here, and the certificate and its
+                redemption are read again from the network you are connected to.
+            </p>
+
+            <form onSubmit={handleVerify} className="space-y-3">
+                <input
+                    aria-label="Attestation file"
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={handleFile}
+                    className="text-sm text-gray-700"
+                />
+                <textarea
+                    aria-label="Attestation JSON"
+                    value={json}
+                    onChange={(e) => setJson(e.target.value)}
+                    rows={10}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs text-gray-900"
+                    placeholder='{ "attestation": { ... }, "signature": "0x..." }'
+                />
+                <FieldError message={errors.json} />
+                <FieldError message={errors.form} />
+                <button
+                    type="submit"
+                    disabled={!client || isVerifying || !json.trim()}
+                    className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400">
+                    {isVerifying ? "Verifying..." : "Verify"}
+                </button>
+                {!client && (
+                    <p className="text-sm text-gray-700">Connect to a supported network to verify attestations.</p>
+                )}
+            </form>
+
+            {signed && checks.length > 0 && (
+                <div className="mt-6">
+                    <div
+                        className={`p-3 rounded-lg mb-3 font-medium ${isVerified ? "bg-green-50 text-green-800" : "bg-red-50 text-red-800"}`}>
+                        {isVerified
+                            ? `Certificate #${signed.attestation.certificateId} was redeemed by ${signed.attestation.redeemer}`
+                            : "This attestation does not hold"}
+                    </div>
+                    <ul className="space-y-2 text-sm">
+                        {checks.map((check) => (
+                            <li key={check.label} className="flex gap-2">
+                                <span className={check.passed ? "text-green-600" : "text-red-600"}>
+                                    {check.passed ? "✓" : "✗"}
+                                </span>
+                                <div>
+                                    <div className="font-medium text-gray-900">{check.label}</div>
+                                    <div className="text-xs text-gray-500 break-all">{check.detail}</div>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    )
+}
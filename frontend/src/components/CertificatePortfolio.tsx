@@ -0,0 +1,405 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { ethers } from "ethers"
+import { useContract } from "../contexts/ContractContext"
+import { BatchTransaction } from "../hooks/useTransactionManager"
+import { Certificate, formatPeriod, periodStart } from "../sdk"
+import FieldError from "./FieldError"
+
+type GroupBy = "none" | "source" | "location" | "month" | "status"
+
+type StatusFilter = "all" | "valid" | "redeemed"
+
+const GROUP_LABELS: Record<GroupBy, string> = {
+    none: "No grouping",
+    source: "By energy source",
+    location: "By location",
+    month: "By issuance month",
+    status: "By status",
+}
+
+interface CertificateGroup {
+    key: string
+    label: string
+    certificates: Certificate[]
+    energyAmount: number
+}
+
+interface CertificatePortfolioProps {
+    certificates: Certificate[]
+    onSelect: (certificate: Certificate) => void
+}
+
+const sumEnergy = (certificates: Certificate[]) => certificates.reduce((sum, cert) => sum + cert.energyAmount, 0)
+
+const groupKey = (certificate: Certificate, groupBy: GroupBy): string => {
+    switch (groupBy) {
+        case "source":
+            return certificate.energySource
+        case "location":
+            return certificate.location
+        case "month":
+            return periodStart(certificate.issuanceDate, "month").toISOString()
+        case "status":
+            return certificate.isValid ? "Valid" : "Redeemed"
+        default:
+            return "all"
+    }
+}
+
+// The viewed account's certificates, filtered and grouped with kWh totals, with bulk transfer and redeem
+export default function CertificatePortfolio({ certificates, onSelect }: CertificatePortfolioProps) {
+    const { isWatching, requireWallet, sendTransactionBatch, stopBatch, refreshCertificateData, notify } = useContract()
+    const [sourceFilter, setSourceFilter] = useState<string>("")
+    const [locationFilter, setLocationFilter] = useState<string>("")
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>("all")
+    const [issuedFrom, setIssuedFrom] = useState<string>("")
+    const [issuedTo, setIssuedTo] = useState<string>("")
+    const [groupBy, setGroupBy] = useState<GroupBy>("none")
+    const [selected, setSelected] = useState<Set<number>>(new Set())
+    const [recipient, setRecipient] = useState<string>("")
+    const [errors, setErrors] = useState<Record<string, string>>({})
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+    const [isStopping, setIsStopping] = useState<boolean>(false)
+
+    const sources = useMemo(
+        () => Array.from(new Set(certificates.map((cert) => cert.energySource))).sort(),
+        [certificates]
+    )
+    const locations = useMemo(
+        () => Array.from(new Set(certificates.map((cert) => cert.location))).sort(),
+        [certificates]
+    )
+
+    const filtered = useMemo(() => {
+        // Date inputs are local calendar days; the "to" day is included in full
+        const from = issuedFrom ? new Date(`${issuedFrom}T00:00`).getTime() : -Infinity
+        const to = issuedTo ? new Date(`${issuedTo}T00:00`).getTime() + 24 * 60 * 60 * 1000 : Infinity
+
+        return certificates.filter((cert) => {
+            if (sourceFilter && cert.energySource !== sourceFilter) return false
+            if (locationFilter && cert.location !== locationFilter) return false
+            if (statusFilter === "valid" && !cert.isValid) return false
+            if (statusFilter === "redeemed" && cert.isValid) return false
+            const issued = cert.issuanceDate.getTime()
+            return issued >= from && issued < to
+        })
+    }, [certificates, sourceFilter, locationFilter, statusFilter, issuedFrom, issuedTo])
+
+    const groups = useMemo(() => {
+        const byKey = new Map<string, Certificate[]>()
+        filtered.forEach((cert) => {
+            const key = groupKey(cert, groupBy)
+            byKey.set(key, [...(byKey.get(key) ?? []), cert])
+        })
+
+        const result: CertificateGroup[] = Array.from(byKey.entries()).map(([key, members]) => ({
+            key,
+            label: groupBy === "month" ? formatPeriod(new Date(key), "month") : key,
+            certificates: members,
+            energyAmount: sumEnergy(members),
+        }))
+        // Months read best oldest first; ISO keys sort that way too
+        return result.sort((a, b) => a.key.localeCompare(b.key))
+    }, [filtered, groupBy])
+
+    // Only certificates still on screen and still valid can be acted on
+    const selectedCertificates = filtered.filter((cert) => cert.isValid && selected.has(cert.id))
+    const selectedEnergy = sumEnergy(selectedCertificates)
+    const isProcessing = progress !== null
+
+    const toggle = (ids: number[], on: boolean) => {
+        setSelected((prev) => {
+            const next = new Set(prev)
+            ids.forEach((id) => (on ? next.add(id) : next.delete(id)))
+            return next
+        })
+    }
+
+    const validIds = (members: Certificate[]) => members.filter((cert) => cert.isValid).map((cert) => cert.id)
+    const isAllSelected = (members: Certificate[]) => {
+        const ids = validIds(members)
+        return ids.length > 0 && ids.every((id) => selected.has(id))
+    }
+
+    // Certificates that fail, or aren't sent because the batch was stopped, stay selected for another go
+    const runBatch = async (
+        label: string,
+        summary: string,
+        transaction: (certificate: Certificate) => BatchTransaction
+    ) => {
+        const batch = selectedCertificates
+        let done = 0
+        const result = await sendTransactionBatch(batch, {
+            confirmation: { label, summary },
+            transaction,
+            beforeSend: () => setProgress({ done, total: batch.length }),
+            afterSend: (certificate, outcome) => {
+                done++
+                if (outcome.status === "confirmed") toggle([certificate.id], false)
+            },
+        })
+        setProgress(null)
+        setIsStopping(false)
+        if (!result.approved) return false
+
+        const { confirmed, failed, skipped, stoppedBy } = result
+        if (confirmed.length === batch.length) {
+            notify(`${label}: all ${batch.length} certificates done`, "success")
+        } else {
+            const problems = [
+                failed.length > 0 ? `${failed.length} failed` : "",
+                stoppedBy === "rejection" ? `stopped at a rejected prompt, ${skipped.length} not sent` : "",
+                stoppedBy === "stop" ? `stopped, ${skipped.length} not sent` : "",
+            ].filter(Boolean)
+            notify(
+                `${label}: ${confirmed.length} of ${batch.length} done; ${problems.join(", ")}. The rest are still selected.`,
+                "error"
+            )
+        }
+        await refreshCertificateData()
+        return true
+    }
+
+    const handleStop = () => {
+        setIsStopping(true)
+        stopBatch()
+    }
+
+    const handleBulkTransfer = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (selectedCertificates.length === 0) return
+
+        const signingClient = await requireWallet()
+        if (!signingClient) return
+
+        const to = recipient.trim()
+        if (!ethers.utils.isAddress(to)) {
+            setErrors({ recipient: "Enter a valid recipient address." })
+            return
+        }
+        setErrors({})
+
+        const count = selectedCertificates.length
+        const ran = await runBatch(
+            `Transfer ${count} certificates`,
+            `Sign ${count} transfers, one after another, sending ${selectedEnergy} kWh of certificates to ${to}`,
+            (certificate) => ({
+                label: "Transfer certificate",
+                call: signingClient.transferCertificate(to, certificate.id),
+                summary: `Transfer certificate #${certificate.id} (${certificate.energyAmount} kWh ${certificate.energySource}) to ${to}`,
+            })
+        )
+        if (ran) setRecipient("")
+    }
+
+    const handleBulkRedeem = async () => {
+        if (selectedCertificates.length === 0) return
+
+        const signingClient = await requireWallet()
+        if (!signingClient) return
+
+        const count = selectedCertificates.length
+        await runBatch(
+            `Redeem ${count} certificates`,
+            `Sign ${count} redemptions, one after another, for ${selectedEnergy} kWh. Redeemed certificates can't be transferred afterwards.`,
+            (certificate) => ({
+                label: "Redeem certificate",
+                call: signingClient.redeemCertificate(certificate.id),
+                summary: `Redeem certificate #${certificate.id} for ${certificate.energyAmount} kWh of ${certificate.energySource} energy`,
+            })
+        )
+    }
+
+    const inputClasses = "px-2 py-1 border border-gray-300 rounded-md text-gray-900"
+
+    return (
+        <div>
+            <div className="grid grid-cols-2 gap-2 mb-2 text-sm">
+                <select
+                    aria-label="Energy source"
+                    value={sourceFilter}
+                    onChange={(e) => setSourceFilter(e.target.value)}
+                    className={inputClasses}>
+                    <option value="">All sources</option>
+                    {sources.map((source) => (
+                        <option key={source} value={source}>
+                            {source}
+                        </option>
+                    ))}
+                </select>
+                <select
+                    aria-label="Location"
+                    value={locationFilter}
+                    onChange={(e) => setLocationFilter(e.target.value)}
+                    className={inputClasses}>
+                    <option value="">All locations</option>
+                    {locations.map((location) => (
+                        <option key={location} value={location}>
+                            {location}
+                        </option>
+                    ))}
+                </select>
+                <input
+                    aria-label="Issued from"
+                    type="date"
+                    value={issuedFrom}
+                    onChange={(e) => setIssuedFrom(e.target.value)}
+                    className={inputClasses}
+                />
+                <input
+                    aria-label="Issued to"
+                    type="date"
+                    value={issuedTo}
+                    onChange={(e) => setIssuedTo(e.target.value)}
+                    className={inputClasses}
+                />
+                <select
+                    aria-label="Status"
+                    value={statusFilter}
+                    onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+                    className={inputClasses}>
+                    <option value="all">Valid and redeemed</option>
+                    <option value="valid">Valid only</option>
+                    <option value="redeemed">Redeemed only</option>
+                </select>
+                <select
+                    aria-label="Group by"
+                    value={groupBy}
+                    onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+                    className={inputClasses}>
+                    {(Object.keys(GROUP_LABELS) as GroupBy[]).map((key) => (
+                        <option key={key} value={key}>
+                            {GROUP_LABELS[key]}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <p className="text-sm text-gray-700 mb-2">
+                {filtered.length} of {certificates.length} certificates, {sumEnergy(filtered)} kWh
+            </p>
+
+            {filtered.length === 0 ? (
+                <p className="text-center py-4 text-gray-700">No certificates match these filters</p>
+            ) : (
+                <div className="space-y-3 max-h-96 overflow-y-auto">
+                    {groups.map((group) => (
+                        <div key={group.key}>
+                            {groupBy !== "none" && (
+                                <div className="flex justify-between items-center py-1 text-sm font-medium text-gray-800">
+                                    <label className="flex items-center gap-2">
+                                        {!isWatching && (
+                                            <input
+                                                type="checkbox"
+                                                aria-label={`Select ${group.label}`}
+                                                checked={isAllSelected(group.certificates)}
+                                                disabled={validIds(group.certificates).length === 0 || isProcessing}
+                                                onChange={(e) => toggle(validIds(group.certificates), e.target.checked)}
+                                            />
+                                        )}
+                                        {group.label}
+                                    </label>
+                                    <span className="text-gray-600">
+                                        {group.certificates.length} certificates, {group.energyAmount} kWh
+                                    </span>
+                                </div>
+                            )}
+                            <div className="space-y-2">
+                                {group.certificates.map((cert) => (
+                                    <div
+                                        key={cert.id}
+                                        className="p-3 border border-gray-200 rounded hover:bg-gray-50 cursor-pointer flex justify-between items-center"
+                                        onClick={() => onSelect(cert)}>
+                                        <div className="flex items-center gap-2">
+                                            {!isWatching && (
+                                                <input
+                                                    type="checkbox"
+                                                    aria-label={`Select certificate ${cert.id}`}
+                                                    checked={cert.isValid && selected.has(cert.id)}
+                                                    disabled={!cert.isValid || isProcessing}
+                                                    onClick={(e) => e.stopPropagation()}
+                                                    onChange={(e) => toggle([cert.id], e.target.checked)}
+                                                />
+                                            )}
+                                            <span className="font-medium text-gray-900">{cert.energyAmount} kWh</span>
+                                            <span className="text-sm text-gray-700">({cert.energySource})</span>
+                                            {!cert.isValid && (
+                                                <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">
+                                                    Redeemed
+                                                </span>
+                                            )}
+                                        </div>
+                                        <span className="text-sm text-gray-700">
+                                            {cert.issuanceDate.toLocaleDateString()}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {!isWatching && filtered.some((cert) => cert.isValid) && (
+                <div className="mt-4 p-3 bg-blue-50 rounded-lg text-sm">
+                    <div className="flex justify-between items-center mb-2">
+                        <span className="font-medium text-gray-800">
+                            {selectedCertificates.length} selected, {selectedEnergy} kWh
+                        </span>
+                        <button
+                            onClick={() => toggle(validIds(filtered), !isAllSelected(filtered))}
+                            disabled={isProcessing}
+                            className="text-blue-600 hover:text-blue-800 disabled:text-gray-400">
+                            {isAllSelected(filtered) ? "Clear Selection" : "Select All Valid"}
+                        </button>
+                    </div>
+
+                    {progress && (
+                        <div className="mb-2 flex items-center justify-between text-gray-700">
+                            <span>
+                                Processing {Math.min(progress.done + 1, progress.total)} of {progress.total}...
+                            </span>
+                            <button
+                                onClick={handleStop}
+                                disabled={isStopping}
+                                className="text-red-600 hover:text-red-800 disabled:text-gray-400">
+                                {isStopping ? "Stopping after this one..." : "Stop"}
+                            </button>
+                        </div>
+                    )}
+
+                    {selectedCertificates.length > 0 && (
+                        <>
+                            <form onSubmit={handleBulkTransfer} className="flex gap-2 mb-1">
+                                <input
+                                    aria-label="Bulk transfer recipient"
+                                    type="text"
+                                    value={recipient}
+                                    onChange={(e) => setRecipient(e.target.value)}
+                                    className={`flex-1 ${inputClasses}`}
+                                    placeholder="Recipient 0x..."
+                                    required
+                                />
+                                <button
+                                    type="submit"
+                                    disabled={isProcessing}
+                                    className="bg-blue-600 text-white py-1 px-3 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400">
+                                    Transfer
+                                </button>
+                            </form>
+                            <FieldError message={errors.recipient} />
+                            <button
+                                onClick={handleBulkRedeem}
+                                disabled={isProcessing}
+                                className="mt-2 w-full bg-red-600 text-white py-1 px-3 rounded-md hover:bg-red-700 transition-colors disabled:bg-gray-400">
+                                Redeem Selected
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,204 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { ethers } from "ethers"
+import { useContract } from "../contexts/ContractContext"
+import { getChainConfig } from "../constants/networks"
+import { CertificateProvenance, CustodyEvent } from "../sdk"
+
+interface CertificateProvenanceTrailProps {
+    certificateId: number
+}
+
+const CUSTODY_LABELS: Record<CustodyEvent["kind"], string> = {
+    minted: "Minted",
+    transferred: "Transferred",
+    redeemed: "Redeemed",
+}
+
+const CUSTODY_CLASSES: Record<CustodyEvent["kind"], string> = {
+    minted: "bg-green-100 text-green-800",
+    transferred: "bg-blue-100 text-blue-800",
+    redeemed: "bg-gray-100 text-gray-800",
+}
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+// Where a certificate came from and everyone who held it, from its events back to the metered reading
+export default function CertificateProvenanceTrail({ certificateId }: CertificateProvenanceTrailProps) {
+    const { client, chainId } = useContract()
+    const [provenance, setProvenance] = useState<CertificateProvenance | null>(null)
+    const [error, setError] = useState<string>("")
+    const [isLoading, setIsLoading] = useState<boolean>(false)
+
+    const fetchProvenance = useCallback(async () => {
+        if (!client) return
+
+        setIsLoading(true)
+        setError("")
+        try {
+            const result = await client.getCertificateProvenance(certificateId)
+            // The contract returns an empty record rather than reverting for IDs that were never minted
+            if (result.certificate.owner === ethers.constants.AddressZero) {
+                setProvenance(null)
+                setError(`Certificate #${certificateId} doesn't exist on this network.`)
+            } else {
+                setProvenance(result)
+            }
+        } catch (error) {
+            console.error("Error fetching certificate provenance:", error)
+            setProvenance(null)
+            setError(`Certificate #${certificateId} could not be loaded.`)
+        } finally {
+            setIsLoading(false)
+        }
+    }, [client, certificateId])
+
+    useEffect(() => {
+        fetchProvenance()
+    }, [fetchProvenance])
+
+    // Transactions link to the block explorer on chains that have one
+    const explorerUrl = getChainConfig(chainId).blockExplorerUrls?.[0]
+    const txLink = (txHash: string) => {
+        if (!txHash) return <span className="text-gray-500">unknown</span>
+        const short = `${txHash.slice(0, 10)}...${txHash.slice(-6)}`
+        return explorerUrl ? (
+            <a
+                href={`${explorerUrl}/tx/${txHash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={txHash}
+                className="text-blue-600 hover:text-blue-800">
+                {short}
+            </a>
+        ) : (
+            <span title={txHash}>{short}</span>
+        )
+    }
+    const address = (value: string) => <span title={value}>{formatAddress(value)}</span>
+
+    if (!client) {
+        return <p className="text-center py-8 text-gray-700">Connect to a supported network to trace certificates.</p>
+    }
+    if (isLoading && !provenance) {
+        return <p className="text-center py-8 text-gray-700">Tracing certificate #{certificateId}...</p>
+    }
+    if (error || !provenance) {
+        return <p className="text-center py-8 text-red-600">{error}</p>
+    }
+
+    const { certificate, custody, origin } = provenance
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white p-6 rounded-lg shadow-md">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-2xl font-bold text-blue-700">Certificate #{certificate.id}</h2>
+                    <span
+                        className={`px-2 py-1 rounded-full text-xs ${certificate.isValid ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"}`}>
+                        {certificate.isValid ? "Valid" : "Redeemed"}
+                    </span>
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                    <div className="text-gray-700">Energy Amount:</div>
+                    <div className="font-medium text-gray-900">{certificate.energyAmount} kWh</div>
+
+                    <div className="text-gray-700">Energy Source:</div>
+                    <div className="font-medium text-gray-900">{certificate.energySource}</div>
+
+                    <div className="text-gray-700">Location:</div>
+                    <div className="font-medium text-gray-900">{certificate.location}</div>
+
+                    <div className="text-gray-700">Issued:</div>
+                    <div className="font-medium text-gray-900">{certificate.issuanceDate.toLocaleString()}</div>
+
+                    <div className="text-gray-700">{certificate.isValid ? "Current Holder:" : "Redeemed By:"}</div>
+                    <div className="font-medium text-gray-900 truncate">{certificate.owner}</div>
+                </div>
+            </div>
+
+            <div className="bg-white p-6 rounded-lg shadow-md">
+                <h3 className="text-lg font-semibold mb-4 text-gray-800">Metered Production</h3>
+                {origin ? (
+                    <div className="grid grid-cols-2 gap-2 text-sm">
+                        <div className="text-gray-700">Producer:</div>
+                        <div className="font-medium text-gray-900 truncate">{origin.reading.user}</div>
+
+                        <div className="text-gray-700">Reading:</div>
+                        <div className="font-medium text-gray-900">
+                            Production #{origin.reading.index}, {origin.reading.amount} kWh {origin.reading.source}
+                        </div>
+
+                        <div className="text-gray-700">Logged:</div>
+                        <div className="text-gray-900">
+                            {origin.reading.timestamp.toLocaleString()}, tx {txLink(origin.readingTxHash)}
+                        </div>
+
+                        <div className="text-gray-700">Verified By:</div>
+                        <div className="font-medium text-gray-900 truncate">{origin.verification.verifier}</div>
+
+                        <div className="text-gray-700">Verified:</div>
+                        <div className="text-gray-900">
+                            {origin.verification.timestamp.toLocaleString()}, tx {txLink(origin.verification.txHash)}
+                        </div>
+
+                        <div className="text-gray-700">Minted From It:</div>
+                        <div className="text-gray-900">
+                            {origin.certificateIds.map((id, i) => (
+                                <span key={id}>
+                                    {i > 0 && ", "}
+                                    {id === certificate.id ? (
+                                        <span className="font-medium">#{id}</span>
+                                    ) : (
+                                        <Link
+                                            href={`/certificates/${id}`}
+                                            className="text-blue-600 hover:text-blue-800">
+                                            #{id}
+                                        </Link>
+                                    )}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                ) : (
+                    <p className="text-sm text-gray-700">
+                        This certificate was minted directly through the certificate contract, not by verifying a
+                        production reading, so it can&apos;t be traced to metered production.
+                    </p>
+                )}
+            </div>
+
+            <div className="bg-white p-6 rounded-lg shadow-md">
+                <h3 className="text-lg font-semibold mb-4 text-gray-800">Chain of Custody</h3>
+                {custody.length === 0 ? (
+                    <p className="text-sm text-gray-700">No events found for this certificate.</p>
+                ) : (
+                    <ol className="space-y-3">
+                        {custody.map((step) => (
+                            <li key={`${step.txHash}-${step.kind}`} className="border-l-4 border-blue-200 pl-3 text-sm">
+                                <div className="flex justify-between items-center">
+                                    <span className={`px-2 py-0.5 rounded-full text-xs ${CUSTODY_CLASSES[step.kind]}`}>
+                                        {CUSTODY_LABELS[step.kind]}
+                                    </span>
+                                    <span className="text-xs text-gray-500">{step.timestamp.toLocaleString()}</span>
+                                </div>
+                                <div className="mt-1 text-gray-900">
+                                    {step.kind === "minted" && <>To generator {address(step.to)}</>}
+                                    {step.kind === "transferred" && step.from && (
+                                        <>
+                                            From {address(step.from)} to {address(step.to)}
+                                        </>
+                                    )}
+                                    {step.kind === "redeemed" && <>By {address(step.to)}</>}
+                                </div>
+                                <div className="text-xs text-gray-500">tx {txLink(step.txHash)}</div>
+                            </li>
+                        ))}
+                    </ol>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -2,47 +2,43 @@
 
 import { useState } from "react"
 import { useContract } from "../contexts/ContractContext"
+import { ReadingType, toFieldErrors } from "../sdk"
+import FieldError from "./FieldError"
+import ProductionLogForm from "./ProductionLogForm"
+import ReadingHistory from "./ReadingHistory"
+import ReadingImporter from "./ReadingImporter"
 
 export default function EnergyLoggerCard() {
-    const { energyLogger, account, isConnected, userRegion, setUserRegion } = useContract()
+    const { client, isConnected, isWatching, viewAccount, userRegion, setUserRegion, sendTransaction } = useContract()
     const [energyAmount, setEnergyAmount] = useState<string>("")
     const [consumptionSource, setConsumptionSource] = useState<string>("household")
-    const [logs, setLogs] = useState<Array<{ amount: number; source: string; timestamp: number }>>([])
     const [isLoading, setIsLoading] = useState<boolean>(false)
     const [regionInput, setRegionInput] = useState<string>("")
     const [registeringRegion, setRegisteringRegion] = useState<boolean>(false)
+    const [formErrors, setFormErrors] = useState<Record<string, string>>({})
+    const [readingMode, setReadingMode] = useState<ReadingType>("consumption")
+    const [historyVersion, setHistoryVersion] = useState<number>(0)
+    const [importOpen, setImportOpen] = useState<boolean>(false)
 
     const handleLogConsumption = async (e: React.FormEvent) => {
         e.preventDefault()
-        if (!energyLogger || !energyAmount) return
+        if (!client || !energyAmount) return
 
         setIsLoading(true)
+        setFormErrors({})
         try {
-            const tx = await energyLogger.logConsumption(parseInt(energyAmount), consumptionSource)
-            await tx.wait()
-
-            const newLog = {
-                amount: parseInt(energyAmount),
-                source: consumptionSource,
-                timestamp: Math.floor(Date.now() / 1000),
-            }
-
-            setLogs((prevLogs) => [newLog, ...prevLogs])
+            const receipt = await sendTransaction(
+                "Log consumption",
+                client.logConsumption(parseInt(energyAmount), consumptionSource),
+                {
+                    summary: `Log ${energyAmount} kWh of ${consumptionSource} consumption in ${userRegion}`,
+                    onRevert: (revert) => setFormErrors(toFieldErrors(revert, ["energyAmount"])),
+                }
+            )
+            if (!receipt) return
+
+            setHistoryVersion((version) => version + 1)
             setEnergyAmount("")
-
-            // Show success message
-            alert("Energy consumption logged successfully!")
-        } catch (error) {
-            console.error("Error logging consumption:", error)
-
-            // Check if the error is about region registration
-            if (error.message && error.message.includes("User must be registered to a region")) {
-                alert(
-                    "You must register to a region before logging consumption. Please use the form below to register."
-                )
-            } else {
-                alert("Failed to log consumption. See console for details.")
-            }
         } finally {
             setIsLoading(false)
         }
@@ -50,20 +46,19 @@ export default function EnergyLoggerCard() {
 
     const handleRegisterRegion = async (e: React.FormEvent) => {
         e.preventDefault()
-        if (!energyLogger || !regionInput) return
+        if (!client || !regionInput) return
 
         setRegisteringRegion(true)
+        setFormErrors({})
         try {
-            const tx = await energyLogger.registerUser(regionInput)
-            await tx.wait()
+            const receipt = await sendTransaction("Register region", client.registerUser(regionInput), {
+                summary: `Register your account to the ${regionInput} region`,
+                onRevert: (revert) => setFormErrors(toFieldErrors(revert, ["region"])),
+            })
+            if (!receipt) return
 
             setUserRegion(regionInput)
             setRegionInput("")
-
-            alert("Region registered successfully!")
-        } catch (error) {
-            console.error("Error registering region:", error)
-            alert("Failed to register region. See console for details.")
         } finally {
             setRegisteringRegion(false)
         }
@@ -73,7 +68,16 @@ export default function EnergyLoggerCard() {
         <div className="bg-white p-6 rounded-lg shadow-md">
             <h2 className="text-2xl font-bold mb-4 text-green-700">Energy Logger</h2>
 
-            {isConnected ? (
+            {isWatching ? (
+                <>
+                    <div className="mb-6 p-4 bg-green-50 rounded-lg">
+                        <h3 className="text-lg font-semibold mb-2 text-gray-800">Region</h3>
+                        <div className="text-xl font-bold text-green-600">{userRegion || "Not registered"}</div>
+                    </div>
+
+                    <ReadingHistory account={viewAccount} />
+                </>
+            ) : isConnected ? (
                 <>
                     {!userRegion ? (
                         // Show region registration form if user has no region
@@ -97,8 +101,11 @@ export default function EnergyLoggerCard() {
                                         placeholder="e.g., California"
                                         required
                                     />
+                                    <FieldError message={formErrors.region} />
                                 </div>
 
+                                <FieldError message={formErrors.form} />
+
                                 <button
                                     type="submit"
                                     disabled={registeringRegion}
@@ -114,83 +121,94 @@ export default function EnergyLoggerCard() {
                                 <h3 className="text-lg font-semibold mb-2 text-gray-800">Your Region</h3>
                                 <div className="text-xl font-bold text-green-600">{userRegion}</div>
                                 <div className="text-sm text-gray-700 mt-1">
-                                    All your energy consumption will be logged in this region
+                                    All your energy readings will be logged in this region
                                 </div>
                             </div>
 
-                            <form onSubmit={handleLogConsumption} className="mb-6">
-                                <div className="mb-4">
-                                    <label htmlFor="energy-amount" className="block text-gray-700 mb-2">
-                                        Energy Consumption (kWh)
-                                    </label>
-                                    <input
-                                        id="energy-amount"
-                                        type="number"
-                                        value={energyAmount}
-                                        onChange={(e) => setEnergyAmount(e.target.value)}
-                                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
-                                        placeholder="Enter amount in kWh"
-                                        required
-                                        min="1"
-                                    />
-                                </div>
-
-                                <div className="mb-4">
-                                    <label htmlFor="consumption-source" className="block text-gray-700 mb-2">
-                                        Consumption Source
-                                    </label>
-                                    <select
-                                        id="consumption-source"
-                                        value={consumptionSource}
-                                        onChange={(e) => setConsumptionSource(e.target.value)}
-                                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
-                                        required>
-                                        <option value="household">Household</option>
-                                        <option value="commercial">Commercial</option>
-                                        <option value="industrial">Industrial</option>
-                                        <option value="transportation">Transportation</option>
-                                        <option value="other">Other</option>
-                                    </select>
-                                </div>
+                            <div className="flex mb-4 rounded-md overflow-hidden border border-green-600">
+                                {(["consumption", "production"] as ReadingType[]).map((mode) => (
+                                    <button
+                                        key={mode}
+                                        type="button"
+                                        onClick={() => setReadingMode(mode)}
+                                        className={`flex-1 py-2 capitalize transition-colors ${
+                                            readingMode === mode
+                                                ? "bg-green-600 text-white"
+                                                : "bg-white text-green-700 hover:bg-green-50"
+                                        }`}>
+                                        {mode}
+                                    </button>
+                                ))}
+                            </div>
 
+                            <div className="mb-4 text-right">
                                 <button
-                                    type="submit"
-                                    disabled={isLoading}
-                                    className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400">
-                                    {isLoading ? "Logging..." : "Log Consumption"}
+                                    type="button"
+                                    onClick={() => setImportOpen(!importOpen)}
+                                    className="text-sm text-green-600 hover:text-green-800">
+                                    {importOpen ? "Log a single reading" : "Import readings from a file"}
                                 </button>
-                            </form>
-
-                            <div>
-                                <h3 className="text-lg font-semibold mb-2 text-gray-700">Recent Logs</h3>
-                                {logs.length > 0 ? (
-                                    <ul className="space-y-2">
-                                        {logs.map((log, index) => (
-                                            <li key={index} className="border-b border-gray-200 pb-2">
-                                                <div className="flex justify-between">
-                                                    <div>
-                                                        <span className="font-medium">{log.amount} kWh</span>
-                                                        <span className="text-gray-500 text-sm ml-2">
-                                                            ({log.source})
-                                                        </span>
-                                                    </div>
-                                                    <span className="text-gray-500 text-sm">
-                                                        {new Date(log.timestamp * 1000).toLocaleString()}
-                                                    </span>
-                                                </div>
-                                            </li>
-                                        ))}
-                                    </ul>
-                                ) : (
-                                    <p className="text-gray-500">No consumption logs yet</p>
-                                )}
                             </div>
+
+                            {importOpen ? (
+                                <ReadingImporter onLogged={() => setHistoryVersion((version) => version + 1)} />
+                            ) : readingMode === "production" ? (
+                                <ProductionLogForm onLogged={() => setHistoryVersion((version) => version + 1)} />
+                            ) : (
+                                <form onSubmit={handleLogConsumption} className="mb-6">
+                                    <div className="mb-4">
+                                        <label htmlFor="energy-amount" className="block text-gray-700 mb-2">
+                                            Energy Consumption (kWh)
+                                        </label>
+                                        <input
+                                            id="energy-amount"
+                                            type="number"
+                                            value={energyAmount}
+                                            onChange={(e) => setEnergyAmount(e.target.value)}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                                            placeholder="Enter amount in kWh"
+                                            required
+                                            min="1"
+                                        />
+                                        <FieldError message={formErrors.energyAmount} />
+                                    </div>
+
+                                    <div className="mb-4">
+                                        <label htmlFor="consumption-source" className="block text-gray-700 mb-2">
+                                            Consumption Source
+                                        </label>
+                                        <select
+                                            id="consumption-source"
+                                            value={consumptionSource}
+                                            onChange={(e) => setConsumptionSource(e.target.value)}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                                            required>
+                                            <option value="household">Household</option>
+                                            <option value="commercial">Commercial</option>
+                                            <option value="industrial">Industrial</option>
+                                            <option value="transportation">Transportation</option>
+                                            <option value="other">Other</option>
+                                        </select>
+                                    </div>
+
+                                    <FieldError message={formErrors.form} />
+
+                                    <button
+                                        type="submit"
+                                        disabled={isLoading}
+                                        className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400">
+                                        {isLoading ? "Logging..." : "Log Consumption"}
+                                    </button>
+                                </form>
+                            )}
+
+                            <ReadingHistory account={viewAccount} version={historyVersion} />
                         </>
                     )}
                 </>
             ) : (
                 <div className="text-center py-8">
-                    <p className="text-gray-500 mb-4">Connect your wallet to log energy consumption</p>
+                    <p className="text-gray-500 mb-4">Connect your wallet to log energy readings</p>
                 </div>
             )}
         </div>
@@ -1,25 +1,40 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { ethers } from "ethers"
-import { useContract } from "../contexts/ContractContext"
+import { ALL_REGIONS, useContract } from "../contexts/ContractContext"
+import { Offer, formatEth, parseEth, toFieldErrors } from "../sdk"
+import FieldError from "./FieldError"
+import MyOffers from "./MyOffers"
+import OrderBook from "./OrderBook"
+import RegionMetricsPanel from "./RegionMetricsPanel"
+import SmartBuy from "./SmartBuy"
 
 export default function EnergyMarketplace() {
     const {
-        energyTrader,
-        energyLogger,
+        client,
+        requireWallet,
         account,
         isConnected,
+        isWatching,
         userRegion,
         setUserRegion,
+        marketRegion,
+        setMarketRegion,
         marketOffers,
         refreshCertificateData,
         isLoading,
-        renewableCertificate,
+        sendTransaction,
+        notify,
+        subscribeToEvents,
+        chainNow,
     } = useContract()
 
     const [createOfferView, setCreateOfferView] = useState<boolean>(false)
+    const [offersTab, setOffersTab] = useState<"market" | "mine">("market")
+    const [smartBuyOpen, setSmartBuyOpen] = useState<boolean>(false)
     const [regionInput, setRegionInput] = useState<string>("")
+    const [regions, setRegions] = useState<string[]>([])
 
     // Create offer form state
     const [energyAmount, setEnergyAmount] = useState<string>("")
@@ -29,7 +44,7 @@ export default function EnergyMarketplace() {
     const [isCertified, setIsCertified] = useState<boolean>(false)
 
     // Purchase state
-    const [selectedOffer, setSelectedOffer] = useState<any>(null)
+    const [selectedOffer, setSelectedOffer] = useState<Offer | null>(null)
     const [purchaseAmount, setPurchaseAmount] = useState<string>("")
     const [purchaseModalOpen, setPurchaseModalOpen] = useState<boolean>(false)
 
@@ -38,26 +53,69 @@ export default function EnergyMarketplace() {
     const [registeringRegion, setRegisteringRegion] = useState<boolean>(false)
     const [purchasingEnergy, setPurchasingEnergy] = useState<boolean>(false)
 
+    // Field-level errors from input checks and dry runs
+    const [registerErrors, setRegisterErrors] = useState<Record<string, string>>({})
+    const [offerErrors, setOfferErrors] = useState<Record<string, string>>({})
+    const [purchaseErrors, setPurchaseErrors] = useState<Record<string, string>>({})
+
+    // Platform fee in basis points, shown when confirming a purchase
+    const [platformFeeRate, setPlatformFeeRate] = useState<number | null>(null)
+
+    useEffect(() => {
+        if (!client) return
+        client
+            .getPlatformFeeRate()
+            .then(setPlatformFeeRate)
+            .catch((error) => console.error("Error fetching platform fee rate:", error))
+    }, [client])
+
+    // Regions are discovered from registrations and offers, and new ones are picked up as they appear
+    useEffect(() => {
+        if (!client) return
+        client
+            .getRegions()
+            .then(setRegions)
+            .catch((error) => console.error("Error fetching regions:", error))
+
+        return subscribeToEvents((event) => {
+            if (event.type !== "UserRegistered" && event.type !== "OfferCreated") return
+            setRegions((prev) => (prev.includes(event.region) ? prev : [...prev, event.region].sort()))
+        })
+    }, [client, subscribeToEvents])
+
+    // The registered and browsed regions are always offered, even before their events have been seen
+    const regionOptions = useMemo(
+        () =>
+            Array.from(new Set([...regions, userRegion, marketRegion]))
+                .filter((region) => region && region !== ALL_REGIONS)
+                .sort(),
+        [regions, userRegion, marketRegion]
+    )
+    const isAllRegions = marketRegion === ALL_REGIONS
+
     const inputClasses =
         "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 text-gray-900"
     const labelClasses = "block text-gray-800 mb-2"
 
     const handleRegisterRegion = async (e: React.FormEvent) => {
         e.preventDefault()
-        if (!energyLogger || !regionInput) return
+        if (!regionInput) return
 
-        console.log("Registering region using energyLogger")
+        const signingClient = await requireWallet()
+        if (!signingClient) return
 
         setRegisteringRegion(true)
+        setRegisterErrors({})
         try {
-            // Using energyLogger instead of energyTrader for registerUser
-            const tx = await energyLogger.registerUser(regionInput)
-            await tx.wait()
+            // Regions are registered on the EnergyLogger, which the trade ledger reads from
+            const receipt = await sendTransaction("Register region", signingClient.registerUser(regionInput), {
+                summary: `Register your account to the ${regionInput} region`,
+                onRevert: (revert) => setRegisterErrors(toFieldErrors(revert, ["region"])),
+            })
+            if (!receipt) return
 
             setUserRegion(regionInput)
             setRegionInput("")
-        } catch (error) {
-            console.error("Error registering region:", error)
         } finally {
             setRegisteringRegion(false)
         }
@@ -65,55 +123,57 @@ export default function EnergyMarketplace() {
 
     const handleCreateOffer = async (e: React.FormEvent) => {
         e.preventDefault()
-        if (
-            !energyTrader ||
-            !renewableCertificate ||
-            !energyAmount ||
-            !pricePerUnit ||
-            !minPurchaseAmount ||
-            !expirationTime
-        )
+        if (!energyAmount || !pricePerUnit || !minPurchaseAmount || !expirationTime) return
+
+        const signingClient = await requireWallet()
+        if (!signingClient) return
+
+        if (!userRegion) {
+            notify("You must register your region before creating offers.", "error")
             return
+        }
 
-        // Check if user has enough certificates if isCertified is checked
-        if (isCertified) {
-            try {
-                // Get certificate count
-                const count = await renewableCertificate.getCertificates(account)
-                const certificateCount = parseInt(count.toString())
-                const requiredCertificates = Math.ceil(parseInt(energyAmount) / 100)
-
-                if (certificateCount < requiredCertificates) {
-                    alert(
-                        `Insufficient certificates. You need at least ${requiredCertificates} certificates to cover ${energyAmount} kWh of certified energy. You currently have ${certificateCount} certificates.`
-                    )
-                    return
-                }
-            } catch (error) {
-                console.error("Error checking certificate count:", error)
-                alert("Failed to verify certificate count. Please try again.")
-                return
-            }
+        let priceWei: ethers.BigNumber
+        try {
+            priceWei = parseEth(pricePerUnit)
+        } catch {
+            setOfferErrors({ pricePerUnit: "Enter a price in ETH, e.g. 0.001" })
+            return
         }
 
         setCreatingOffer(true)
+        setOfferErrors({})
         try {
-            // Convert price to wei
-            const priceInWei = ethers.utils.parseEther(pricePerUnit)
-
-            // Calculate expiration timestamp (current time + hours)
+            // Calculate expiration time (chain time + hours), as the contract checks it against the block time
             const hoursFromNow = parseInt(expirationTime)
-            const expirationTimestamp = Math.floor(Date.now() / 1000) + hoursFromNow * 60 * 60
-
-            const tx = await energyTrader.createOffer(
-                parseInt(energyAmount),
-                priceInWei,
-                parseInt(minPurchaseAmount),
-                expirationTimestamp,
-                userRegion,
-                isCertified
+            const expiresAt = new Date(chainNow() + hoursFromNow * 60 * 60 * 1000)
+
+            // The dry run also checks that certified offers are covered by enough certificates
+            const receipt = await sendTransaction(
+                "Create offer",
+                signingClient.createOffer({
+                    energyAmount: parseInt(energyAmount),
+                    pricePerUnit: priceWei,
+                    minPurchaseAmount: parseInt(minPurchaseAmount),
+                    expirationTime: expiresAt,
+                    region: userRegion,
+                    isCertified,
+                }),
+                {
+                    summary: `Offer ${energyAmount} kWh${isCertified ? " of certified energy" : ""} at ${formatEth(priceWei)} ETH/kWh in ${userRegion}, minimum ${minPurchaseAmount} kWh per purchase, until ${formatDate(expiresAt)}`,
+                    onRevert: (revert) =>
+                        setOfferErrors(
+                            toFieldErrors(revert, [
+                                "energyAmount",
+                                "pricePerUnit",
+                                "minPurchaseAmount",
+                                "expirationTime",
+                                "isCertified",
+                            ])
+                        ),
+                }
             )
-            await tx.wait()
+            if (!receipt) return
 
             // Reset form
             setEnergyAmount("")
@@ -123,48 +183,52 @@ export default function EnergyMarketplace() {
             setIsCertified(false)
             setCreateOfferView(false)
 
-            // Show success message
-            alert("Energy offer created successfully!")
-
             // Refresh market offers
             await refreshCertificateData()
-        } catch (error) {
-            console.error("Error creating offer:", error)
-            let errorMessage = "Failed to create offer. Please try again."
-
-            // Try to extract useful error message
-            if (typeof error === "object" && error !== null && "message" in error) {
-                const errorObj = error as { message: string }
-                if (errorObj.message.includes("Insufficient certificates")) {
-                    errorMessage = "You don't have enough renewable energy certificates to cover this offer."
-                }
-            }
-
-            alert(errorMessage)
         } finally {
             setCreatingOffer(false)
         }
     }
 
-    const handleSelectOffer = (offer: any) => {
+    // Visitors browsing without a wallet are asked to connect once they try to trade
+    const handleOpenCreateOffer = async () => {
+        if (!(await requireWallet())) return
+        setOfferErrors({})
+        setCreateOfferView(true)
+    }
+
+    const handleSelectOffer = async (offer: Offer) => {
+        if (!(await requireWallet())) return
         setSelectedOffer(offer)
-        setPurchaseAmount(offer.minPurchaseAmount)
+        setPurchaseErrors({})
+        setPurchaseAmount(offer.minPurchaseAmount.toString())
         setPurchaseModalOpen(true)
     }
 
     const handlePurchaseEnergy = async (e: React.FormEvent) => {
         e.preventDefault()
-        if (!energyTrader || !selectedOffer || !purchaseAmount) return
+        if (!selectedOffer || !purchaseAmount) return
+
+        const signingClient = await requireWallet()
+        if (!signingClient) return
 
         setPurchasingEnergy(true)
+        setPurchaseErrors({})
         try {
             const amountToPurchase = parseInt(purchaseAmount)
-            const totalPrice = ethers.utils.parseEther(
-                (parseFloat(selectedOffer.pricePerUnit) * amountToPurchase).toString()
+            const totalPrice = selectedOffer.pricePerUnit.mul(amountToPurchase)
+
+            // The fee is taken out of the seller's share, so the buyer pays the listed total
+            const feeNote = platformFeeRate !== null ? ` incl. ${platformFeeRate / 100}% platform fee` : ""
+            const receipt = await sendTransaction(
+                "Buy energy",
+                signingClient.acceptOffer(selectedOffer.id, amountToPurchase, totalPrice),
+                {
+                    summary: `Pay ${formatEth(totalPrice)} ETH for ${amountToPurchase} kWh${feeNote}`,
+                    onRevert: (revert) => setPurchaseErrors(toFieldErrors(revert, ["purchaseAmount"])),
+                }
             )
-
-            const tx = await energyTrader.acceptOffer(selectedOffer.id, amountToPurchase, { value: totalPrice })
-            await tx.wait()
+            if (!receipt) return
 
             // Close modal and reset
             setPurchaseModalOpen(false)
@@ -173,15 +237,12 @@ export default function EnergyMarketplace() {
 
             // Refresh market offers
             await refreshCertificateData()
-        } catch (error) {
-            console.error("Error purchasing energy:", error)
         } finally {
             setPurchasingEnergy(false)
         }
     }
 
-    const formatDate = (dateString: string) => {
-        const date = new Date(dateString)
+    const formatDate = (date: Date) => {
         return date.toLocaleDateString() + " " + date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
     }
 
@@ -189,9 +250,9 @@ export default function EnergyMarketplace() {
         <div className="bg-white p-6 rounded-lg shadow-md">
             <h2 className="text-2xl font-bold mb-4 text-green-700">Energy Marketplace</h2>
 
-            {isConnected ? (
+            {client ? (
                 <>
-                    {!userRegion ? (
+                    {isConnected && !isWatching && !userRegion ? (
                         <div className="mb-6 p-4 bg-yellow-50 rounded-lg">
                             <h3 className="text-lg font-semibold mb-2 text-gray-800">Register Your Region</h3>
                             <p className="text-sm text-gray-700 mb-4">
@@ -212,8 +273,11 @@ export default function EnergyMarketplace() {
                                         placeholder="e.g., California"
                                         required
                                     />
+                                    <FieldError message={registerErrors.region} />
                                 </div>
 
+                                <FieldError message={registerErrors.form} />
+
                                 <button
                                     type="submit"
                                     disabled={registeringRegion}
@@ -225,74 +289,116 @@ export default function EnergyMarketplace() {
                     ) : (
                         <>
                             <div className="mb-6 p-4 bg-green-50 rounded-lg">
-                                <h3 className="text-lg font-semibold mb-2 text-gray-800">Your Trading Region</h3>
-                                <div className="text-xl font-bold text-green-600">{userRegion}</div>
-                                <div className="text-sm text-gray-700 mt-1">
-                                    You can trade energy within this region
-                                </div>
+                                {userRegion && !isWatching ? (
+                                    <>
+                                        <h3 className="text-lg font-semibold mb-2 text-gray-800">
+                                            Your Trading Region
+                                        </h3>
+                                        <div className="text-xl font-bold text-green-600">{userRegion}</div>
+                                        <div className="text-sm text-gray-700 mt-1 mb-3">
+                                            Your offers are listed in this region. Browsing another region doesn&apos;t
+                                            change it.
+                                        </div>
+                                    </>
+                                ) : (
+                                    <h3 className="text-lg font-semibold mb-2 text-gray-800">Browse a Region</h3>
+                                )}
+                                <select
+                                    aria-label="Region to browse"
+                                    value={marketRegion}
+                                    onChange={(e) => setMarketRegion(e.target.value)}
+                                    className={inputClasses}>
+                                    {!marketRegion && <option value="">Choose a region</option>}
+                                    <option value={ALL_REGIONS}>All regions</option>
+                                    {regionOptions.map((region) => (
+                                        <option key={region} value={region}>
+                                            {region}
+                                            {region === userRegion && !isWatching ? " (your region)" : ""}
+                                        </option>
+                                    ))}
+                                </select>
                             </div>
 
+                            {marketRegion && !isAllRegions && <RegionMetricsPanel region={marketRegion} />}
+
                             {!createOfferView ? (
                                 <>
                                     <div className="flex justify-between items-center mb-4">
-                                        <h3 className="text-lg font-semibold text-gray-800">Available Energy Offers</h3>
-                                        <button
-                                            onClick={() => setCreateOfferView(true)}
-                                            className="bg-green-600 text-white py-1 px-4 rounded-md hover:bg-green-700 transition-colors text-sm">
-                                            Create Offer
-                                        </button>
+                                        {isConnected && !isWatching ? (
+                                            <div className="flex space-x-4">
+                                                {(["market", "mine"] as const).map((tab) => (
+                                                    <button
+                                                        key={tab}
+                                                        onClick={() => setOffersTab(tab)}
+                                                        className={`text-lg font-semibold pb-1 border-b-2 ${
+                                                            offersTab === tab
+                                                                ? "text-gray-800 border-green-600"
+                                                                : "text-gray-500 border-transparent hover:text-gray-700"
+                                                        }`}>
+                                                        {tab === "market" ? "Available Offers" : "My Offers"}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        ) : (
+                                            <h3 className="text-lg font-semibold text-gray-800">
+                                                Available Energy Offers
+                                            </h3>
+                                        )}
+                                        {!isWatching && (
+                                            <button
+                                                onClick={handleOpenCreateOffer}
+                                                className="bg-green-600 text-white py-1 px-4 rounded-md hover:bg-green-700 transition-colors text-sm">
+                                                Create Offer
+                                            </button>
+                                        )}
                                     </div>
 
-                                    {isLoading ? (
+                                    {offersTab === "mine" && isConnected && !isWatching ? (
+                                        <MyOffers />
+                                    ) : !marketRegion ? (
+                                        <p className="text-center py-8 text-gray-700">
+                                            Choose a region to see its energy offers
+                                        </p>
+                                    ) : isLoading ? (
                                         <p className="text-center py-8">Loading market offers...</p>
                                     ) : marketOffers.length === 0 ? (
                                         <div className="text-center py-8">
-                                            <p className="text-gray-700">No active energy offers in your region</p>
-                                            <button
-                                                onClick={() => setCreateOfferView(true)}
-                                                className="mt-4 bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors">
-                                                Be the First to Create an Offer
-                                            </button>
+                                            <p className="text-gray-700">
+                                                No active energy offers{" "}
+                                                {isAllRegions ? "in any region" : "in this region"}
+                                            </p>
+                                            {!isWatching && (
+                                                <button
+                                                    onClick={handleOpenCreateOffer}
+                                                    className="mt-4 bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors">
+                                                    Be the First to Create an Offer
+                                                </button>
+                                            )}
                                         </div>
                                     ) : (
-                                        <div className="space-y-4">
-                                            {marketOffers.map((offer, index) => (
-                                                <div
-                                                    key={index}
-                                                    className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50">
-                                                    <div className="flex justify-between mb-2">
-                                                        <span className="font-medium text-lg">
-                                                            {offer.energyAmount} kWh
-                                                        </span>
-                                                        <span className="text-green-600 font-bold">
-                                                            {offer.pricePerUnit} ETH/kWh
-                                                        </span>
-                                                    </div>
-
-                                                    <div className="grid grid-cols-2 gap-2 text-sm text-gray-700 mb-3">
-                                                        <div>Seller:</div>
-                                                        <div className="truncate">{offer.seller}</div>
-
-                                                        <div>Min Purchase:</div>
-                                                        <div>{offer.minPurchaseAmount} kWh</div>
-
-                                                        <div>Expires:</div>
-                                                        <div>{formatDate(offer.expirationTime)}</div>
-
-                                                        <div>Certified:</div>
-                                                        <div>{offer.isCertified ? "Yes" : "No"}</div>
-                                                    </div>
-
-                                                    {offer.seller.toLowerCase() !== account.toLowerCase() && (
-                                                        <button
-                                                            onClick={() => handleSelectOffer(offer)}
-                                                            className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors">
-                                                            Purchase Energy
-                                                        </button>
-                                                    )}
+                                        <>
+                                            {!isWatching && (
+                                                <div className="mb-4 text-right">
+                                                    <button
+                                                        onClick={() => setSmartBuyOpen(!smartBuyOpen)}
+                                                        className="text-sm text-green-600 hover:text-green-800">
+                                                        {smartBuyOpen
+                                                            ? "Hide Smart Buy"
+                                                            : "Buy an amount across offers"}
+                                                    </button>
                                                 </div>
-                                            ))}
-                                        </div>
+                                            )}
+                                            {!isWatching && smartBuyOpen && (
+                                                <SmartBuy offers={marketOffers} platformFeeRate={platformFeeRate} />
+                                            )}
+                                            <OrderBook
+                                                offers={marketOffers}
+                                                account={account}
+                                                onPurchase={isWatching ? undefined : handleSelectOffer}
+                                                showRegions={isAllRegions}
+                                                homeRegion={isWatching ? "" : userRegion}
+                                            />
+                                        </>
                                     )}
                                 </>
                             ) : (
@@ -321,6 +427,7 @@ export default function EnergyMarketplace() {
                                                 required
                                                 min="1"
                                             />
+                                            <FieldError message={offerErrors.energyAmount} />
                                         </div>
 
                                         <div>
@@ -336,6 +443,7 @@ export default function EnergyMarketplace() {
                                                 placeholder="e.g., 0.001"
                                                 required
                                             />
+                                            <FieldError message={offerErrors.pricePerUnit} />
                                         </div>
 
                                         <div>
@@ -352,6 +460,7 @@ export default function EnergyMarketplace() {
                                                 required
                                                 min="1"
                                             />
+                                            <FieldError message={offerErrors.minPurchaseAmount} />
                                         </div>
 
                                         <div>
@@ -368,6 +477,7 @@ export default function EnergyMarketplace() {
                                                 required
                                                 min="1"
                                             />
+                                            <FieldError message={offerErrors.expirationTime} />
                                         </div>
 
                                         <div className="flex items-center">
@@ -382,6 +492,8 @@ export default function EnergyMarketplace() {
                                                 Include renewable energy certificate
                                             </label>
                                         </div>
+                                        <FieldError message={offerErrors.isCertified} />
+                                        <FieldError message={offerErrors.form} />
 
                                         <button
                                             type="submit"
@@ -404,12 +516,22 @@ export default function EnergyMarketplace() {
                                                 <div className="text-gray-700">Seller:</div>
                                                 <div className="truncate">{selectedOffer.seller}</div>
 
+                                                <div className="text-gray-700">Region:</div>
+                                                <div>
+                                                    {selectedOffer.region}
+                                                    {userRegion && selectedOffer.region !== userRegion && (
+                                                        <span className="ml-1 text-xs text-amber-700">
+                                                            (outside your region)
+                                                        </span>
+                                                    )}
+                                                </div>
+
                                                 <div className="text-gray-700">Available Energy:</div>
                                                 <div>{selectedOffer.energyAmount} kWh</div>
 
                                                 <div className="text-gray-700">Price per kWh:</div>
                                                 <div className="text-green-600 font-bold">
-                                                    {selectedOffer.pricePerUnit} ETH
+                                                    {formatEth(selectedOffer.pricePerUnit)} ETH
                                                 </div>
                                             </div>
                                         </div>
@@ -433,16 +555,20 @@ export default function EnergyMarketplace() {
                                                     Min: {selectedOffer.minPurchaseAmount} kWh, Max:{" "}
                                                     {selectedOffer.energyAmount} kWh
                                                 </p>
+                                                <FieldError message={purchaseErrors.purchaseAmount} />
                                             </div>
 
+                                            <FieldError message={purchaseErrors.form} />
+
                                             <div className="mb-4 p-3 bg-green-50 rounded-lg">
                                                 <div className="flex justify-between">
                                                     <span className="font-medium">Total Cost:</span>
                                                     <span className="font-bold">
-                                                        {(
-                                                            parseFloat(selectedOffer.pricePerUnit) *
-                                                            (purchaseAmount ? parseInt(purchaseAmount) : 0)
-                                                        ).toFixed(6)}{" "}
+                                                        {formatEth(
+                                                            selectedOffer.pricePerUnit.mul(
+                                                                purchaseAmount ? parseInt(purchaseAmount) : 0
+                                                            )
+                                                        )}{" "}
                                                         ETH
                                                     </span>
                                                 </div>
@@ -474,7 +600,9 @@ export default function EnergyMarketplace() {
                 </>
             ) : (
                 <div className="text-center py-8">
-                    <p className="text-gray-700 mb-4">Connect your wallet to access the energy marketplace</p>
+                    <p className="text-gray-700 mb-4">
+                        Connect your wallet or start a local node to access the energy marketplace
+                    </p>
                 </div>
             )}
         </div>
@@ -1,105 +1,160 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { ethers } from "ethers"
 import { useContract } from "../contexts/ContractContext"
+import { TRADE_STATUS_LABELS, TradeHistoryEntry, TradeStatus, formatEth, toFieldErrors } from "../sdk"
+import FieldError from "./FieldError"
+import OpenTrades from "./OpenTrades"
+import TradeStatusBadge from "./TradeStatusBadge"
 
-interface Trade {
-    seller: string
-    buyer: string
-    energyAmount: number
-    timestamp: number
-}
+const TRADES_PER_PAGE = 10
+
+type RoleFilter = "all" | "buyer" | "seller"
 
 export default function EnergyTraderCard() {
-    const { energyTrader, account, isConnected, userRegion } = useContract()
+    const {
+        client,
+        requireWallet,
+        account,
+        viewAccount,
+        isConnected,
+        isWatching,
+        userRegion,
+        sendTransaction,
+        notify,
+        subscribeToEvents,
+    } = useContract()
     const [buyerAddress, setBuyerAddress] = useState<string>("")
     const [energyAmount, setEnergyAmount] = useState<string>("")
     const [pricePerUnit, setPricePerUnit] = useState<string>("")
-    const [trades, setTrades] = useState<Trade[]>([])
+    const [trades, setTrades] = useState<TradeHistoryEntry[]>([])
     const [isLoading, setIsLoading] = useState<boolean>(false)
     const [isLoadingTrades, setIsLoadingTrades] = useState<boolean>(false)
+    const [formErrors, setFormErrors] = useState<Record<string, string>>({})
 
-    // Fetch recent trades
-    const fetchTrades = async () => {
-        if (!energyTrader) return
+    // History filters and pagination
+    const [roleFilter, setRoleFilter] = useState<RoleFilter>("all")
+    const [statusFilter, setStatusFilter] = useState<string>("all")
+    const [regionFilter, setRegionFilter] = useState<string>("all")
+    const [fromDate, setFromDate] = useState<string>("")
+    const [toDate, setToDate] = useState<string>("")
+    const [page, setPage] = useState<number>(0)
+
+    // Fetch the trade history of the viewed account, or the whole ledger when browsing without one
+    const fetchTrades = useCallback(async () => {
+        if (!client) return
 
         setIsLoadingTrades(true)
         try {
-            const newTrades: Trade[] = []
-            let index = 0
-            let hasMore = true
-
-            // Fetch up to 10 most recent trades (this is a simplified way - in a real app you'd use events)
-            while (hasMore && index < 10) {
-                try {
-                    const tradeData = await energyTrader.getTrade(index)
-                    newTrades.push({
-                        seller: tradeData.seller,
-                        buyer: tradeData.buyer,
-                        energyAmount: parseInt(tradeData.energyAmount.toString()),
-                        timestamp: parseInt(tradeData.timestamp.toString()),
-                    })
-                    index++
-                } catch (error) {
-                    hasMore = false
-                }
-            }
+            const history = viewAccount ? await client.getAccountTrades(viewAccount) : await client.getLedgerTrades()
 
-            setTrades(newTrades)
+            // Newest first
+            history.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime() || b.id - a.id)
+            setTrades(history)
         } catch (error) {
             console.error("Error fetching trades:", error)
         } finally {
             setIsLoadingTrades(false)
         }
-    }
+    }, [client, viewAccount])
 
     useEffect(() => {
-        if (isConnected) {
-            fetchTrades()
-        }
-    }, [energyTrader, isConnected])
+        fetchTrades()
+    }, [fetchTrades])
+
+    // Keep statuses current when the other side of a trade completes or cancels it
+    useEffect(() => {
+        return subscribeToEvents((event) => {
+            const me = viewAccount.toLowerCase()
+            if (
+                (event.type === "TradeCreated" &&
+                    (!me || event.seller.toLowerCase() === me || event.buyer.toLowerCase() === me)) ||
+                ((event.type === "TradeCompleted" || event.type === "TradeCancelled") &&
+                    trades.some((trade) => trade.id === event.tradeId))
+            ) {
+                fetchTrades()
+            }
+        })
+    }, [viewAccount, trades, subscribeToEvents, fetchTrades])
+
+    const tradeRegions = useMemo(() => Array.from(new Set(trades.map((trade) => trade.region))).sort(), [trades])
+
+    const filteredTrades = useMemo(() => {
+        const me = viewAccount.toLowerCase()
+        const fromTime = fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : 0
+        const toTime = toDate ? new Date(`${toDate}T23:59:59`).getTime() : Infinity
+
+        return trades.filter((trade) => {
+            if (roleFilter === "seller" && trade.seller.toLowerCase() !== me) return false
+            if (roleFilter === "buyer" && trade.buyer.toLowerCase() !== me) return false
+            if (statusFilter !== "all" && trade.status !== (parseInt(statusFilter) as TradeStatus)) return false
+            if (regionFilter !== "all" && trade.region !== regionFilter) return false
+            return trade.timestamp.getTime() >= fromTime && trade.timestamp.getTime() <= toTime
+        })
+    }, [trades, viewAccount, roleFilter, statusFilter, regionFilter, fromDate, toDate])
+
+    // Go back to the first page whenever the filters change
+    useEffect(() => {
+        setPage(0)
+    }, [roleFilter, statusFilter, regionFilter, fromDate, toDate])
+
+    const pageCount = Math.max(1, Math.ceil(filteredTrades.length / TRADES_PER_PAGE))
+    const pagedTrades = filteredTrades.slice(page * TRADES_PER_PAGE, (page + 1) * TRADES_PER_PAGE)
+
+    const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
 
     const handleRecordTrade = async (e: React.FormEvent) => {
         e.preventDefault()
-        if (!energyTrader || !buyerAddress || !energyAmount || !pricePerUnit || !userRegion) {
+
+        // Visitors are asked to connect first; the form then knows their region
+        if (!isConnected) {
+            await requireWallet()
+            return
+        }
+
+        if (!client || !buyerAddress || !energyAmount || !pricePerUnit || !userRegion) {
             if (!userRegion) {
-                alert("You must register a region in the Energy Marketplace before recording trades.")
+                notify("You must register a region in the Energy Marketplace before recording trades.", "error")
             }
             return
         }
 
+        if (!ethers.utils.isAddress(buyerAddress.trim())) {
+            setFormErrors({ buyer: "Enter a valid buyer address." })
+            return
+        }
+        if (!/^\d+$/.test(pricePerUnit)) {
+            setFormErrors({ pricePerUnit: "Enter the price as a whole number of wei." })
+            return
+        }
+
         setIsLoading(true)
+        setFormErrors({})
         try {
-            // Convert price to an integer (Wei/Gwei)
-            const pricePerUnitInt = parseInt(pricePerUnit)
-
-            // Call the recordTrade function with all required arguments
-            const tx = await energyTrader.recordTrade(
-                account, // seller
-                buyerAddress, // buyer
-                parseInt(energyAmount), // energyAmount
-                pricePerUnitInt, // pricePerUnit
-                userRegion // region
+            // The price is entered in wei and only used for record-keeping
+            const receipt = await sendTransaction(
+                "Record trade",
+                client.recordTrade({
+                    seller: account,
+                    buyer: buyerAddress.trim(),
+                    energyAmount: parseInt(energyAmount),
+                    pricePerUnit: ethers.BigNumber.from(pricePerUnit),
+                    region: userRegion,
+                }),
+                {
+                    summary: `Record a sale of ${energyAmount} kWh to ${buyerAddress.trim()} at ${pricePerUnit} wei/kWh in ${userRegion}. No payment is made.`,
+                    onRevert: (revert) => setFormErrors(toFieldErrors(revert, ["buyer", "energyAmount"])),
+                }
             )
-            await tx.wait()
-
-            // Add to trades for immediate feedback
-            const newTrade = {
-                seller: account,
-                buyer: buyerAddress,
-                energyAmount: parseInt(energyAmount),
-                timestamp: Math.floor(Date.now() / 1000),
-            }
+            if (!receipt) return
 
-            setTrades((prevTrades) => [newTrade, ...prevTrades])
             setBuyerAddress("")
             setEnergyAmount("")
             setPricePerUnit("")
 
-            alert("Trade recorded successfully!")
-        } catch (error) {
-            console.error("Error recording trade:", error)
-            alert("Failed to record trade. See console for details.")
+            // Reload the history so the new trade shows up with its on-chain details
+            await fetchTrades()
         } finally {
             setIsLoading(false)
         }
@@ -123,76 +178,92 @@ export default function EnergyTraderCard() {
                 </p>
             </div>
 
-            {isConnected ? (
+            {client ? (
                 <>
-                    <form onSubmit={handleRecordTrade} className="mb-6">
-                        <div className="mb-4">
-                            <label htmlFor="buyer-address" className="block text-gray-700 mb-2">
-                                Buyer Address
-                            </label>
-                            <input
-                                id="buyer-address"
-                                type="text"
-                                value={buyerAddress}
-                                onChange={(e) => setBuyerAddress(e.target.value)}
-                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
-                                placeholder="0x..."
-                                required
-                            />
-                        </div>
-
-                        <div className="mb-4">
-                            <label htmlFor="trade-amount" className="block text-gray-700 mb-2">
-                                Energy Amount (kWh)
-                            </label>
-                            <input
-                                id="trade-amount"
-                                type="number"
-                                value={energyAmount}
-                                onChange={(e) => setEnergyAmount(e.target.value)}
-                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
-                                placeholder="Enter amount in kWh"
-                                required
-                                min="1"
-                            />
-                        </div>
+                    {!isWatching && (
+                        <form onSubmit={handleRecordTrade} className="mb-6">
+                            <div className="mb-4">
+                                <label htmlFor="buyer-address" className="block text-gray-700 mb-2">
+                                    Buyer Address
+                                </label>
+                                <input
+                                    id="buyer-address"
+                                    type="text"
+                                    value={buyerAddress}
+                                    onChange={(e) => setBuyerAddress(e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                    placeholder="0x..."
+                                    required
+                                />
+                                <FieldError message={formErrors.buyer} />
+                            </div>
 
-                        <div className="mb-4">
-                            <label htmlFor="price-per-unit" className="block text-gray-700 mb-2">
-                                Price per kWh (in smallest currency unit)
-                            </label>
-                            <input
-                                id="price-per-unit"
-                                type="number"
-                                value={pricePerUnit}
-                                onChange={(e) => setPricePerUnit(e.target.value)}
-                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
-                                placeholder="Enter price per kWh"
-                                required
-                                min="1"
-                            />
-                            <p className="text-xs text-gray-500 mt-1">
-                                This is used for record-keeping only and won't trigger payments
-                            </p>
-                        </div>
+                            <div className="mb-4">
+                                <label htmlFor="trade-amount" className="block text-gray-700 mb-2">
+                                    Energy Amount (kWh)
+                                </label>
+                                <input
+                                    id="trade-amount"
+                                    type="number"
+                                    value={energyAmount}
+                                    onChange={(e) => setEnergyAmount(e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                    placeholder="Enter amount in kWh"
+                                    required
+                                    min="1"
+                                />
+                                <FieldError message={formErrors.energyAmount} />
+                            </div>
 
-                        {!userRegion && (
-                            <div className="mb-4 p-3 bg-yellow-50 rounded-lg text-yellow-800 text-sm">
-                                Please register your region in the Energy Marketplace section before recording trades.
+                            <div className="mb-4">
+                                <label htmlFor="price-per-unit" className="block text-gray-700 mb-2">
+                                    Price per kWh (in smallest currency unit)
+                                </label>
+                                <input
+                                    id="price-per-unit"
+                                    type="number"
+                                    value={pricePerUnit}
+                                    onChange={(e) => setPricePerUnit(e.target.value)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                    placeholder="Enter price per kWh"
+                                    required
+                                    min="1"
+                                />
+                                <p className="text-xs text-gray-500 mt-1">
+                                    This is used for record-keeping only and won&apos;t trigger payments
+                                </p>
+                                <FieldError message={formErrors.pricePerUnit} />
                             </div>
-                        )}
 
-                        <button
-                            type="submit"
-                            disabled={isLoading || !userRegion}
-                            className="w-full bg-purple-600 text-white py-2 px-4 rounded-md hover:bg-purple-700 transition-colors disabled:bg-gray-400">
-                            {isLoading ? "Recording..." : "Record Trade (Sell Energy)"}
-                        </button>
-                    </form>
+                            <FieldError message={formErrors.form} />
+
+                            {isConnected && !userRegion && (
+                                <div className="mb-4 p-3 bg-yellow-50 rounded-lg text-yellow-800 text-sm">
+                                    Please register your region in the Energy Marketplace section before recording
+                                    trades.
+                                </div>
+                            )}
+
+                            <button
+                                type="submit"
+                                disabled={isLoading || (isConnected && !userRegion)}
+                                className="w-full bg-purple-600 text-white py-2 px-4 rounded-md hover:bg-purple-700 transition-colors disabled:bg-gray-400">
+                                {isLoading
+                                    ? "Recording..."
+                                    : isConnected
+                                      ? "Record Trade (Sell Energy)"
+                                      : "Connect Wallet to Record Trades"}
+                            </button>
+                        </form>
+                    )}
+
+                    {isConnected && !isWatching && <OpenTrades trades={trades} onChanged={fetchTrades} />}
 
                     <div>
                         <div className="flex justify-between items-center mb-2">
-                            <h3 className="text-lg font-semibold text-gray-700">Recent Trades</h3>
+                            <h3 className="text-lg font-semibold text-gray-700">
+                                {viewAccount ? "Trade History" : "Trade Ledger"}
+                            </h3>
                             <button
                                 onClick={fetchTrades}
                                 disabled={isLoadingTrades}
@@ -201,55 +272,180 @@ export default function EnergyTraderCard() {
                             </button>
                         </div>
 
-                        {trades.length > 0 ? (
-                            <div className="overflow-x-auto">
-                                <table className="min-w-full">
-                                    <thead>
-                                        <tr className="border-b border-gray-200">
-                                            <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                                Seller
-                                            </th>
-                                            <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                                Buyer
-                                            </th>
-                                            <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                                Amount
-                                            </th>
-                                            <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                                Date
-                                            </th>
-                                        </tr>
-                                    </thead>
-                                    <tbody>
-                                        {trades.map((trade, index) => (
-                                            <tr key={index} className="border-b border-gray-200">
-                                                <td className="py-2 text-sm">
-                                                    <div className="truncate max-w-[80px]" title={trade.seller}>
-                                                        {trade.seller.slice(0, 6)}...{trade.seller.slice(-4)}
-                                                    </div>
-                                                </td>
-                                                <td className="py-2 text-sm">
-                                                    <div className="truncate max-w-[80px]" title={trade.buyer}>
-                                                        {trade.buyer.slice(0, 6)}...{trade.buyer.slice(-4)}
-                                                    </div>
-                                                </td>
-                                                <td className="py-2 text-sm text-right">{trade.energyAmount} kWh</td>
-                                                <td className="py-2 text-xs text-right text-gray-500">
-                                                    {new Date(trade.timestamp * 1000).toLocaleString()}
-                                                </td>
+                        <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-4 text-sm">
+                            {viewAccount && (
+                                <select
+                                    aria-label="Role"
+                                    value={roleFilter}
+                                    onChange={(e) => setRoleFilter(e.target.value as RoleFilter)}
+                                    className="px-2 py-1 border border-gray-300 rounded-md text-gray-900">
+                                    <option value="all">All roles</option>
+                                    <option value="buyer">As buyer</option>
+                                    <option value="seller">As seller</option>
+                                </select>
+                            )}
+                            <select
+                                aria-label="Status"
+                                value={statusFilter}
+                                onChange={(e) => setStatusFilter(e.target.value)}
+                                className="px-2 py-1 border border-gray-300 rounded-md text-gray-900">
+                                <option value="all">All statuses</option>
+                                {Object.entries(TRADE_STATUS_LABELS).map(([status, label]) => (
+                                    <option key={status} value={status}>
+                                        {label}
+                                    </option>
+                                ))}
+                            </select>
+                            <select
+                                aria-label="Region"
+                                value={regionFilter}
+                                onChange={(e) => setRegionFilter(e.target.value)}
+                                className="px-2 py-1 border border-gray-300 rounded-md text-gray-900">
+                                <option value="all">All regions</option>
+                                {tradeRegions.map((region) => (
+                                    <option key={region} value={region}>
+                                        {region}
+                                    </option>
+                                ))}
+                            </select>
+                            <input
+                                aria-label="From date"
+                                type="date"
+                                value={fromDate}
+                                onChange={(e) => setFromDate(e.target.value)}
+                                className="px-2 py-1 border border-gray-300 rounded-md text-gray-900"
+                            />
+                            <input
+                                aria-label="To date"
+                                type="date"
+                                value={toDate}
+                                onChange={(e) => setToDate(e.target.value)}
+                                className="px-2 py-1 border border-gray-300 rounded-md text-gray-900"
+                            />
+                        </div>
+
+                        {pagedTrades.length > 0 ? (
+                            <>
+                                <div className="overflow-x-auto">
+                                    <table className="min-w-full">
+                                        <thead>
+                                            <tr className="border-b border-gray-200">
+                                                <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                    {viewAccount ? "Role" : "Seller"}
+                                                </th>
+                                                <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                    {viewAccount ? "Counterparty" : "Buyer"}
+                                                </th>
+                                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                    Amount
+                                                </th>
+                                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                    Price
+                                                </th>
+                                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                    Total
+                                                </th>
+                                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                    Status
+                                                </th>
+                                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                    Date
+                                                </th>
                                             </tr>
-                                        ))}
-                                    </tbody>
-                                </table>
-                            </div>
+                                        </thead>
+                                        <tbody>
+                                            {pagedTrades.map((trade) => {
+                                                const isSeller =
+                                                    trade.seller.toLowerCase() === viewAccount.toLowerCase()
+                                                const counterparty = isSeller ? trade.buyer : trade.seller
+                                                const roleLabel = isSeller ? "Sold" : "Bought"
+
+                                                return (
+                                                    <tr key={trade.id} className="border-b border-gray-200">
+                                                        <td className="py-2 text-sm">
+                                                            {viewAccount ? (
+                                                                roleLabel
+                                                            ) : (
+                                                                <span title={trade.seller}>
+                                                                    {formatAddress(trade.seller)}
+                                                                </span>
+                                                            )}
+                                                            {trade.isCertified && (
+                                                                <span
+                                                                    className="ml-1 px-1 text-xs bg-green-100 text-green-700 rounded"
+                                                                    title="Includes renewable energy certificates">
+                                                                    REC
+                                                                </span>
+                                                            )}
+                                                        </td>
+                                                        <td className="py-2 text-sm">
+                                                            {viewAccount ? (
+                                                                <div
+                                                                    className="truncate max-w-[80px]"
+                                                                    title={counterparty}>
+                                                                    {formatAddress(counterparty)}
+                                                                </div>
+                                                            ) : (
+                                                                <div
+                                                                    className="truncate max-w-[80px]"
+                                                                    title={trade.buyer}>
+                                                                    {formatAddress(trade.buyer)}
+                                                                </div>
+                                                            )}
+                                                        </td>
+                                                        <td className="py-2 text-sm text-right">
+                                                            {trade.energyAmount} kWh
+                                                            <div className="text-xs text-gray-500">{trade.region}</div>
+                                                        </td>
+                                                        <td className="py-2 text-sm text-right">
+                                                            {formatEth(trade.pricePerUnit)} ETH
+                                                        </td>
+                                                        <td className="py-2 text-sm text-right">
+                                                            {formatEth(trade.totalPrice)} ETH
+                                                        </td>
+                                                        <td className="py-2 text-right" title={trade.txHash}>
+                                                            <TradeStatusBadge status={trade.status} />
+                                                        </td>
+                                                        <td className="py-2 text-xs text-right text-gray-500">
+                                                            {trade.timestamp.toLocaleString()}
+                                                        </td>
+                                                    </tr>
+                                                )
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+
+                                <div className="flex justify-between items-center mt-3 text-sm text-gray-700">
+                                    <button
+                                        onClick={() => setPage((current) => current - 1)}
+                                        disabled={page === 0}
+                                        className="text-purple-600 hover:text-purple-800 disabled:text-gray-400">
+                                        Newer
+                                    </button>
+                                    <span>
+                                        Page {page + 1} of {pageCount} ({filteredTrades.length} trades)
+                                    </span>
+                                    <button
+                                        onClick={() => setPage((current) => current + 1)}
+                                        disabled={page + 1 >= pageCount}
+                                        className="text-purple-600 hover:text-purple-800 disabled:text-gray-400">
+                                        Older
+                                    </button>
+                                </div>
+                            </>
                         ) : (
-                            <p className="text-gray-500">No trades recorded yet</p>
+                            <p className="text-gray-500">
+                                {trades.length > 0 ? "No trades match these filters" : "No trades recorded yet"}
+                            </p>
                         )}
                     </div>
                 </>
             ) : (
                 <div className="text-center py-8">
-                    <p className="text-gray-500 mb-4">Connect your wallet to record energy trades</p>
+                    <p className="text-gray-500 mb-4">
+                        Connect your wallet or start a local node to record and browse energy trades
+                    </p>
                 </div>
             )}
         </div>
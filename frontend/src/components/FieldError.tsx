@@ -0,0 +1,6 @@
+"use client"
+
+export default function FieldError({ message }: { message?: string }) {
+    if (!message) return null
+    return <p className="text-sm text-red-600 mt-1">{message}</p>
+}
@@ -0,0 +1,107 @@
+"use client"
+
+export interface ChartSeries {
+    name: string
+    color: string
+    values: number[]
+}
+
+interface LineChartProps {
+    labels: string[]
+    series: ChartSeries[]
+    unit: string
+}
+
+const WIDTH = 600
+const HEIGHT = 240
+const PADDING = { top: 10, right: 10, bottom: 30, left: 60 }
+
+// Only this many x-axis labels are drawn, so long ranges stay readable
+const MAX_X_LABELS = 6
+
+const formatValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+
+// Plain SVG line chart; every series has one value per label
+export default function LineChart({ labels, series, unit }: LineChartProps) {
+    if (labels.length === 0 || series.length === 0) {
+        return <p className="text-center py-8 text-gray-500">No history to chart yet.</p>
+    }
+
+    const allValues = series.flatMap((line) => line.values)
+    const min = Math.min(0, ...allValues)
+    const max = Math.max(0, ...allValues)
+    // A flat line at zero still needs a visible range
+    const range = max - min || 1
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+    const x = (index: number) =>
+        PADDING.left + (labels.length === 1 ? plotWidth / 2 : (index / (labels.length - 1)) * plotWidth)
+    const y = (value: number) => PADDING.top + ((max - value) / range) * plotHeight
+
+    const labelStep = Math.max(1, Math.ceil(labels.length / MAX_X_LABELS))
+    const yTicks = Array.from(new Set([max, min, 0]))
+
+    return (
+        <div>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+                {yTicks.map((tick) => (
+                    <g key={tick}>
+                        <line
+                            x1={PADDING.left}
+                            x2={WIDTH - PADDING.right}
+                            y1={y(tick)}
+                            y2={y(tick)}
+                            stroke={tick === 0 ? "#9ca3af" : "#e5e7eb"}
+                        />
+                        <text x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#6b7280">
+                            {formatValue(tick)} {unit}
+                        </text>
+                    </g>
+                ))}
+
+                {labels.map(
+                    (label, index) =>
+                        index % labelStep === 0 && (
+                            <text
+                                key={label + index}
+                                x={x(index)}
+                                y={HEIGHT - 8}
+                                textAnchor="middle"
+                                fontSize="11"
+                                fill="#6b7280">
+                                {label}
+                            </text>
+                        )
+                )}
+
+                {series.map((line) => (
+                    <g key={line.name}>
+                        <polyline
+                            fill="none"
+                            stroke={line.color}
+                            strokeWidth="2"
+                            points={line.values.map((value, index) => `${x(index)},${y(value)}`).join(" ")}
+                        />
+                        {line.values.map((value, index) => (
+                            <circle key={index} cx={x(index)} cy={y(value)} r="3" fill={line.color}>
+                                <title>
+                                    {line.name}, {labels[index]}: {formatValue(value)} {unit}
+                                </title>
+                            </circle>
+                        ))}
+                    </g>
+                ))}
+            </svg>
+
+            <div className="flex flex-wrap gap-4 justify-center mt-2 text-sm text-gray-700">
+                {series.map((line) => (
+                    <span key={line.name} className="flex items-center gap-1">
+                        <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: line.color }} />
+                        {line.name}
+                    </span>
+                ))}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,377 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { ethers } from "ethers"
+import { useContract } from "../contexts/ContractContext"
+import { SellerOffer, formatEth, parseEth, toFieldErrors } from "../sdk"
+import FieldError from "./FieldError"
+
+type OfferStatus = "active" | "expired" | "soldOut" | "cancelled"
+
+const STATUS_BADGES: Record<OfferStatus, { label: string; className: string }> = {
+    active: { label: "Active", className: "bg-green-100 text-green-800" },
+    expired: { label: "Expired", className: "bg-yellow-100 text-yellow-800" },
+    soldOut: { label: "Sold out", className: "bg-blue-100 text-blue-800" },
+    cancelled: { label: "Cancelled", className: "bg-gray-200 text-gray-700" },
+}
+
+// Relisted offers run for a day unless the seller picks another expiry
+const DEFAULT_RELIST_HOURS = 24
+
+const getStatus = (offer: SellerOffer, now: number): OfferStatus => {
+    if (offer.isCancelled) return "cancelled"
+    if (!offer.isActive) return "soldOut"
+    return offer.expirationTime.getTime() <= now ? "expired" : "active"
+}
+
+// datetime-local inputs take local time without a zone
+const toDateTimeInput = (date: Date) => {
+    const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000)
+    return local.toISOString().slice(0, 16)
+}
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+const formatDate = (date: Date) =>
+    date.toLocaleDateString() + " " + date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+
+interface OfferForm {
+    offerId: number
+    // Relisting an offer that is no longer active posts it again as a new offer
+    mode: "edit" | "relist"
+    energyAmount: string
+    pricePerUnit: string
+    minPurchaseAmount: string
+    expirationTime: string
+}
+
+// The connected seller's offers with their fills, and inline edit, cancel and relist actions
+export default function MyOffers() {
+    const { client, account, sendTransaction, subscribeToEvents, chainNow } = useContract()
+    const [offers, setOffers] = useState<SellerOffer[]>([])
+    const [isLoadingOffers, setIsLoadingOffers] = useState<boolean>(false)
+    const [form, setForm] = useState<OfferForm | null>(null)
+    const [formErrors, setFormErrors] = useState<Record<string, string>>({})
+    const [isSubmitting, setIsSubmitting] = useState<boolean>(false)
+
+    const fetchOffers = useCallback(async () => {
+        if (!client || !account) return
+
+        setIsLoadingOffers(true)
+        try {
+            const history = await client.getSellerOfferHistory(account)
+            setOffers(history.sort((a, b) => b.id - a.id))
+        } catch (error) {
+            console.error("Error fetching seller offers:", error)
+        } finally {
+            setIsLoadingOffers(false)
+        }
+    }, [client, account])
+
+    useEffect(() => {
+        fetchOffers()
+    }, [fetchOffers])
+
+    // Fills and changes made from another tab or by buyers show up without a manual refresh
+    useEffect(() => {
+        return subscribeToEvents((event) => {
+            if (event.type === "OfferCreated" && event.seller.toLowerCase() === account.toLowerCase()) {
+                fetchOffers()
+            } else if (
+                (event.type === "OfferAccepted" || event.type === "OfferUpdated" || event.type === "OfferCancelled") &&
+                offers.some((offer) => offer.id === event.offerId)
+            ) {
+                fetchOffers()
+            }
+        })
+    }, [account, offers, subscribeToEvents, fetchOffers])
+
+    const openForm = (offer: SellerOffer, mode: OfferForm["mode"]) => {
+        const expiry =
+            mode === "relist" ? new Date(chainNow() + DEFAULT_RELIST_HOURS * 60 * 60 * 1000) : offer.expirationTime
+        setFormErrors({})
+        setForm({
+            offerId: offer.id,
+            mode,
+            energyAmount: offer.energyAmount.toString(),
+            pricePerUnit: formatEth(offer.pricePerUnit),
+            minPurchaseAmount: offer.minPurchaseAmount.toString(),
+            expirationTime: toDateTimeInput(expiry),
+        })
+    }
+
+    const handleSubmit = async (e: React.FormEvent, offer: SellerOffer) => {
+        e.preventDefault()
+        if (!client || !form) return
+
+        let priceWei: ethers.BigNumber
+        try {
+            priceWei = parseEth(form.pricePerUnit)
+        } catch {
+            setFormErrors({ pricePerUnit: "Enter a price in ETH, e.g. 0.001" })
+            return
+        }
+
+        const terms = {
+            energyAmount: parseInt(form.energyAmount),
+            pricePerUnit: priceWei,
+            minPurchaseAmount: parseInt(form.minPurchaseAmount),
+            expirationTime: new Date(form.expirationTime),
+        }
+        const description = `${terms.energyAmount} kWh at ${formatEth(priceWei)} ETH/kWh, minimum ${terms.minPurchaseAmount} kWh per purchase, until ${formatDate(terms.expirationTime)}`
+
+        // Only active offers can be updated in place
+        const call = offer.isActive
+            ? client.updateOffer(offer.id, terms)
+            : client.createOffer({ ...terms, region: offer.region, isCertified: offer.isCertified })
+        const label = form.mode === "relist" ? "Relist offer" : "Update offer"
+        const summary = offer.isActive
+            ? `${form.mode === "relist" ? "Relist" : "Update"} offer #${offer.id}: ${description}`
+            : `Post offer #${offer.id} again as a new offer in ${offer.region}: ${description}`
+
+        setIsSubmitting(true)
+        setFormErrors({})
+        try {
+            const receipt = await sendTransaction(label, call, {
+                summary,
+                onRevert: (revert) =>
+                    setFormErrors(
+                        toFieldErrors(revert, [
+                            "energyAmount",
+                            "pricePerUnit",
+                            "minPurchaseAmount",
+                            "expirationTime",
+                            "isCertified",
+                        ])
+                    ),
+            })
+            if (!receipt) return
+
+            setForm(null)
+            await fetchOffers()
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    const handleCancel = async (offer: SellerOffer) => {
+        if (!client) return
+
+        setIsSubmitting(true)
+        try {
+            const receipt = await sendTransaction("Cancel offer", client.cancelOffer(offer.id), {
+                summary: `Withdraw offer #${offer.id} for the remaining ${offer.energyAmount} kWh from the market`,
+            })
+            if (receipt) await fetchOffers()
+        } finally {
+            setIsSubmitting(false)
+        }
+    }
+
+    const inputClasses =
+        "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 text-gray-900"
+    const now = chainNow()
+
+    return (
+        <div>
+            <div className="flex justify-end mb-2">
+                <button
+                    onClick={fetchOffers}
+                    disabled={isLoadingOffers}
+                    className="text-sm text-green-600 hover:text-green-800">
+                    {isLoadingOffers ? "Loading..." : "Refresh"}
+                </button>
+            </div>
+
+            {offers.length === 0 ? (
+                <p className="text-center py-8 text-gray-700">
+                    {isLoadingOffers ? "Loading your offers..." : "You haven't created any offers yet"}
+                </p>
+            ) : (
+                <div className="space-y-4">
+                    {offers.map((offer) => {
+                        const status = getStatus(offer, now)
+                        const sold = offer.fills.reduce((sum, fill) => sum + fill.energyAmount, 0)
+                        const isEditing = form?.offerId === offer.id
+                        const isExpired = offer.expirationTime.getTime() <= now
+
+                        return (
+                            <div key={offer.id} className="border border-gray-200 rounded-lg p-4">
+                                <div className="flex justify-between items-center mb-2">
+                                    <span className="font-medium text-lg">
+                                        Offer #{offer.id}
+                                        {offer.isCertified && (
+                                            <span className="ml-2 text-xs text-green-700">Certified</span>
+                                        )}
+                                    </span>
+                                    <span
+                                        className={`px-2 py-0.5 rounded-full text-xs ${STATUS_BADGES[status].className}`}>
+                                        {STATUS_BADGES[status].label}
+                                    </span>
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-2 text-sm text-gray-700 mb-3">
+                                    <div>Remaining:</div>
+                                    <div>{offer.energyAmount} kWh</div>
+
+                                    <div>Sold:</div>
+                                    <div>
+                                        {sold} kWh in {offer.fills.length} fill{offer.fills.length === 1 ? "" : "s"}
+                                    </div>
+
+                                    <div>Price:</div>
+                                    <div>{formatEth(offer.pricePerUnit)} ETH/kWh</div>
+
+                                    <div>Min Purchase:</div>
+                                    <div>{offer.minPurchaseAmount} kWh</div>
+
+                                    <div>Expires:</div>
+                                    <div>{formatDate(offer.expirationTime)}</div>
+
+                                    <div>Region:</div>
+                                    <div>{offer.region}</div>
+                                </div>
+
+                                {offer.fills.length > 0 && (
+                                    <details className="mb-3 text-sm">
+                                        <summary className="cursor-pointer text-gray-700">Fills</summary>
+                                        <ul className="mt-2 space-y-1">
+                                            {offer.fills.map((fill) => (
+                                                <li
+                                                    key={fill.txHash}
+                                                    className="flex justify-between text-gray-700"
+                                                    title={fill.txHash}>
+                                                    <span title={fill.buyer}>{formatAddress(fill.buyer)}</span>
+                                                    <span>{fill.energyAmount} kWh</span>
+                                                    <span>{formatEth(fill.totalPrice)} ETH</span>
+                                                    <span className="text-xs text-gray-500">
+                                                        {formatDate(fill.timestamp)}
+                                                    </span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </details>
+                                )}
+
+                                {isEditing && form ? (
+                                    <form onSubmit={(e) => handleSubmit(e, offer)} className="space-y-3 text-sm">
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <div>
+                                                <label htmlFor={`offer-amount-${offer.id}`} className="block mb-1">
+                                                    Amount (kWh)
+                                                </label>
+                                                <input
+                                                    id={`offer-amount-${offer.id}`}
+                                                    type="number"
+                                                    value={form.energyAmount}
+                                                    onChange={(e) => setForm({ ...form, energyAmount: e.target.value })}
+                                                    className={inputClasses}
+                                                    required
+                                                    min="1"
+                                                />
+                                                <FieldError message={formErrors.energyAmount} />
+                                            </div>
+                                            <div>
+                                                <label htmlFor={`offer-price-${offer.id}`} className="block mb-1">
+                                                    Price per kWh (ETH)
+                                                </label>
+                                                <input
+                                                    id={`offer-price-${offer.id}`}
+                                                    type="text"
+                                                    value={form.pricePerUnit}
+                                                    onChange={(e) => setForm({ ...form, pricePerUnit: e.target.value })}
+                                                    className={inputClasses}
+                                                    required
+                                                />
+                                                <FieldError message={formErrors.pricePerUnit} />
+                                            </div>
+                                            <div>
+                                                <label htmlFor={`offer-min-${offer.id}`} className="block mb-1">
+                                                    Minimum (kWh)
+                                                </label>
+                                                <input
+                                                    id={`offer-min-${offer.id}`}
+                                                    type="number"
+                                                    value={form.minPurchaseAmount}
+                                                    onChange={(e) =>
+                                                        setForm({ ...form, minPurchaseAmount: e.target.value })
+                                                    }
+                                                    className={inputClasses}
+                                                    required
+                                                    min="1"
+                                                />
+                                                <FieldError message={formErrors.minPurchaseAmount} />
+                                            </div>
+                                            <div>
+                                                <label htmlFor={`offer-expiry-${offer.id}`} className="block mb-1">
+                                                    Expires
+                                                </label>
+                                                <input
+                                                    id={`offer-expiry-${offer.id}`}
+                                                    type="datetime-local"
+                                                    value={form.expirationTime}
+                                                    onChange={(e) =>
+                                                        setForm({ ...form, expirationTime: e.target.value })
+                                                    }
+                                                    className={inputClasses}
+                                                    required
+                                                />
+                                                <FieldError message={formErrors.expirationTime} />
+                                            </div>
+                                        </div>
+                                        <FieldError message={formErrors.isCertified} />
+                                        <FieldError message={formErrors.form} />
+
+                                        <div className="flex space-x-4">
+                                            <button
+                                                type="button"
+                                                onClick={() => setForm(null)}
+                                                className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors">
+                                                Discard
+                                            </button>
+                                            <button
+                                                type="submit"
+                                                disabled={isSubmitting}
+                                                className="flex-1 bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400">
+                                                {isSubmitting
+                                                    ? "Saving..."
+                                                    : form.mode === "relist"
+                                                      ? "Relist Offer"
+                                                      : "Save Changes"}
+                                            </button>
+                                        </div>
+                                    </form>
+                                ) : (
+                                    <div className="flex space-x-4 text-sm">
+                                        {status === "active" && (
+                                            <button
+                                                onClick={() => openForm(offer, "edit")}
+                                                className="text-green-600 hover:text-green-800">
+                                                Edit
+                                            </button>
+                                        )}
+                                        {isExpired && (
+                                            <button
+                                                onClick={() => openForm(offer, "relist")}
+                                                className="text-green-600 hover:text-green-800">
+                                                Relist
+                                            </button>
+                                        )}
+                                        {offer.isActive && (
+                                            <button
+                                                onClick={() => handleCancel(offer)}
+                                                disabled={isSubmitting}
+                                                className="text-red-600 hover:text-red-800 disabled:text-gray-400">
+                                                Cancel Offer
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        )
+                    })}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -1,9 +1,10 @@
 'use client';
 
 import { useContract } from '../contexts/ContractContext';
+import TransactionDrawer from './TransactionDrawer';
 
 export default function Navbar() {
-  const { account, connectWallet, isConnected } = useContract();
+  const { account, connectWallet, isConnected, isWatching, watchAddress, transactions } = useContract();
   
   return (
     <nav className="bg-green-600 text-white p-4">
@@ -11,6 +12,12 @@ export default function Navbar() {
         <div className="text-xl font-bold">Energy Blockchain App</div>
         
         <div className="flex items-center">
+          {(isConnected || transactions.length > 0) && <TransactionDrawer />}
+          {isWatching && (
+            <div className="mr-4 px-2 py-1 bg-yellow-400 text-gray-900 rounded-md text-sm" title={watchAddress}>
+              Viewing {watchAddress.slice(0, 6)}...{watchAddress.slice(-4)} (read-only)
+            </div>
+          )}
           {isConnected ? (
             <div className="flex items-center">
               <div className="mr-4 px-2 py-1 bg-green-700 rounded-md">
@@ -0,0 +1,54 @@
+"use client"
+
+import { useState } from "react"
+import { useContract } from "../contexts/ContractContext"
+import { getChainConfig } from "../constants/networks"
+
+export default function NetworkGuard() {
+    const { chainId, isSupportedNetwork, supportedChainIds, switchNetwork } = useContract()
+    const [switchingTo, setSwitchingTo] = useState<string>("")
+    const [error, setError] = useState<string>("")
+
+    if (isSupportedNetwork) return null
+
+    const handleSwitch = async (targetChainId: string) => {
+        setSwitchingTo(targetChainId)
+        setError("")
+        try {
+            await switchNetwork(targetChainId)
+        } catch (error) {
+            console.error("Error switching network:", error)
+            setError("Your wallet did not switch networks. Please switch manually.")
+        } finally {
+            setSwitchingTo("")
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-40">
+            <div className="bg-white p-6 rounded-lg shadow-lg max-w-md w-full">
+                <h3 className="text-xl font-bold mb-2 text-red-700">Unsupported Network</h3>
+                <p className="text-gray-700 mb-4">
+                    Your wallet is connected to chain {chainId}, where the energy platform contracts are not deployed.
+                    Switch to a supported network to continue.
+                </p>
+
+                <div className="space-y-2">
+                    {supportedChainIds.map((supportedChainId) => (
+                        <button
+                            key={supportedChainId}
+                            onClick={() => handleSwitch(supportedChainId)}
+                            disabled={!!switchingTo}
+                            className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400">
+                            {switchingTo === supportedChainId
+                                ? "Switching..."
+                                : `Switch to ${getChainConfig(supportedChainId).chainName} (${supportedChainId})`}
+                        </button>
+                    ))}
+                </div>
+
+                {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,120 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useContract } from "../contexts/ContractContext"
+import { TradeHistoryEntry, TradeStatus, formatCountdown, formatEth } from "../sdk"
+import TradeStatusBadge from "./TradeStatusBadge"
+
+interface OpenTradesProps {
+    trades: TradeHistoryEntry[]
+    // Called after a trade was completed or cancelled, to reload the history
+    onChanged: () => void
+}
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+// Open trades of the connected account, where the buyer confirms delivery and either side can cancel
+export default function OpenTrades({ trades, onChanged }: OpenTradesProps) {
+    const { client, account, sendTransaction, chainNow } = useContract()
+    const [now, setNow] = useState<number>(chainNow())
+    const [pendingTradeId, setPendingTradeId] = useState<number | null>(null)
+
+    const openTrades = trades
+        .filter((trade) => trade.status === TradeStatus.Open)
+        .sort((a, b) => a.deliveryTime.getTime() - b.deliveryTime.getTime())
+
+    // Tick the delivery countdowns while there is anything to count down
+    useEffect(() => {
+        if (openTrades.length === 0) return
+        const timer = setInterval(() => setNow(chainNow()), 1000)
+        return () => clearInterval(timer)
+    }, [openTrades.length, chainNow])
+
+    if (openTrades.length === 0) return null
+
+    const isMe = (address: string) => address.toLowerCase() === account.toLowerCase()
+
+    const handleComplete = async (trade: TradeHistoryEntry) => {
+        if (!client) return
+
+        setPendingTradeId(trade.id)
+        try {
+            const receipt = await sendTransaction("Confirm delivery", client.completeTrade(trade.id), {
+                summary: `Confirm that the ${trade.energyAmount} kWh of trade #${trade.id} from ${formatAddress(trade.seller)} were delivered. This closes the trade.`,
+            })
+            if (receipt) onChanged()
+        } finally {
+            setPendingTradeId(null)
+        }
+    }
+
+    const handleCancel = async (trade: TradeHistoryEntry) => {
+        if (!client) return
+
+        setPendingTradeId(trade.id)
+        try {
+            // The ledger marks the trade cancelled but does not refund the payment
+            const receipt = await sendTransaction("Cancel trade", client.cancelTrade(trade.id), {
+                summary: `Cancel trade #${trade.id} for ${trade.energyAmount} kWh (${formatEth(trade.totalPrice)} ETH). The ledger does not refund the payment; settle it with the other party.`,
+            })
+            if (receipt) onChanged()
+        } finally {
+            setPendingTradeId(null)
+        }
+    }
+
+    return (
+        <div className="mb-6">
+            <h3 className="text-lg font-semibold text-gray-700 mb-2">Open Trades</h3>
+            <div className="space-y-3">
+                {openTrades.map((trade) => {
+                    const isBuyer = isMe(trade.buyer)
+                    const remaining = trade.deliveryTime.getTime() - now
+                    const isPending = pendingTradeId === trade.id
+
+                    return (
+                        <div key={trade.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+                            <div className="flex justify-between items-center mb-2">
+                                <span className="font-medium">
+                                    {isBuyer ? "Buying" : "Selling"} {trade.energyAmount} kWh {isBuyer ? "from" : "to"}{" "}
+                                    <span title={isBuyer ? trade.seller : trade.buyer}>
+                                        {formatAddress(isBuyer ? trade.seller : trade.buyer)}
+                                    </span>
+                                </span>
+                                <TradeStatusBadge status={trade.status} />
+                            </div>
+
+                            <div className="flex justify-between text-gray-700 mb-2">
+                                <span>
+                                    Trade #{trade.id}, {formatEth(trade.totalPrice)} ETH
+                                </span>
+                                <span className={remaining < 0 ? "text-red-600" : "text-gray-700"}>
+                                    {remaining >= 0
+                                        ? `Delivery due in ${formatCountdown(remaining)}`
+                                        : `Delivery overdue by ${formatCountdown(remaining)}`}
+                                </span>
+                            </div>
+
+                            <div className="flex space-x-4">
+                                {isBuyer && (
+                                    <button
+                                        onClick={() => handleComplete(trade)}
+                                        disabled={isPending}
+                                        className="text-green-600 hover:text-green-800 disabled:text-gray-400">
+                                        Confirm Delivery
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => handleCancel(trade)}
+                                    disabled={isPending}
+                                    className="text-red-600 hover:text-red-800 disabled:text-gray-400">
+                                    Cancel Trade
+                                </button>
+                            </div>
+                        </div>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,270 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { useContract } from "../contexts/ContractContext"
+import { Offer, formatCountdown, formatEth } from "../sdk"
+
+// Offers expiring within this window are flagged and can be filtered on
+const EXPIRING_SOON_MS = 60 * 60 * 1000
+
+type PriceOrder = "asc" | "desc"
+
+type BookView = "list" | "depth"
+
+interface OrderBookProps {
+    offers: Offer[]
+    account: string
+    // Left out for read-only visitors, who can't buy
+    onPurchase?: (offer: Offer) => void
+    // Lists each offer's region, for books that span several regions
+    showRegions?: boolean
+    // Offers outside this region are marked; empty when the viewer isn't registered anywhere
+    homeRegion?: string
+}
+
+// A price level of the depth view: all offers at one price, and everything available up to it
+interface DepthLevel {
+    pricePerUnit: Offer["pricePerUnit"]
+    energyAmount: number
+    cumulativeAmount: number
+    offerCount: number
+}
+
+// Active offers of a region sorted by price, with filters, live expiry countdowns and a depth view
+export default function OrderBook({ offers, account, onPurchase, showRegions, homeRegion }: OrderBookProps) {
+    const { chainNow } = useContract()
+    const [now, setNow] = useState<number>(chainNow())
+    const [priceOrder, setPriceOrder] = useState<PriceOrder>("asc")
+    const [view, setView] = useState<BookView>("list")
+    const [certifiedOnly, setCertifiedOnly] = useState<boolean>(false)
+    const [expiringSoonOnly, setExpiringSoonOnly] = useState<boolean>(false)
+    const [maxMinPurchase, setMaxMinPurchase] = useState<string>("")
+    const [sellerFilter, setSellerFilter] = useState<string>("")
+
+    // Countdowns tick every second, which also drops offers from the book the moment they expire on chain
+    useEffect(() => {
+        const timer = setInterval(() => setNow(chainNow()), 1000)
+        return () => clearInterval(timer)
+    }, [chainNow])
+
+    const liveOffers = useMemo(() => offers.filter((offer) => offer.expirationTime.getTime() > now), [offers, now])
+    const expiredCount = offers.length - liveOffers.length
+
+    const visibleOffers = useMemo(() => {
+        const maxMin = parseInt(maxMinPurchase)
+        const seller = sellerFilter.trim().toLowerCase()
+
+        return liveOffers
+            .filter((offer) => {
+                if (certifiedOnly && !offer.isCertified) return false
+                if (expiringSoonOnly && offer.expirationTime.getTime() - now > EXPIRING_SOON_MS) return false
+                if (!isNaN(maxMin) && offer.minPurchaseAmount > maxMin) return false
+                return !seller || offer.seller.toLowerCase().includes(seller)
+            })
+            .sort((a, b) => {
+                const byPrice = a.pricePerUnit.lt(b.pricePerUnit) ? -1 : a.pricePerUnit.gt(b.pricePerUnit) ? 1 : 0
+                // Among equal prices the offer expiring first comes first
+                return (
+                    (priceOrder === "asc" ? byPrice : -byPrice) ||
+                    a.expirationTime.getTime() - b.expirationTime.getTime()
+                )
+            })
+    }, [liveOffers, certifiedOnly, expiringSoonOnly, maxMinPurchase, sellerFilter, priceOrder, now])
+
+    // Depth is always built from the cheapest offer up, as a buyer would fill it
+    const depthLevels = useMemo(() => {
+        const levels: DepthLevel[] = []
+        const cheapestFirst = [...visibleOffers].sort((a, b) =>
+            a.pricePerUnit.lt(b.pricePerUnit) ? -1 : a.pricePerUnit.gt(b.pricePerUnit) ? 1 : 0
+        )
+        cheapestFirst.forEach((offer) => {
+            const last = levels[levels.length - 1]
+            if (last && last.pricePerUnit.eq(offer.pricePerUnit)) {
+                last.energyAmount += offer.energyAmount
+                last.cumulativeAmount += offer.energyAmount
+                last.offerCount++
+            } else {
+                levels.push({
+                    pricePerUnit: offer.pricePerUnit,
+                    energyAmount: offer.energyAmount,
+                    cumulativeAmount: (last?.cumulativeAmount ?? 0) + offer.energyAmount,
+                    offerCount: 1,
+                })
+            }
+        })
+        return levels
+    }, [visibleOffers])
+
+    const totalDepth = depthLevels.length > 0 ? depthLevels[depthLevels.length - 1].cumulativeAmount : 0
+    const inputClasses = "px-2 py-1 border border-gray-300 rounded-md text-gray-900"
+
+    return (
+        <div>
+            <div className="grid grid-cols-2 gap-2 mb-2 text-sm">
+                <select
+                    aria-label="Price order"
+                    value={priceOrder}
+                    onChange={(e) => setPriceOrder(e.target.value as PriceOrder)}
+                    className={inputClasses}>
+                    <option value="asc">Cheapest first</option>
+                    <option value="desc">Most expensive first</option>
+                </select>
+                <select
+                    aria-label="View"
+                    value={view}
+                    onChange={(e) => setView(e.target.value as BookView)}
+                    className={inputClasses}>
+                    <option value="list">Offer list</option>
+                    <option value="depth">Depth by price</option>
+                </select>
+                <input
+                    aria-label="Maximum minimum purchase"
+                    type="number"
+                    min="1"
+                    value={maxMinPurchase}
+                    onChange={(e) => setMaxMinPurchase(e.target.value)}
+                    className={inputClasses}
+                    placeholder="Min purchase ≤ kWh"
+                />
+                <input
+                    aria-label="Seller"
+                    type="text"
+                    value={sellerFilter}
+                    onChange={(e) => setSellerFilter(e.target.value)}
+                    className={inputClasses}
+                    placeholder="Seller address"
+                />
+            </div>
+            <div className="flex gap-4 mb-4 text-sm text-gray-700">
+                <label className="flex items-center gap-1">
+                    <input
+                        type="checkbox"
+                        checked={certifiedOnly}
+                        onChange={(e) => setCertifiedOnly(e.target.checked)}
+                    />
+                    Certified only
+                </label>
+                <label className="flex items-center gap-1">
+                    <input
+                        type="checkbox"
+                        checked={expiringSoonOnly}
+                        onChange={(e) => setExpiringSoonOnly(e.target.checked)}
+                    />
+                    Expiring within an hour
+                </label>
+            </div>
+
+            {visibleOffers.length === 0 ? (
+                <p className="text-center py-8 text-gray-700">
+                    {liveOffers.length > 0 ? "No offers match these filters" : "No active energy offers"}
+                </p>
+            ) : view === "depth" ? (
+                <div className="overflow-x-auto">
+                    <table className="min-w-full">
+                        <thead>
+                            <tr className="border-b border-gray-200">
+                                <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Price
+                                </th>
+                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    kWh
+                                </th>
+                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Cumulative
+                                </th>
+                                <th className="py-2 w-1/3" />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {depthLevels.map((level) => (
+                                <tr key={level.pricePerUnit.toString()} className="border-b border-gray-200 text-sm">
+                                    <td className="py-2">
+                                        {formatEth(level.pricePerUnit)} ETH
+                                        <div className="text-xs text-gray-500">
+                                            {level.offerCount} offer{level.offerCount === 1 ? "" : "s"}
+                                        </div>
+                                    </td>
+                                    <td className="py-2 text-right">{level.energyAmount}</td>
+                                    <td className="py-2 text-right">{level.cumulativeAmount}</td>
+                                    <td className="py-2 pl-3">
+                                        <div className="h-3 bg-gray-100 rounded">
+                                            <div
+                                                className="h-3 bg-green-500 rounded"
+                                                style={{ width: `${(level.cumulativeAmount / totalDepth) * 100}%` }}
+                                            />
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {visibleOffers.map((offer) => {
+                        const remaining = offer.expirationTime.getTime() - now
+                        const isExpiringSoon = remaining <= EXPIRING_SOON_MS
+                        const isOutsideHomeRegion = showRegions && !!homeRegion && offer.region !== homeRegion
+
+                        return (
+                            <div key={offer.id} className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50">
+                                <div className="flex justify-between mb-2">
+                                    <span className="font-medium text-lg">{offer.energyAmount} kWh</span>
+                                    <span className="text-green-600 font-bold">
+                                        {formatEth(offer.pricePerUnit)} ETH/kWh
+                                    </span>
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-2 text-sm text-gray-700 mb-3">
+                                    {showRegions && (
+                                        <>
+                                            <div>Region:</div>
+                                            <div>
+                                                {offer.region}
+                                                {isOutsideHomeRegion && (
+                                                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-800">
+                                                        Outside your region
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </>
+                                    )}
+
+                                    <div>Seller:</div>
+                                    <div className="truncate">{offer.seller}</div>
+
+                                    <div>Min Purchase:</div>
+                                    <div>{offer.minPurchaseAmount} kWh</div>
+
+                                    <div>Expires in:</div>
+                                    <div
+                                        className={isExpiringSoon ? "text-red-600 font-medium" : ""}
+                                        title={offer.expirationTime.toLocaleString()}>
+                                        {formatCountdown(remaining)}
+                                    </div>
+
+                                    <div>Certified:</div>
+                                    <div>{offer.isCertified ? "Yes" : "No"}</div>
+                                </div>
+
+                                {onPurchase && offer.seller.toLowerCase() !== account.toLowerCase() && (
+                                    <button
+                                        onClick={() => onPurchase(offer)}
+                                        className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors">
+                                        Purchase Energy
+                                    </button>
+                                )}
+                            </div>
+                        )
+                    })}
+                </div>
+            )}
+
+            {expiredCount > 0 && (
+                <p className="mt-3 text-xs text-gray-500 text-center">
+                    {expiredCount} expired offer{expiredCount === 1 ? " is" : "s are"} hidden
+                </p>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,231 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { ethers } from "ethers"
+import { useContract } from "../contexts/ContractContext"
+import {
+    CertificateActivity,
+    PERIOD_LABELS,
+    Period,
+    Reading,
+    TradePayment,
+    UserMetrics,
+    formatEth,
+    formatPeriod,
+    periodRange,
+    sumByPeriod,
+} from "../sdk"
+import LineChart, { ChartSeries } from "./LineChart"
+
+type DashboardView = "energy" | "certificates" | "eth"
+
+const VIEW_LABELS: Record<DashboardView, string> = {
+    energy: "Energy (kWh)",
+    certificates: "Certificates",
+    eth: "Trade payments (ETH)",
+}
+
+const VIEW_UNITS: Record<DashboardView, string> = {
+    energy: "kWh",
+    certificates: "",
+    eth: "ETH",
+}
+
+const sumWei = (payments: TradePayment[]) =>
+    payments.reduce((sum, payment) => sum.add(payment.amount), ethers.constants.Zero)
+
+const toEther = (wei: ethers.BigNumber) => parseFloat(formatEth(wei))
+
+// The viewed account's totals, certificates and trade payments on one page, charted per day, week or month
+export default function PersonalDashboard() {
+    const { client, viewAccount } = useContract()
+    const [metrics, setMetrics] = useState<UserMetrics | null>(null)
+    const [readings, setReadings] = useState<Reading[]>([])
+    const [certificates, setCertificates] = useState<CertificateActivity[]>([])
+    const [payments, setPayments] = useState<TradePayment[]>([])
+    const [view, setView] = useState<DashboardView>("energy")
+    const [period, setPeriod] = useState<Period>("day")
+    const [isLoading, setIsLoading] = useState<boolean>(false)
+
+    const fetchDashboard = useCallback(async () => {
+        if (!client || !viewAccount) return
+
+        setIsLoading(true)
+        try {
+            const [userMetrics, consumption, production, certificateActivity, tradePayments] = await Promise.all([
+                client.getUserMetrics(viewAccount),
+                client.getReadings(viewAccount, "consumption"),
+                client.getReadings(viewAccount, "production"),
+                client.getCertificateActivity(viewAccount),
+                client.getTradePayments(viewAccount),
+            ])
+            setMetrics(userMetrics)
+            setReadings([...consumption, ...production])
+            setCertificates(certificateActivity)
+            setPayments(tradePayments)
+        } catch (error) {
+            console.error("Error fetching dashboard data:", error)
+        } finally {
+            setIsLoading(false)
+        }
+    }, [client, viewAccount])
+
+    useEffect(() => {
+        fetchDashboard()
+    }, [fetchDashboard])
+
+    const [earned, redeemed] = useMemo(
+        () => [
+            certificates.filter((activity) => activity.kind === "earned"),
+            certificates.filter((activity) => activity.kind === "redeemed"),
+        ],
+        [certificates]
+    )
+    const [sales, purchases] = useMemo(
+        () => [
+            payments.filter((payment) => payment.role === "seller"),
+            payments.filter((payment) => payment.role === "buyer"),
+        ],
+        [payments]
+    )
+    const ethEarned = sumWei(sales)
+    const ethSpent = sumWei(purchases)
+    const feesPaid = sales.reduce((sum, payment) => sum.add(payment.fee), ethers.constants.Zero)
+
+    const chart = useMemo(() => {
+        const dated: Date[] =
+            view === "energy"
+                ? readings.map((reading) => reading.timestamp)
+                : view === "certificates"
+                  ? certificates.map((activity) => activity.timestamp)
+                  : payments.map((payment) => payment.timestamp)
+        if (dated.length === 0) return { labels: [], series: [] }
+
+        const times = dated.map((date) => date.getTime())
+        const starts = periodRange(new Date(Math.min(...times)), new Date(Math.max(...times)), period)
+        const sum = <T extends { timestamp: Date }>(items: T[], getValue: (item: T) => number) =>
+            sumByPeriod(items, starts, period, (item) => item.timestamp, getValue)
+
+        let series: ChartSeries[]
+        if (view === "energy") {
+            const production = sum(
+                readings.filter((reading) => reading.readingType === "production"),
+                (reading) => reading.amount
+            )
+            const consumption = sum(
+                readings.filter((reading) => reading.readingType === "consumption"),
+                (reading) => reading.amount
+            )
+            series = [
+                { name: "Production", color: "#16a34a", values: production },
+                { name: "Consumption", color: "#ea580c", values: consumption },
+                { name: "Net", color: "#2563eb", values: production.map((produced, i) => produced - consumption[i]) },
+            ]
+        } else if (view === "certificates") {
+            series = [
+                { name: "Earned", color: "#16a34a", values: sum(earned, () => 1) },
+                { name: "Redeemed", color: "#9333ea", values: sum(redeemed, () => 1) },
+            ]
+        } else {
+            series = [
+                { name: "Earned", color: "#16a34a", values: sum(sales, (payment) => toEther(payment.amount)) },
+                { name: "Spent", color: "#ea580c", values: sum(purchases, (payment) => toEther(payment.amount)) },
+            ]
+        }
+
+        return { labels: starts.map((start) => formatPeriod(start, period)), series }
+    }, [view, period, readings, certificates, payments, earned, redeemed, sales, purchases])
+
+    if (!viewAccount) return null
+
+    const netPosition = metrics ? metrics.totalProduction - metrics.totalConsumption : 0
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-gray-800">Energy Dashboard</h2>
+                <button
+                    onClick={fetchDashboard}
+                    disabled={isLoading}
+                    className="text-sm text-green-600 hover:text-green-800">
+                    {isLoading ? "Loading..." : "Refresh"}
+                </button>
+            </div>
+
+            {metrics && (
+                <div className="mb-6 grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                    <div className="p-2 bg-gray-50 rounded">
+                        <div className="text-gray-500">Produced</div>
+                        <div className="font-medium text-gray-900">{metrics.totalProduction} kWh</div>
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded">
+                        <div className="text-gray-500">Consumed</div>
+                        <div className="font-medium text-gray-900">{metrics.totalConsumption} kWh</div>
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded">
+                        <div className="text-gray-500">Net Position</div>
+                        <div className={`font-medium ${netPosition >= 0 ? "text-green-700" : "text-orange-700"}`}>
+                            {netPosition >= 0 ? `+${netPosition}` : netPosition} kWh
+                        </div>
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded">
+                        <div className="text-gray-500">Carbon Offset</div>
+                        <div className="font-medium text-gray-900">{metrics.totalCarbonOffset} kg CO2</div>
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded">
+                        <div className="text-gray-500">Certificates Earned</div>
+                        <div className="font-medium text-gray-900">{earned.length}</div>
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded">
+                        <div className="text-gray-500">Certificates Redeemed</div>
+                        <div className="font-medium text-gray-900">{redeemed.length}</div>
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded">
+                        <div className="text-gray-500">ETH Earned</div>
+                        <div className="font-medium text-gray-900">{formatEth(ethEarned)} ETH</div>
+                        {!feesPaid.isZero() && (
+                            <div className="text-xs text-gray-500">after {formatEth(feesPaid)} ETH in fees</div>
+                        )}
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded">
+                        <div className="text-gray-500">ETH Spent</div>
+                        <div className="font-medium text-gray-900">{formatEth(ethSpent)} ETH</div>
+                    </div>
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2 mb-4 text-sm">
+                <select
+                    aria-label="Chart"
+                    value={view}
+                    onChange={(e) => setView(e.target.value as DashboardView)}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-gray-900">
+                    {(Object.keys(VIEW_LABELS) as DashboardView[]).map((key) => (
+                        <option key={key} value={key}>
+                            {VIEW_LABELS[key]}
+                        </option>
+                    ))}
+                </select>
+                <select
+                    aria-label="Period"
+                    value={period}
+                    onChange={(e) => setPeriod(e.target.value as Period)}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-gray-900">
+                    {(Object.keys(PERIOD_LABELS) as Period[]).map((key) => (
+                        <option key={key} value={key}>
+                            {PERIOD_LABELS[key]}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <LineChart labels={chart.labels} series={chart.series} unit={VIEW_UNITS[view]} />
+
+            {metrics && metrics.lastUpdate.getTime() > 0 && (
+                <p className="mt-2 text-xs text-gray-500 text-right">
+                    Totals last updated {metrics.lastUpdate.toLocaleString()}
+                </p>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,139 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useContract } from "../contexts/ContractContext"
+import { ENERGY_SOURCES, ENERGY_SOURCE_LABELS, toFieldErrors } from "../sdk"
+import FieldError from "./FieldError"
+
+// Matches RenewableCertificate.ENERGY_THRESHOLD until the contract has been read
+const DEFAULT_ENERGY_THRESHOLD = 100
+
+// Reports a logged reading so the parent can reload its history, which shows the verification status
+export default function ProductionLogForm({ onLogged }: { onLogged: () => void }) {
+    const { client, userRegion, sendTransaction } = useContract()
+    const [energyAmount, setEnergyAmount] = useState<string>("")
+    const [productionSource, setProductionSource] = useState<string>("solar")
+    const [carbonOffset, setCarbonOffset] = useState<string>("")
+    const [energyThreshold, setEnergyThreshold] = useState<number>(DEFAULT_ENERGY_THRESHOLD)
+    const [isLoading, setIsLoading] = useState<boolean>(false)
+    const [formErrors, setFormErrors] = useState<Record<string, string>>({})
+
+    useEffect(() => {
+        if (!client) return
+        client
+            .getEnergyThreshold()
+            .then(setEnergyThreshold)
+            .catch((error) => console.error("Error fetching energy threshold:", error))
+    }, [client])
+
+    const handleLogProduction = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!client || !energyAmount) return
+
+        setIsLoading(true)
+        setFormErrors({})
+        try {
+            const amount = parseInt(energyAmount)
+            const offset = carbonOffset ? parseInt(carbonOffset) : 0
+            const receipt = await sendTransaction(
+                "Log production",
+                client.logProduction(amount, productionSource, offset),
+                {
+                    summary: `Log ${amount} kWh of ${productionSource} production in ${userRegion}, offsetting ${offset} kg CO2`,
+                    onRevert: (revert) => setFormErrors(toFieldErrors(revert, ["energyAmount"])),
+                }
+            )
+            if (!receipt) return
+
+            setEnergyAmount("")
+            setCarbonOffset("")
+            onLogged()
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    const previewAmount = parseInt(energyAmount) || 0
+    const previewCertificates = Math.floor(previewAmount / energyThreshold)
+
+    return (
+        <form onSubmit={handleLogProduction} className="mb-6">
+            <div className="mb-4">
+                <label htmlFor="production-amount" className="block text-gray-700 mb-2">
+                    Energy Production (kWh)
+                </label>
+                <input
+                    id="production-amount"
+                    type="number"
+                    value={energyAmount}
+                    onChange={(e) => setEnergyAmount(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                    placeholder="Enter amount in kWh"
+                    required
+                    min="1"
+                />
+                <FieldError message={formErrors.energyAmount} />
+            </div>
+
+            <div className="mb-4">
+                <label htmlFor="production-source" className="block text-gray-700 mb-2">
+                    Production Source
+                </label>
+                <select
+                    id="production-source"
+                    value={productionSource}
+                    onChange={(e) => setProductionSource(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                    required>
+                    {ENERGY_SOURCES.map((source) => (
+                        <option key={source} value={source}>
+                            {ENERGY_SOURCE_LABELS[source]}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="mb-4">
+                <label htmlFor="carbon-offset" className="block text-gray-700 mb-2">
+                    Estimated Carbon Offset (kg CO2)
+                </label>
+                <input
+                    id="carbon-offset"
+                    type="number"
+                    value={carbonOffset}
+                    onChange={(e) => setCarbonOffset(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                    placeholder="e.g., 40"
+                    min="0"
+                />
+            </div>
+
+            {previewAmount > 0 && (
+                <div className="mb-4 p-3 bg-blue-50 rounded-lg text-sm text-gray-800">
+                    {previewCertificates > 0 ? (
+                        <>
+                            Once verified, this reading yields{" "}
+                            <span className="font-bold text-blue-700">
+                                {previewCertificates} certificate{previewCertificates === 1 ? "" : "s"}
+                            </span>{" "}
+                            ({energyThreshold} kWh each)
+                            {previewAmount % energyThreshold > 0 &&
+                                `. The remaining ${previewAmount % energyThreshold} kWh are not certified.`}
+                        </>
+                    ) : (
+                        `Below the ${energyThreshold} kWh threshold, so no certificate will be issued for this reading.`
+                    )}
+                </div>
+            )}
+
+            <FieldError message={formErrors.form} />
+
+            <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400">
+                {isLoading ? "Logging..." : "Log Production"}
+            </button>
+        </form>
+    )
+}
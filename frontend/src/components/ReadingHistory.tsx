@@ -0,0 +1,213 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { useContract } from "../contexts/ContractContext"
+import { Reading } from "../sdk"
+
+const READINGS_PER_PAGE = 10
+
+type HistoryView = "timeline" | "consumption" | "production"
+
+type SortOrder = "newest" | "oldest" | "largest" | "smallest"
+
+const SORTERS: Record<SortOrder, (a: Reading, b: Reading) => number> = {
+    newest: (a, b) => b.timestamp.getTime() - a.timestamp.getTime(),
+    oldest: (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+    largest: (a, b) => b.amount - a.amount,
+    smallest: (a, b) => a.amount - b.amount,
+}
+
+interface ReadingHistoryProps {
+    account: string
+    // Bumped by the parent after it logs a reading, to reload the history
+    version?: number
+}
+
+// Consumption and production readings of an account as stored by the EnergyLogger
+export default function ReadingHistory({ account, version = 0 }: ReadingHistoryProps) {
+    const { client, subscribeToEvents } = useContract()
+    const [readings, setReadings] = useState<Reading[]>([])
+    const [isLoadingReadings, setIsLoadingReadings] = useState<boolean>(false)
+    const [view, setView] = useState<HistoryView>("timeline")
+    const [sortOrder, setSortOrder] = useState<SortOrder>("newest")
+    const [page, setPage] = useState<number>(0)
+
+    const fetchReadings = useCallback(async () => {
+        if (!client || !account) return
+
+        setIsLoadingReadings(true)
+        try {
+            const [consumption, production] = await Promise.all([
+                client.getReadings(account, "consumption"),
+                client.getReadings(account, "production"),
+            ])
+            setReadings([...consumption, ...production])
+        } catch (error) {
+            console.error("Error fetching readings:", error)
+        } finally {
+            setIsLoadingReadings(false)
+        }
+    }, [client, account])
+
+    useEffect(() => {
+        fetchReadings()
+    }, [fetchReadings, version])
+
+    // Flip the badge as soon as a verifier signs a reading off
+    useEffect(() => {
+        return subscribeToEvents((event) => {
+            if (event.type !== "ReadingVerified" || event.user.toLowerCase() !== account.toLowerCase()) return
+            setReadings((prev) =>
+                prev.map((reading) =>
+                    reading.readingType === event.readingType && reading.index === event.readingIndex
+                        ? { ...reading, verified: true }
+                        : reading
+                )
+            )
+        })
+    }, [account, subscribeToEvents])
+
+    const visibleReadings = useMemo(() => {
+        const selected = view === "timeline" ? readings : readings.filter((reading) => reading.readingType === view)
+        return [...selected].sort(SORTERS[sortOrder])
+    }, [readings, view, sortOrder])
+
+    // Go back to the first page whenever the view or order changes
+    useEffect(() => {
+        setPage(0)
+    }, [view, sortOrder, account])
+
+    const pageCount = Math.max(1, Math.ceil(visibleReadings.length / READINGS_PER_PAGE))
+    const pagedReadings = visibleReadings.slice(page * READINGS_PER_PAGE, (page + 1) * READINGS_PER_PAGE)
+
+    const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-2">
+                <h3 className="text-lg font-semibold text-gray-700">Reading History</h3>
+                <button
+                    onClick={fetchReadings}
+                    disabled={isLoadingReadings}
+                    className="text-sm text-green-600 hover:text-green-800">
+                    {isLoadingReadings ? "Loading..." : "Refresh"}
+                </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 mb-4 text-sm">
+                <select
+                    aria-label="Readings"
+                    value={view}
+                    onChange={(e) => setView(e.target.value as HistoryView)}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-gray-900">
+                    <option value="timeline">Combined timeline</option>
+                    <option value="consumption">Consumption only</option>
+                    <option value="production">Production only</option>
+                </select>
+                <select
+                    aria-label="Sort by"
+                    value={sortOrder}
+                    onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-gray-900">
+                    <option value="newest">Newest first</option>
+                    <option value="oldest">Oldest first</option>
+                    <option value="largest">Largest first</option>
+                    <option value="smallest">Smallest first</option>
+                </select>
+            </div>
+
+            {pagedReadings.length > 0 ? (
+                <>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full">
+                            <thead>
+                                <tr className="border-b border-gray-200">
+                                    <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        Type
+                                    </th>
+                                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        Amount
+                                    </th>
+                                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        CO2 Offset
+                                    </th>
+                                    <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider pl-3">
+                                        Reporter
+                                    </th>
+                                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        Status
+                                    </th>
+                                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        Date
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {pagedReadings.map((reading) => (
+                                    <tr
+                                        key={`${reading.readingType}-${reading.index}`}
+                                        className="border-b border-gray-200">
+                                        <td className="py-2 text-sm">
+                                            <span
+                                                className={
+                                                    reading.readingType === "production"
+                                                        ? "text-green-700"
+                                                        : "text-orange-700"
+                                                }>
+                                                {reading.readingType === "production" ? "Produced" : "Consumed"}
+                                            </span>
+                                            <div className="text-xs text-gray-500">{reading.source}</div>
+                                        </td>
+                                        <td className="py-2 text-sm text-right">{reading.amount} kWh</td>
+                                        <td className="py-2 text-sm text-right">
+                                            {reading.readingType === "production" ? `${reading.carbonOffset} kg` : "—"}
+                                        </td>
+                                        <td className="py-2 text-sm pl-3" title={reading.reporter}>
+                                            {reading.reporter.toLowerCase() === account.toLowerCase()
+                                                ? "Self"
+                                                : formatAddress(reading.reporter)}
+                                        </td>
+                                        <td className="py-2 text-right">
+                                            {reading.verified ? (
+                                                <span className="px-2 py-0.5 bg-green-100 text-green-800 rounded-full text-xs">
+                                                    Verified
+                                                </span>
+                                            ) : (
+                                                <span className="px-2 py-0.5 bg-yellow-100 text-yellow-800 rounded-full text-xs">
+                                                    Unverified
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="py-2 text-xs text-right text-gray-500">
+                                            {reading.timestamp.toLocaleString()}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="flex justify-between items-center mt-3 text-sm text-gray-700">
+                        <button
+                            onClick={() => setPage((current) => current - 1)}
+                            disabled={page === 0}
+                            className="text-green-600 hover:text-green-800 disabled:text-gray-400">
+                            Previous
+                        </button>
+                        <span>
+                            Page {page + 1} of {pageCount} ({visibleReadings.length} readings)
+                        </span>
+                        <button
+                            onClick={() => setPage((current) => current + 1)}
+                            disabled={page + 1 >= pageCount}
+                            className="text-green-600 hover:text-green-800 disabled:text-gray-400">
+                            Next
+                        </button>
+                    </div>
+                </>
+            ) : (
+                <p className="text-gray-500">{isLoadingReadings ? "Loading readings..." : "No readings logged yet"}</p>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,682 @@
+"use client"
+
+import { useState } from "react"
+import { useContract } from "../contexts/ContractContext"
+import {
+    ColumnMapping,
+    ESPI_GRANULARITY_LABELS,
+    ENERGY_SOURCES,
+    ENERGY_SOURCE_LABELS,
+    EnergyClient,
+    EspiGranularity,
+    EspiParseResult,
+    IMPORT_FIELD_LABELS,
+    ImportDefaults,
+    ImportField,
+    ImportRow,
+    REQUIRED_IMPORT_FIELDS,
+    Reading,
+    ReadingType,
+    aggregateEspiIntervals,
+    guessColumnMapping,
+    markDuplicates,
+    matchesLoggedReading,
+    parseCsv,
+    parseEspiXml,
+    readCsvRows,
+    summarizeImport,
+} from "../sdk"
+import { QueuedReading, ReadingImport, toMeterReading, useReadingImportQueue } from "../hooks/useReadingImportQueue"
+import { TransactionConfirmation } from "../hooks/useTransactionManager"
+import FieldError from "./FieldError"
+
+const IMPORT_FIELDS = Object.keys(IMPORT_FIELD_LABELS) as ImportField[]
+
+// Column order of the template, also assumed for files without a header row
+const TEMPLATE_MAPPING: ColumnMapping = { timestamp: 0, readingType: 1, amount: 2, source: 3, carbonOffset: 4 }
+
+const CSV_TEMPLATE =
+    "timestamp,type,amount,source,carbon_offset\n" +
+    "2024-01-01T00:00:00Z,consumption,2,household,0\n" +
+    "2024-01-01T12:00:00Z,production,5,solar,3\n"
+
+const DEFAULT_SOURCES: Record<ReadingType, string> = { consumption: "household", production: "solar" }
+
+// Invalid and duplicate rows listed in the dry run; the summary still counts all of them
+const MAX_LISTED_ROWS = 20
+
+const formatDateTime = (date: Date) => date.toLocaleString()
+
+// Green Button exports to try the import with, served from public/samples
+const ESPI_SAMPLES = [
+    { file: "green-button-hourly-consumption.xml", label: "hourly consumption" },
+    { file: "green-button-solar-net-metering.xml", label: "15-minute solar net metering" },
+]
+
+// Logs readings in bulk from a CSV or Green Button file: map or aggregate, dry-run, then send one transaction per reading
+export default function ReadingImporter({ onLogged }: { onLogged: () => void }) {
+    const { client, account, chainId, userRegion, requireWallet, sendTransactionBatch, stopBatch, notify } =
+        useContract()
+    const queue = useReadingImportQueue(chainId, account)
+    const [fileName, setFileName] = useState<string>("")
+    const [records, setRecords] = useState<string[][]>([])
+    const [hasHeader, setHasHeader] = useState<boolean>(true)
+    const [mapping, setMapping] = useState<ColumnMapping>(TEMPLATE_MAPPING)
+    const [defaults, setDefaults] = useState<ImportDefaults>({
+        readingType: "consumption",
+        sources: DEFAULT_SOURCES,
+        carbonOffset: 0,
+    })
+    const [espi, setEspi] = useState<EspiParseResult | null>(null)
+    const [granularity, setGranularity] = useState<EspiGranularity>("hour")
+    const [espiSources, setEspiSources] = useState<Record<ReadingType, string>>(DEFAULT_SOURCES)
+    const [rows, setRows] = useState<ImportRow[] | null>(null)
+    const [isChecking, setIsChecking] = useState<boolean>(false)
+    const [isSending, setIsSending] = useState<boolean>(false)
+    const [errors, setErrors] = useState<Record<string, string>>({})
+
+    const resetFile = () => {
+        setFileName("")
+        setRecords([])
+        setEspi(null)
+        setRows(null)
+        setErrors({})
+    }
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        if (!file) return
+
+        const text = await file.text()
+        if (file.name.toLowerCase().endsWith(".xml") || text.trimStart().startsWith("<")) {
+            const parsedEspi = parseEspiXml(text)
+            if (!parsedEspi || parsedEspi.intervals.length === 0) {
+                setErrors({ file: "This isn't a Green Button (ESPI) file with energy interval readings." })
+                return
+            }
+            resetFile()
+            setFileName(file.name)
+            setEspi(parsedEspi)
+            return
+        }
+
+        const parsed = parseCsv(text)
+        if (!parsed.some((record) => record.some((cell) => cell.trim()))) {
+            setErrors({ file: "This file has no rows." })
+            return
+        }
+        const guessed = guessColumnMapping(parsed[0])
+        const headerFound = REQUIRED_IMPORT_FIELDS.every((field) => guessed[field] !== null)
+        setFileName(file.name)
+        setEspi(null)
+        setRecords(parsed)
+        setHasHeader(headerFound)
+        setMapping(headerFound ? guessed : TEMPLATE_MAPPING)
+        setRows(null)
+        setErrors({})
+    }
+
+    // Readings of earlier imports that are still at the index they were logged to, and the account's others
+    const findLoggedReadings = async (reader: EnergyClient) => {
+        const [production, consumption] = await Promise.all([
+            reader.getReadings(account, "production"),
+            reader.getReadings(account, "consumption"),
+        ])
+        const onChain: Record<ReadingType, Reading[]> = { production, consumption }
+        const logged = new Map<string, string>()
+        const claimed = new Set<string>()
+        queue.logged.forEach((loggedReading) => {
+            const { readingType, readingIndex } = loggedReading
+            if (matchesLoggedReading(onChain[readingType][readingIndex], loggedReading)) {
+                logged.set(loggedReading.key, `${readingType} reading #${readingIndex}`)
+                claimed.add(`${readingType}|${readingIndex}`)
+            }
+        })
+        const unclaimed = [...production, ...consumption].filter(
+            (reading) => !claimed.has(`${reading.readingType}|${reading.index}`)
+        )
+        return { logged, unclaimed }
+    }
+
+    const handleDryRun = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!client) return
+
+        const missing = espi ? [] : REQUIRED_IMPORT_FIELDS.filter((field) => mapping[field] === null)
+        if (missing.length > 0) {
+            setErrors({
+                mapping: `Choose the column of ${missing.map((field) => IMPORT_FIELD_LABELS[field]).join(" and ")}.`,
+            })
+            return
+        }
+
+        setIsChecking(true)
+        setErrors({})
+        try {
+            const { logged, unclaimed } = await findLoggedReadings(client)
+            const fileRows = espi
+                ? aggregateEspiIntervals(espi.intervals, granularity, espiSources)
+                : readCsvRows(records, mapping, defaults, hasHeader)
+            setRows(markDuplicates(fileRows, logged, unclaimed))
+        } catch (error) {
+            console.error("Error checking import for duplicates:", error)
+            setErrors({ form: "Your logged readings couldn't be loaded to check for duplicates. Please try again." })
+        } finally {
+            setIsChecking(false)
+        }
+    }
+
+    // Readings left "sending" by a closed page are looked up at the index they were sent to
+    const reconcile = async (importRecord: ReadingImport, reader: EnergyClient): Promise<ReadingImport> => {
+        const readings = await Promise.all(
+            importRecord.readings.map(async (queued): Promise<QueuedReading> => {
+                if (queued.status !== "sending" || queued.readingIndex === null) return queued
+                const count = await reader.getReadingsCount(account, queued.readingType)
+                const isLogged =
+                    queued.readingIndex < count &&
+                    matchesLoggedReading(
+                        await reader.getReading(account, queued.readingType, queued.readingIndex),
+                        toMeterReading(queued)
+                    )
+                const status = isLogged ? "logged" : "pending"
+                queue.update(importRecord.id, queued.key, { status })
+                return { ...queued, status }
+            })
+        )
+        return { ...importRecord, readings }
+    }
+
+    // The import is saved, and onApproved called, as its first reading is about to be signed
+    const sendQueued = async (
+        importRecord: ReadingImport,
+        signingClient: EnergyClient,
+        confirmation: Pick<TransactionConfirmation, "label" | "summary">,
+        onApproved?: () => void
+    ) => {
+        const unlogged = importRecord.readings.filter((queued) => queued.status !== "logged")
+        let loggedCount = 0
+        let failures = 0
+        let isPaused = false
+        try {
+            // Sequential, so the wallet prompts one at a time; a failed reading stays queued for a retry, and a
+            // rejected prompt pauses the import like the Pause button does
+            const { approved, stoppedBy } = await sendTransactionBatch(unlogged, {
+                confirmation,
+                transaction: (queued) => ({
+                    label: `Log ${queued.readingType}`,
+                    call:
+                        queued.readingType === "production"
+                            ? signingClient.logProduction(queued.amount, queued.source, queued.carbonOffset)
+                            : signingClient.logConsumption(queued.amount, queued.source),
+                    summary: `Log ${queued.amount} kWh of ${queued.source} ${queued.readingType} metered ${formatDateTime(new Date(queued.timestamp))}`,
+                }),
+                beforeSend: async (queued) => {
+                    if (queued === unlogged[0]) {
+                        onApproved?.()
+                        setIsSending(true)
+                    }
+                    const readingIndex = await signingClient.getReadingsCount(account, queued.readingType)
+                    queue.update(importRecord.id, queued.key, { status: "sending", readingIndex })
+                },
+                afterSend: (queued, outcome) => {
+                    if (outcome.status === "confirmed") {
+                        queue.update(importRecord.id, queued.key, {
+                            status: "logged",
+                            txHash: outcome.receipt.transactionHash,
+                        })
+                        loggedCount++
+                    } else if (outcome.status === "failed") {
+                        queue.update(importRecord.id, queued.key, { status: "failed" })
+                        failures++
+                    } else {
+                        // Nothing was sent, so the reading goes back to how it was queued
+                        queue.update(importRecord.id, queued.key, { status: queued.status })
+                    }
+                },
+            })
+            if (!approved) return
+            isPaused = stoppedBy !== null
+        } catch (error) {
+            console.error("Error sending imported readings:", error)
+            failures++
+        } finally {
+            setIsSending(false)
+        }
+
+        const message =
+            `Logged ${loggedCount} reading${loggedCount === 1 ? "" : "s"}` +
+            (failures > 0 ? `; ${failures} failed and can be retried` : "") +
+            (isPaused ? "; the import is paused" : "")
+        notify(message, failures > 0 ? "error" : "success")
+        if (loggedCount > 0) onLogged()
+    }
+
+    const handleStart = async () => {
+        if (!rows) return
+        const summary = summarizeImport(rows)
+        if (summary.ready === 0) return
+
+        const signingClient = await requireWallet()
+        if (!signingClient) return
+
+        const importRecord = queue.prepare(fileName, rows)
+        await sendQueued(
+            importRecord,
+            signingClient,
+            {
+                label: `Import ${summary.ready} readings`,
+                summary:
+                    `Sign ${summary.ready} transactions, one after another, logging ${summary.consumptionAmount} kWh of ` +
+                    `consumption and ${summary.productionAmount} kWh of production in ${userRegion}. ` +
+                    "The import can be paused and resumed, also after leaving the page.",
+            },
+            () => {
+                queue.start(importRecord)
+                resetFile()
+            }
+        )
+    }
+
+    const handleResume = async () => {
+        const importRecord = queue.active
+        if (!importRecord) return
+
+        const signingClient = await requireWallet()
+        if (!signingClient) return
+
+        try {
+            const reconciled = await reconcile(importRecord, signingClient)
+            const remaining = reconciled.readings.filter((queued) => queued.status !== "logged").length
+            if (remaining === 0) return
+            await sendQueued(reconciled, signingClient, {
+                label: "Resume import",
+                summary: `Sign up to ${remaining} more transactions, one after another, for the rest of ${importRecord.fileName}.`,
+            })
+        } catch (error) {
+            console.error("Error resuming import:", error)
+            notify("The import couldn't be resumed. Please try again.", "error")
+        }
+    }
+
+    const inputClasses = "w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+
+    const activeImport = queue.active
+    if (activeImport) {
+        const { readings } = activeImport
+        const loggedCount = readings.filter((queued) => queued.status === "logged").length
+        const failedCount = readings.filter((queued) => queued.status === "failed").length
+        const percent = Math.round((loggedCount / readings.length) * 100)
+
+        return (
+            <div className="mb-6 p-4 border border-gray-200 rounded-lg">
+                <h3 className="text-lg font-semibold mb-2 text-gray-800">Importing {activeImport.fileName}</h3>
+                <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+                    <div className="bg-green-600 h-2 rounded-full" style={{ width: `${percent}%` }} />
+                </div>
+                <p className="text-sm text-gray-700 mb-3">
+                    {loggedCount} of {readings.length} readings logged
+                    {failedCount > 0 && `, ${failedCount} failed`}.{" "}
+                    {!isSending && "The rest is saved in this browser until you resume or discard it."}
+                </p>
+                {isSending ? (
+                    <button
+                        type="button"
+                        onClick={stopBatch}
+                        className="w-full bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors">
+                        Pause after this reading
+                    </button>
+                ) : (
+                    <div className="flex gap-2">
+                        <button
+                            type="button"
+                            onClick={handleResume}
+                            className="flex-1 bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors">
+                            {failedCount === readings.length - loggedCount ? "Retry Failed Readings" : "Resume Import"}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => queue.discard(activeImport.id)}
+                            className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors">
+                            Discard the Rest
+                        </button>
+                    </div>
+                )}
+            </div>
+        )
+    }
+
+    const columnCount = records.slice(0, 50).reduce((max, record) => Math.max(max, record.length), 0)
+    const columnLabel = (index: number) =>
+        hasHeader && records[0]?.[index]?.trim() ? records[0][index].trim() : `Column ${index + 1}`
+    const summary = rows ? summarizeImport(rows) : null
+    const problemRows = rows ? rows.filter((row) => row.status !== "ready") : []
+
+    return (
+        <div className="mb-6 p-4 border border-gray-200 rounded-lg">
+            <h3 className="text-lg font-semibold mb-2 text-gray-800">Import Readings</h3>
+            <p className="text-sm text-gray-700 mb-3">
+                Upload a CSV of timestamp, type, amount, source and carbon offset, or a Green Button (ESPI) XML export
+                from your utility. Each reading is logged in its own transaction; the metered time is only used to spot
+                duplicates, as readings are dated by their block. Production must come from one of the sources
+                certificates are issued for: {ENERGY_SOURCES.join(", ")}.{" "}
+                <a
+                    href={`data:text/csv;charset=utf-8,${encodeURIComponent(CSV_TEMPLATE)}`}
+                    download="readings-template.csv"
+                    className="text-green-600 hover:text-green-800">
+                    Download a CSV template
+                </a>
+            </p>
+            <p className="text-sm text-gray-700 mb-3">
+                Sample Green Button files:{" "}
+                {ESPI_SAMPLES.map((sample, index) => (
+                    <span key={sample.file}>
+                        {index > 0 && ", "}
+                        <a href={`/samples/${sample.file}`} download className="text-green-600 hover:text-green-800">
+                            {sample.label}
+                        </a>
+                    </span>
+                ))}
+            </p>
+
+            <input
+                aria-label="Readings file"
+                type="file"
+                accept="text/csv,.csv,application/xml,text/xml,.xml"
+                onChange={handleFile}
+                className="text-sm text-gray-700 mb-2"
+            />
+            <FieldError message={errors.file} />
+
+            {(espi || records.length > 0) && !rows && (
+                <form onSubmit={handleDryRun} className="mt-3 space-y-3 text-sm">
+                    {espi ? (
+                        <>
+                            <p className="text-gray-700">
+                                {espi.intervals.length} interval readings, metered{" "}
+                                {formatDateTime(espi.intervals.reduce((a, b) => (a.start < b.start ? a : b)).start)} to{" "}
+                                {formatDateTime(espi.intervals.reduce((a, b) => (a.start > b.start ? a : b)).start)}.
+                                {espi.skippedReadings > 0 &&
+                                    ` ${espi.skippedReadings} readings that aren't delivered or received energy are left out.`}
+                            </p>
+                            <div>
+                                <label htmlFor="espi-granularity" className="block text-gray-700 mb-1">
+                                    Log one reading per
+                                </label>
+                                <select
+                                    id="espi-granularity"
+                                    value={granularity}
+                                    onChange={(e) => setGranularity(e.target.value as EspiGranularity)}
+                                    className={inputClasses}>
+                                    {(Object.keys(ESPI_GRANULARITY_LABELS) as EspiGranularity[]).map((key) => (
+                                        <option key={key} value={key}>
+                                            {ESPI_GRANULARITY_LABELS[key]}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                {(["consumption", "production"] as ReadingType[])
+                                    .filter((readingType) =>
+                                        espi.intervals.some((interval) => interval.readingType === readingType)
+                                    )
+                                    .map((readingType) => (
+                                        <div key={readingType}>
+                                            <label
+                                                htmlFor={`espi-source-${readingType}`}
+                                                className="block text-gray-700 mb-1">
+                                                Source of {readingType}
+                                            </label>
+                                            {readingType === "production" ? (
+                                                <select
+                                                    id={`espi-source-${readingType}`}
+                                                    value={espiSources.production}
+                                                    onChange={(e) =>
+                                                        setEspiSources({ ...espiSources, production: e.target.value })
+                                                    }
+                                                    className={inputClasses}>
+                                                    {ENERGY_SOURCES.map((source) => (
+                                                        <option key={source} value={source}>
+                                                            {ENERGY_SOURCE_LABELS[source]}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                            ) : (
+                                                <input
+                                                    id={`espi-source-${readingType}`}
+                                                    type="text"
+                                                    value={espiSources.consumption}
+                                                    onChange={(e) =>
+                                                        setEspiSources({ ...espiSources, consumption: e.target.value })
+                                                    }
+                                                    className={inputClasses}
+                                                    required
+                                                />
+                                            )}
+                                        </div>
+                                    ))}
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            <label className="flex items-center gap-2 text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={hasHeader}
+                                    onChange={(e) => setHasHeader(e.target.checked)}
+                                />
+                                The first row is a header
+                            </label>
+
+                            <div className="grid grid-cols-2 gap-2">
+                                {IMPORT_FIELDS.map((field) => (
+                                    <div key={field}>
+                                        <label htmlFor={`import-${field}`} className="block text-gray-700 mb-1">
+                                            {IMPORT_FIELD_LABELS[field]}
+                                        </label>
+                                        <select
+                                            id={`import-${field}`}
+                                            value={mapping[field] ?? ""}
+                                            onChange={(e) =>
+                                                setMapping({
+                                                    ...mapping,
+                                                    [field]: e.target.value === "" ? null : Number(e.target.value),
+                                                })
+                                            }
+                                            className={inputClasses}>
+                                            <option value="">
+                                                {REQUIRED_IMPORT_FIELDS.includes(field)
+                                                    ? "Choose a column"
+                                                    : "Not in file"}
+                                            </option>
+                                            {Array.from({ length: columnCount }, (_, index) => (
+                                                <option key={index} value={index}>
+                                                    {columnLabel(index)}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                ))}
+                            </div>
+                            <FieldError message={errors.mapping} />
+
+                            {(mapping.readingType === null ||
+                                mapping.source === null ||
+                                mapping.carbonOffset === null) && (
+                                <div className="p-3 bg-gray-50 rounded-md space-y-2">
+                                    <div className="text-gray-700">For columns that aren&apos;t in the file, use:</div>
+                                    {mapping.readingType === null && (
+                                        <select
+                                            aria-label="Default type"
+                                            value={defaults.readingType}
+                                            onChange={(e) =>
+                                                setDefaults({ ...defaults, readingType: e.target.value as ReadingType })
+                                            }
+                                            className={inputClasses}>
+                                            <option value="consumption">Consumption</option>
+                                            <option value="production">Production</option>
+                                        </select>
+                                    )}
+                                    {mapping.source === null &&
+                                        (mapping.readingType === null
+                                            ? [defaults.readingType]
+                                            : (["consumption", "production"] as ReadingType[])
+                                        ).map((readingType) =>
+                                            readingType === "production" ? (
+                                                <select
+                                                    key={readingType}
+                                                    aria-label="Default source of production"
+                                                    value={defaults.sources.production}
+                                                    onChange={(e) =>
+                                                        setDefaults({
+                                                            ...defaults,
+                                                            sources: {
+                                                                ...defaults.sources,
+                                                                production: e.target.value,
+                                                            },
+                                                        })
+                                                    }
+                                                    className={inputClasses}>
+                                                    {ENERGY_SOURCES.map((source) => (
+                                                        <option key={source} value={source}>
+                                                            {ENERGY_SOURCE_LABELS[source]}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                            ) : (
+                                                <input
+                                                    key={readingType}
+                                                    aria-label="Default source of consumption"
+                                                    type="text"
+                                                    value={defaults.sources.consumption}
+                                                    onChange={(e) =>
+                                                        setDefaults({
+                                                            ...defaults,
+                                                            sources: {
+                                                                ...defaults.sources,
+                                                                consumption: e.target.value,
+                                                            },
+                                                        })
+                                                    }
+                                                    className={inputClasses}
+                                                    placeholder="Source of consumption, e.g. household"
+                                                    required
+                                                />
+                                            )
+                                        )}
+                                    {mapping.carbonOffset === null && (
+                                        <input
+                                            aria-label="Default carbon offset"
+                                            type="number"
+                                            min="0"
+                                            value={defaults.carbonOffset}
+                                            onChange={(e) =>
+                                                setDefaults({ ...defaults, carbonOffset: Number(e.target.value) })
+                                            }
+                                            className={inputClasses}
+                                            placeholder="kg CO2 per production reading"
+                                        />
+                                    )}
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    <FieldError message={errors.form} />
+                    <div className="flex gap-2">
+                        <button
+                            type="submit"
+                            disabled={isChecking}
+                            className="flex-1 bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400">
+                            {isChecking ? "Checking..." : "Dry Run"}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={resetFile}
+                            className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors">
+                            Cancel
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {summary && (
+                <div className="mt-3 text-sm">
+                    <div className="grid grid-cols-3 gap-2 mb-3">
+                        <div className="p-2 bg-green-50 rounded">
+                            <div className="text-gray-500">To log</div>
+                            <div className="font-medium text-gray-900">{summary.ready}</div>
+                        </div>
+                        <div className="p-2 bg-gray-50 rounded">
+                            <div className="text-gray-500">Duplicates</div>
+                            <div className="font-medium text-gray-900">{summary.duplicate}</div>
+                        </div>
+                        <div className="p-2 bg-gray-50 rounded">
+                            <div className="text-gray-500">Invalid</div>
+                            <div className="font-medium text-gray-900">{summary.invalid}</div>
+                        </div>
+                    </div>
+                    <p className="text-gray-500 mb-3">
+                        Readings logged by imports from this browser are recognised exactly. Your other readings on
+                        chain don&apos;t record when they were metered, so they are matched by amount and source only:
+                        one logged with a different amount or source isn&apos;t caught, and a new reading identical to
+                        an older one is skipped as its duplicate.
+                    </p>
+                    {summary.ready > 0 && (
+                        <p className="text-gray-700 mb-3">
+                            {summary.consumptionAmount} kWh of consumption and {summary.productionAmount} kWh of
+                            production, metered {summary.first && formatDateTime(summary.first)} to{" "}
+                            {summary.last && formatDateTime(summary.last)}, in {summary.ready} transaction
+                            {summary.ready === 1 ? "" : "s"}.
+                        </p>
+                    )}
+
+                    {problemRows.length > 0 && (
+                        <table className="min-w-full mb-3">
+                            <thead>
+                                <tr className="border-b border-gray-200">
+                                    <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        Line
+                                    </th>
+                                    <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        Skipped Because
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {problemRows.slice(0, MAX_LISTED_ROWS).map((row) => (
+                                    <tr key={row.line} className="border-b border-gray-200">
+                                        <td className="py-2 pr-2 align-top">{row.line}</td>
+                                        <td className={row.status === "invalid" ? "py-2 text-red-700" : "py-2"}>
+                                            {row.reason}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                    {problemRows.length > MAX_LISTED_ROWS && (
+                        <p className="text-gray-500 mb-3">
+                            and {problemRows.length - MAX_LISTED_ROWS} more skipped rows.
+                        </p>
+                    )}
+
+                    <div className="flex gap-2">
+                        <button
+                            type="button"
+                            onClick={handleStart}
+                            disabled={summary.ready === 0}
+                            className="flex-1 bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400">
+                            Log {summary.ready} Reading{summary.ready === 1 ? "" : "s"}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setRows(null)}
+                            className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors">
+                            {espi ? "Back to Options" : "Back to Mapping"}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
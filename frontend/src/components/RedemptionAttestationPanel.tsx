@@ -0,0 +1,165 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { ethers } from "ethers"
+import { useContract } from "../contexts/ContractContext"
+import {
+    Certificate,
+    SignedRedemptionAttestation,
+    buildRedemptionAttestation,
+    downloadFile,
+    escapeHtml,
+    signRedemptionAttestation,
+} from "../sdk"
+import FieldError from "./FieldError"
+
+interface RedemptionAttestationPanelProps {
+    certificate: Certificate
+}
+
+// A standalone document for printing or saving as PDF, with the signed JSON embedded for re-verification
+const renderPrintable = (signed: SignedRedemptionAttestation, verifyUrl: string) => {
+    const { attestation } = signed
+    const rows: [string, string][] = [
+        ["Certificate", `#${attestation.certificateId}`],
+        ["Energy", `${attestation.energyAmount} kWh ${attestation.energySource}`],
+        ["Location", attestation.location],
+        ["Issued", attestation.issuanceDate],
+        ["Redeemed by", attestation.redeemer],
+        ["Redeemed at", attestation.redeemedAt],
+        ["Transaction", attestation.txHash],
+        ["Block", String(attestation.blockNumber)],
+        ["Chain ID", String(attestation.chainId)],
+        ["Certificate contract", attestation.certificateContract],
+        ["Signature (EIP-712)", signed.signature],
+    ]
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Redemption attestation, certificate #${attestation.certificateId}</title>
+<style>
+body { font-family: sans-serif; max-width: 720px; margin: 40px auto; color: #111827; }
+table { border-collapse: collapse; width: 100%; margin: 24px 0; }
+td { border-bottom: 1px solid #e5e7eb; padding: 6px 8px; vertical-align: top; word-break: break-all; }
+td:first-child { color: #4b5563; white-space: nowrap; word-break: normal; }
+pre { background: #f3f4f6; padding: 12px; font-size: 11px; white-space: pre-wrap; word-break: break-all; }
+</style>
+</head>
+<body>
+<h1>Renewable Energy Certificate Redemption</h1>
+<p>The holder below redeemed this certificate on chain and signed this statement with the same wallet.</p>
+<table>
+${rows.map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`).join("\n")}
+</table>
+<p>To verify, paste the JSON below into ${escapeHtml(verifyUrl)}</p>
+<pre>${escapeHtml(JSON.stringify(signed, null, 2))}</pre>
+</body>
+</html>`
+}
+
+// Signed receipt of a redemption that the holder can hand to an auditor
+export default function RedemptionAttestationPanel({ certificate }: RedemptionAttestationPanelProps) {
+    const { client, chainId, requireWallet } = useContract()
+    const [signed, setSigned] = useState<SignedRedemptionAttestation | null>(null)
+    const [isSigning, setIsSigning] = useState<boolean>(false)
+    const [errors, setErrors] = useState<Record<string, string>>({})
+
+    const handleSign = async () => {
+        if (!client) return
+
+        const signingClient = await requireWallet()
+        if (!signingClient) return
+
+        setIsSigning(true)
+        setErrors({})
+        try {
+            const redemption = await client.getCertificateRedemption(certificate.id)
+            if (!redemption) {
+                setErrors({ form: "The redemption of this certificate hasn't been found on chain yet." })
+                return
+            }
+            const attestation = buildRedemptionAttestation(
+                certificate,
+                redemption,
+                Number(chainId),
+                signingClient.renewableCertificate.address
+            )
+            // The wallet client is built on the Web3Provider's JsonRpcSigner, which can sign typed data
+            const signer = signingClient.renewableCertificate.signer as ethers.providers.JsonRpcSigner
+            setSigned(await signRedemptionAttestation(signer, attestation))
+        } catch (error) {
+            console.error("Error signing redemption attestation:", error)
+            setErrors({ form: "The attestation wasn't signed." })
+        } finally {
+            setIsSigning(false)
+        }
+    }
+
+    const handleDownload = () => {
+        if (!signed) return
+        downloadFile(
+            `redemption-certificate-${signed.attestation.certificateId}.json`,
+            JSON.stringify(signed, null, 2),
+            "application/json"
+        )
+    }
+
+    const handlePrint = () => {
+        if (!signed) return
+        const printWindow = window.open("", "_blank")
+        if (!printWindow) return
+        printWindow.document.write(renderPrintable(signed, `${window.location.origin}/attestations/verify`))
+        printWindow.document.close()
+        printWindow.print()
+    }
+
+    return (
+        <div className="border-t pt-4">
+            <h4 className="font-medium mb-2 text-gray-800">Redemption Attestation</h4>
+            {!signed ? (
+                <>
+                    <p className="text-sm text-gray-700 mb-2">
+                        Sign a statement of this redemption with your wallet, to hand to an auditor with the transaction
+                        it refers to.
+                    </p>
+                    <FieldError message={errors.form} />
+                    <button
+                        onClick={handleSign}
+                        disabled={isSigning}
+                        className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400">
+                        {isSigning ? "Waiting for signature..." : "Create Signed Attestation"}
+                    </button>
+                </>
+            ) : (
+                <>
+                    <p className="text-sm text-gray-700 mb-2">
+                        Signed by {signed.attestation.redeemer} for redemption transaction{" "}
+                        <span title={signed.attestation.txHash}>
+                            {signed.attestation.txHash.slice(0, 10)}...{signed.attestation.txHash.slice(-6)}
+                        </span>{" "}
+                        in block {signed.attestation.blockNumber}.
+                    </p>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleDownload}
+                            className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors">
+                            Download JSON
+                        </button>
+                        <button
+                            onClick={handlePrint}
+                            className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors">
+                            Print / PDF
+                        </button>
+                    </div>
+                    <Link
+                        href="/attestations/verify"
+                        className="inline-block mt-2 text-sm text-blue-600 hover:text-blue-800">
+                        Open the verification page &rarr;
+                    </Link>
+                </>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,369 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { useContract } from "../contexts/ContractContext"
+import {
+    MarketMetrics,
+    PERIOD_LABELS,
+    Period,
+    RegionMarketMetrics,
+    RegionMetrics,
+    RegionReading,
+    TradeHistoryEntry,
+    formatEth,
+    formatPeriod,
+    periodRange,
+    sumByPeriod,
+} from "../sdk"
+import LineChart, { ChartSeries } from "./LineChart"
+
+// One color per compared region, in the order they were added
+const REGION_COLORS = ["#16a34a", "#2563eb", "#ea580c", "#9333ea", "#0891b2", "#db2777"]
+
+const MAX_COMPARED_REGIONS = REGION_COLORS.length
+
+type ChartMetric = "production" | "consumption" | "net" | "volume" | "price"
+
+const CHART_METRICS: Record<ChartMetric, { label: string; unit: string }> = {
+    production: { label: "Production", unit: "kWh" },
+    consumption: { label: "Consumption", unit: "kWh" },
+    net: { label: "Net surplus / deficit", unit: "kWh" },
+    volume: { label: "Traded volume", unit: "kWh" },
+    price: { label: "Average price", unit: "ETH/kWh" },
+}
+
+interface RegionSnapshot {
+    grid: RegionMetrics
+    market: RegionMarketMetrics
+}
+
+const formatSelfSufficiency = (grid: RegionMetrics) =>
+    grid.totalConsumption > 0 ? `${Math.round((grid.totalProduction / grid.totalConsumption) * 100)}%` : "—"
+
+// Current grid and market totals of several regions side by side, with their history charted from contract events
+export default function RegionDashboard() {
+    const { client, userRegion } = useContract()
+    const [regions, setRegions] = useState<string[]>([])
+    const [regionInput, setRegionInput] = useState<string>("")
+    const [snapshots, setSnapshots] = useState<Record<string, RegionSnapshot>>({})
+    const [marketMetrics, setMarketMetrics] = useState<MarketMetrics | null>(null)
+    const [readings, setReadings] = useState<RegionReading[]>([])
+    const [trades, setTrades] = useState<TradeHistoryEntry[]>([])
+    const [period, setPeriod] = useState<Period>("day")
+    const [metric, setMetric] = useState<ChartMetric>("production")
+    const [isLoadingHistory, setIsLoadingHistory] = useState<boolean>(false)
+
+    // Start with the user's own region
+    useEffect(() => {
+        if (userRegion) setRegions((prev) => (prev.length === 0 ? [userRegion] : prev))
+    }, [userRegion])
+
+    const fetchSnapshots = useCallback(async () => {
+        if (!client || regions.length === 0) return
+        try {
+            const results = await Promise.all(
+                regions.map(async (region) => {
+                    const [grid, market] = await Promise.all([
+                        client.getRegionMetrics(region),
+                        client.getRegionMarketMetrics(region),
+                    ])
+                    return [region, { grid, market }] as const
+                })
+            )
+            setSnapshots(Object.fromEntries(results))
+        } catch (error) {
+            console.error("Error fetching region metrics:", error)
+        }
+    }, [client, regions])
+
+    useEffect(() => {
+        fetchSnapshots()
+    }, [fetchSnapshots])
+
+    const fetchHistory = useCallback(async () => {
+        if (!client) return
+
+        setIsLoadingHistory(true)
+        try {
+            const [regionReadings, ledgerTrades, metrics] = await Promise.all([
+                client.getRegionReadings(),
+                client.getLedgerTrades(),
+                client.getMarketMetrics(),
+            ])
+            setReadings(regionReadings)
+            setTrades(ledgerTrades)
+            setMarketMetrics(metrics)
+        } catch (error) {
+            console.error("Error fetching region history:", error)
+        } finally {
+            setIsLoadingHistory(false)
+        }
+    }, [client])
+
+    useEffect(() => {
+        fetchHistory()
+    }, [fetchHistory])
+
+    // Regions that have seen any activity, offered as quick picks
+    const knownRegions = useMemo(
+        () =>
+            Array.from(new Set([...readings.map((reading) => reading.region), ...trades.map((trade) => trade.region)]))
+                .filter((region) => region && !regions.includes(region))
+                .sort(),
+        [readings, trades, regions]
+    )
+
+    const addRegion = (region: string) => {
+        const name = region.trim()
+        if (!name || regions.includes(name) || regions.length >= MAX_COMPARED_REGIONS) return
+        setRegions((prev) => [...prev, name])
+        setRegionInput("")
+    }
+
+    const removeRegion = (region: string) => {
+        setRegions((prev) => prev.filter((name) => name !== region))
+    }
+
+    const chart = useMemo(() => {
+        const dates = [
+            ...readings.filter((reading) => regions.includes(reading.region)).map((reading) => reading.timestamp),
+            ...trades.filter((trade) => regions.includes(trade.region)).map((trade) => trade.timestamp),
+        ]
+        if (dates.length === 0) return { labels: [], series: [] }
+
+        const times = dates.map((date) => date.getTime())
+        const starts = periodRange(new Date(Math.min(...times)), new Date(Math.max(...times)), period)
+
+        const series: ChartSeries[] = regions.map((region, index) => {
+            const regionReadings = readings.filter((reading) => reading.region === region)
+            const regionTrades = trades.filter((trade) => trade.region === region)
+            const sumReadings = (readingType: RegionReading["readingType"]) =>
+                sumByPeriod(
+                    regionReadings.filter((reading) => reading.readingType === readingType),
+                    starts,
+                    period,
+                    (reading) => reading.timestamp,
+                    (reading) => reading.amount
+                )
+            const volumes = sumByPeriod(
+                regionTrades,
+                starts,
+                period,
+                (trade) => trade.timestamp,
+                (trade) => trade.energyAmount
+            )
+
+            let values: number[]
+            if (metric === "production" || metric === "consumption") {
+                values = sumReadings(metric)
+            } else if (metric === "net") {
+                const consumption = sumReadings("consumption")
+                values = sumReadings("production").map((produced, i) => produced - consumption[i])
+            } else if (metric === "volume") {
+                values = volumes
+            } else {
+                // Periods without trades have no price, drawn as zero
+                const totals = sumByPeriod(
+                    regionTrades,
+                    starts,
+                    period,
+                    (trade) => trade.timestamp,
+                    (trade) => parseFloat(formatEth(trade.totalPrice))
+                )
+                values = totals.map((total, i) => (volumes[i] > 0 ? total / volumes[i] : 0))
+            }
+
+            return { name: region, color: REGION_COLORS[index], values }
+        })
+
+        return { labels: starts.map((start) => formatPeriod(start, period)), series }
+    }, [readings, trades, regions, period, metric])
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-gray-800">Regional Grid Analytics</h2>
+                <button
+                    onClick={() => {
+                        fetchSnapshots()
+                        fetchHistory()
+                    }}
+                    disabled={isLoadingHistory}
+                    className="text-sm text-green-600 hover:text-green-800">
+                    {isLoadingHistory ? "Loading..." : "Refresh"}
+                </button>
+            </div>
+
+            {marketMetrics && (
+                <div className="mb-6 grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                    <div className="p-2 bg-gray-50 rounded">
+                        <div className="text-gray-500">Platform Trades</div>
+                        <div className="font-medium text-gray-900">{marketMetrics.totalTrades}</div>
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded">
+                        <div className="text-gray-500">Platform Volume</div>
+                        <div className="font-medium text-gray-900">{marketMetrics.totalVolumeTraded} kWh</div>
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded">
+                        <div className="text-gray-500">Platform Value</div>
+                        <div className="font-medium text-gray-900">{formatEth(marketMetrics.totalValueTraded)} ETH</div>
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded">
+                        <div className="text-gray-500">Platform Average Price</div>
+                        <div className="font-medium text-gray-900">{formatEth(marketMetrics.averagePrice)} ETH/kWh</div>
+                    </div>
+                </div>
+            )}
+
+            <form
+                onSubmit={(e) => {
+                    e.preventDefault()
+                    addRegion(regionInput)
+                }}
+                className="flex gap-2 mb-2">
+                <input
+                    aria-label="Region to compare"
+                    type="text"
+                    value={regionInput}
+                    onChange={(e) => setRegionInput(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                    placeholder="Add a region to compare"
+                />
+                <button
+                    type="submit"
+                    disabled={regions.length >= MAX_COMPARED_REGIONS}
+                    className="bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400">
+                    Compare
+                </button>
+            </form>
+            {knownRegions.length > 0 && regions.length < MAX_COMPARED_REGIONS && (
+                <div className="flex flex-wrap gap-2 mb-4 text-xs">
+                    {knownRegions.map((region) => (
+                        <button
+                            key={region}
+                            onClick={() => addRegion(region)}
+                            className="px-2 py-1 bg-gray-100 text-gray-700 rounded-full hover:bg-gray-200">
+                            + {region}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {regions.length > 0 ? (
+                <div className="overflow-x-auto mb-6">
+                    <table className="min-w-full">
+                        <thead>
+                            <tr className="border-b border-gray-200">
+                                <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Region
+                                </th>
+                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Production
+                                </th>
+                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Consumption
+                                </th>
+                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Net
+                                </th>
+                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Self-Sufficiency
+                                </th>
+                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Participants
+                                </th>
+                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Traded
+                                </th>
+                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Avg Price
+                                </th>
+                                <th className="py-2" />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {regions.map((region, index) => {
+                                const snapshot = snapshots[region]
+                                const net = snapshot
+                                    ? snapshot.grid.totalProduction - snapshot.grid.totalConsumption
+                                    : 0
+                                return (
+                                    <tr key={region} className="border-b border-gray-200 text-sm">
+                                        <td className="py-2 font-medium">
+                                            <span
+                                                className="inline-block w-3 h-3 rounded-full mr-2"
+                                                style={{ backgroundColor: REGION_COLORS[index] }}
+                                            />
+                                            {region}
+                                        </td>
+                                        {snapshot ? (
+                                            <>
+                                                <td className="py-2 text-right">{snapshot.grid.totalProduction} kWh</td>
+                                                <td className="py-2 text-right">
+                                                    {snapshot.grid.totalConsumption} kWh
+                                                </td>
+                                                <td
+                                                    className={`py-2 text-right ${net >= 0 ? "text-green-700" : "text-orange-700"}`}>
+                                                    {net >= 0 ? `+${net}` : net} kWh
+                                                </td>
+                                                <td className="py-2 text-right">
+                                                    {formatSelfSufficiency(snapshot.grid)}
+                                                </td>
+                                                <td className="py-2 text-right">{snapshot.grid.participantCount}</td>
+                                                <td className="py-2 text-right">{snapshot.market.volume} kWh</td>
+                                                <td className="py-2 text-right">
+                                                    {formatEth(snapshot.market.averagePrice)} ETH
+                                                </td>
+                                            </>
+                                        ) : (
+                                            <td colSpan={7} className="py-2 text-right text-gray-500">
+                                                Loading...
+                                            </td>
+                                        )}
+                                        <td className="py-2 text-right">
+                                            <button
+                                                onClick={() => removeRegion(region)}
+                                                aria-label={`Remove ${region}`}
+                                                className="text-gray-400 hover:text-gray-600">
+                                                ×
+                                            </button>
+                                        </td>
+                                    </tr>
+                                )
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            ) : (
+                <p className="text-gray-500 mb-6">Add a region to see its grid and market figures.</p>
+            )}
+
+            <div className="grid grid-cols-2 gap-2 mb-4 text-sm">
+                <select
+                    aria-label="Chart metric"
+                    value={metric}
+                    onChange={(e) => setMetric(e.target.value as ChartMetric)}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-gray-900">
+                    {(Object.keys(CHART_METRICS) as ChartMetric[]).map((key) => (
+                        <option key={key} value={key}>
+                            {CHART_METRICS[key].label}
+                        </option>
+                    ))}
+                </select>
+                <select
+                    aria-label="Period"
+                    value={period}
+                    onChange={(e) => setPeriod(e.target.value as Period)}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-gray-900">
+                    {(Object.keys(PERIOD_LABELS) as Period[]).map((key) => (
+                        <option key={key} value={key}>
+                            {PERIOD_LABELS[key]}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <LineChart labels={chart.labels} series={chart.series} unit={CHART_METRICS[metric].unit} />
+        </div>
+    )
+}
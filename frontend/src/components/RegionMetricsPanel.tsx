@@ -0,0 +1,55 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useContract } from "../contexts/ContractContext"
+import { RegionMarketMetrics, RegionMetrics, formatEth } from "../sdk"
+
+export default function RegionMetricsPanel({ region }: { region: string }) {
+    const { client } = useContract()
+    const [gridMetrics, setGridMetrics] = useState<RegionMetrics | null>(null)
+    const [marketMetrics, setMarketMetrics] = useState<RegionMarketMetrics | null>(null)
+
+    useEffect(() => {
+        if (!client || !region) return
+
+        let cancelled = false
+        Promise.all([client.getRegionMetrics(region), client.getRegionMarketMetrics(region)])
+            .then(([grid, market]) => {
+                if (cancelled) return
+                setGridMetrics(grid)
+                setMarketMetrics(market)
+            })
+            .catch((error) => console.error("Error fetching region metrics:", error))
+
+        return () => {
+            cancelled = true
+        }
+    }, [client, region])
+
+    if (!gridMetrics || !marketMetrics) return null
+
+    return (
+        <div className="mb-6 grid grid-cols-2 md:grid-cols-3 gap-2 text-sm">
+            <div className="p-2 bg-gray-50 rounded">
+                <div className="text-gray-500">Production</div>
+                <div className="font-medium text-gray-900">{gridMetrics.totalProduction} kWh</div>
+            </div>
+            <div className="p-2 bg-gray-50 rounded">
+                <div className="text-gray-500">Consumption</div>
+                <div className="font-medium text-gray-900">{gridMetrics.totalConsumption} kWh</div>
+            </div>
+            <div className="p-2 bg-gray-50 rounded">
+                <div className="text-gray-500">Participants</div>
+                <div className="font-medium text-gray-900">{gridMetrics.participantCount}</div>
+            </div>
+            <div className="p-2 bg-gray-50 rounded">
+                <div className="text-gray-500">Traded Volume</div>
+                <div className="font-medium text-gray-900">{marketMetrics.volume} kWh</div>
+            </div>
+            <div className="p-2 bg-gray-50 rounded">
+                <div className="text-gray-500">Average Price</div>
+                <div className="font-medium text-gray-900">{formatEth(marketMetrics.averagePrice)} ETH/kWh</div>
+            </div>
+        </div>
+    )
+}
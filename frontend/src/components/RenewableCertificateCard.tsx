@@ -1,18 +1,26 @@
 "use client"
 
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { ethers } from "ethers"
 import { useContract } from "../contexts/ContractContext"
+import { Certificate, ENERGY_SOURCES, ENERGY_SOURCE_LABELS, toFieldErrors } from "../sdk"
+import CertificatePortfolio from "./CertificatePortfolio"
+import FieldError from "./FieldError"
+import RedemptionAttestationPanel from "./RedemptionAttestationPanel"
 
 export default function RenewableCertificateCard() {
     const {
-        renewableCertificate,
+        requireWallet,
         account,
-        isConnected,
+        viewAccount,
+        isWatching,
         certificateCount,
         ownedCertificates,
         refreshCertificateData,
         userRegion,
         isLoading,
+        sendTransaction,
     } = useContract()
 
     const [energyAmount, setEnergyAmount] = useState<string>("")
@@ -20,45 +28,13 @@ export default function RenewableCertificateCard() {
     const [energySource, setEnergySource] = useState<string>("solar")
     const [location, setLocation] = useState<string>("")
     const [showDetails, setShowDetails] = useState<boolean>(false)
-    const [selectedCertificate, setSelectedCertificate] = useState<any>(null)
+    const [selectedCertificate, setSelectedCertificate] = useState<Certificate | null>(null)
     const [transferAddress, setTransferAddress] = useState<string>("")
     const [mintLoading, setMintLoading] = useState<boolean>(false)
     const [transferLoading, setTransferLoading] = useState<boolean>(false)
     const [redeemLoading, setRedeemLoading] = useState<boolean>(false)
-    const [localLoading, setLocalLoading] = useState<boolean>(false)
-    const loadingTimerRef = useRef<NodeJS.Timeout | null>(null)
-
-    useEffect(() => {
-        if (isConnected) {
-            // Set a local loading state
-            setLocalLoading(true)
-
-            // Attempt to refresh data
-            refreshCertificateData()
-
-            // Set a timeout to clear loading state if it takes too long
-            loadingTimerRef.current = setTimeout(() => {
-                setLocalLoading(false)
-            }, 10000) // 10 seconds timeout
-        }
-
-        return () => {
-            if (loadingTimerRef.current) {
-                clearTimeout(loadingTimerRef.current)
-            }
-        }
-    }, [isConnected])
-
-    // Update local loading state when isLoading changes
-    useEffect(() => {
-        if (!isLoading && localLoading) {
-            setLocalLoading(false)
-            if (loadingTimerRef.current) {
-                clearTimeout(loadingTimerRef.current)
-                loadingTimerRef.current = null
-            }
-        }
-    }, [isLoading, localLoading])
+    const [mintErrors, setMintErrors] = useState<Record<string, string>>({})
+    const [transferErrors, setTransferErrors] = useState<Record<string, string>>({})
 
     useEffect(() => {
         if (userRegion) {
@@ -68,51 +44,72 @@ export default function RenewableCertificateCard() {
 
     const handleMintCertificate = async (e: React.FormEvent) => {
         e.preventDefault()
-        if (!renewableCertificate || !energyAmount || !energySource || !location) return
+        if (!energyAmount || !energySource || !location) return
+
+        const signingClient = await requireWallet()
+        if (!signingClient) return
 
         // Use current account if generator address is empty
-        const generator = generatorAddress.trim() ? generatorAddress : account
+        const generator = generatorAddress.trim() ? generatorAddress.trim() : account
+        if (!ethers.utils.isAddress(generator)) {
+            setMintErrors({ generator: "Enter a valid generator address." })
+            return
+        }
 
         setMintLoading(true)
+        setMintErrors({})
         try {
             console.log("Minting certificate to:", generator)
-            const tx = await renewableCertificate.mintCertificate(
-                generator,
-                parseInt(energyAmount),
-                energySource,
-                location
+            const receipt = await sendTransaction(
+                "Mint certificate",
+                signingClient.mintCertificate(generator, parseInt(energyAmount), energySource, location),
+                {
+                    summary: `Mint a certificate for ${energyAmount} kWh of ${energySource} energy from ${location} to ${generator}`,
+                    onRevert: (revert) => setMintErrors(toFieldErrors(revert, ["energyAmount", "energySource"])),
+                }
             )
-            await tx.wait()
+            if (!receipt) return
 
             setEnergyAmount("")
             setGeneratorAddress("")
 
             // Refresh certificate data
             await refreshCertificateData()
-
-            // Show success message
-            alert("Certificate minted successfully!")
-        } catch (error) {
-            console.error("Error minting certificate:", error)
-            alert("Failed to mint certificate. Check console for details.")
         } finally {
             setMintLoading(false)
         }
     }
 
-    const handleCertificateSelect = (certificate: any) => {
+    const handleCertificateSelect = (certificate: Certificate) => {
+        setTransferErrors({})
         setSelectedCertificate(certificate)
         setShowDetails(true)
     }
 
     const handleTransferCertificate = async (e: React.FormEvent) => {
         e.preventDefault()
-        if (!renewableCertificate || !selectedCertificate || !transferAddress) return
+        if (!selectedCertificate || !transferAddress) return
+
+        const signingClient = await requireWallet()
+        if (!signingClient) return
+
+        if (!ethers.utils.isAddress(transferAddress.trim())) {
+            setTransferErrors({ recipient: "Enter a valid recipient address." })
+            return
+        }
 
         setTransferLoading(true)
+        setTransferErrors({})
         try {
-            const tx = await renewableCertificate.transferCertificate(transferAddress, selectedCertificate.id)
-            await tx.wait()
+            const receipt = await sendTransaction(
+                "Transfer certificate",
+                signingClient.transferCertificate(transferAddress.trim(), selectedCertificate.id),
+                {
+                    summary: `Transfer certificate #${selectedCertificate.id} (${selectedCertificate.energyAmount} kWh ${selectedCertificate.energySource}) to ${transferAddress.trim()}`,
+                    onRevert: (revert) => setTransferErrors(toFieldErrors(revert, ["recipient"])),
+                }
+            )
+            if (!receipt) return
 
             setTransferAddress("")
             setShowDetails(false)
@@ -120,41 +117,43 @@ export default function RenewableCertificateCard() {
 
             // Refresh certificate data
             await refreshCertificateData()
-        } catch (error) {
-            console.error("Error transferring certificate:", error)
         } finally {
             setTransferLoading(false)
         }
     }
 
     const handleRedeemCertificate = async () => {
-        if (!renewableCertificate || !selectedCertificate) return
+        if (!selectedCertificate) return
+
+        const signingClient = await requireWallet()
+        if (!signingClient) return
 
         setRedeemLoading(true)
         try {
-            const tx = await renewableCertificate.redeemCertificate(selectedCertificate.id)
-            await tx.wait()
+            const receipt = await sendTransaction(
+                "Redeem certificate",
+                signingClient.redeemCertificate(selectedCertificate.id),
+                {
+                    summary: `Redeem certificate #${selectedCertificate.id} for ${selectedCertificate.energyAmount} kWh of ${selectedCertificate.energySource} energy. It can't be transferred afterwards.`,
+                }
+            )
+            if (!receipt) return
 
             setShowDetails(false)
             setSelectedCertificate(null)
 
             // Refresh certificate data
             await refreshCertificateData()
-        } catch (error) {
-            console.error("Error redeeming certificate:", error)
         } finally {
             setRedeemLoading(false)
         }
     }
 
-    // Use this combined loading state to prevent flicker
-    const effectivelyLoading = isLoading || localLoading
-
     return (
         <div className="bg-white p-6 rounded-lg shadow-md">
             <h2 className="text-2xl font-bold mb-4 text-blue-700">Renewable Energy Certificates</h2>
 
-            {isConnected ? (
+            {viewAccount ? (
                 <>
                     <div className="mb-6 p-4 bg-blue-50 rounded-lg">
                         <h3 className="text-lg font-semibold mb-2 text-gray-800">Your Certificates</h3>
@@ -170,123 +169,116 @@ export default function RenewableCertificateCard() {
                                 <div className="flex justify-between items-center mb-2">
                                     <h3 className="text-lg font-semibold text-gray-800">Your Certificate Portfolio</h3>
                                     <button
-                                        onClick={() => {
-                                            setLocalLoading(true)
-                                            refreshCertificateData()
-                                        }}
-                                        disabled={effectivelyLoading}
+                                        onClick={refreshCertificateData}
+                                        disabled={isLoading}
                                         className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400">
-                                        {effectivelyLoading ? "Refreshing..." : "Refresh"}
+                                        {isLoading ? "Refreshing..." : "Refresh"}
                                     </button>
                                 </div>
-                                {effectivelyLoading ? (
+                                {/* Refreshes keep the portfolio on screen, so its filters and selection survive */}
+                                {isLoading && ownedCertificates.length === 0 ? (
                                     <p className="text-center py-4 text-gray-700">Loading certificates...</p>
                                 ) : ownedCertificates.length === 0 ? (
                                     <p className="text-center py-4 text-gray-700">You don't own any certificates yet</p>
                                 ) : (
-                                    <div className="space-y-2 max-h-60 overflow-y-auto">
-                                        {ownedCertificates.map((cert, index) => (
-                                            <div
-                                                key={index}
-                                                className="p-3 border border-gray-200 rounded hover:bg-gray-50 cursor-pointer flex justify-between items-center"
-                                                onClick={() => handleCertificateSelect(cert)}>
-                                                <div>
-                                                    <span className="font-medium text-gray-900">
-                                                        {cert.energyAmount} kWh
-                                                    </span>
-                                                    <span className="text-sm text-gray-700 ml-2">
-                                                        ({cert.energySource})
-                                                    </span>
-                                                </div>
-                                                <span className="text-sm text-gray-700">{cert.issuanceDate}</span>
-                                            </div>
-                                        ))}
-                                    </div>
+                                    <CertificatePortfolio
+                                        certificates={ownedCertificates}
+                                        onSelect={handleCertificateSelect}
+                                    />
                                 )}
                             </div>
 
-                            <form onSubmit={handleMintCertificate} className="mb-4">
-                                <h3 className="text-lg font-semibold mb-2 text-gray-800">Mint New Certificate</h3>
-                                <div className="mb-4">
-                                    <label htmlFor="generator-address" className="block text-gray-800 mb-2">
-                                        Generator Address
-                                    </label>
-                                    <div className="flex gap-2">
+                            {!isWatching && (
+                                <form onSubmit={handleMintCertificate} className="mb-4">
+                                    <h3 className="text-lg font-semibold mb-2 text-gray-800">Mint New Certificate</h3>
+                                    <div className="mb-4">
+                                        <label htmlFor="generator-address" className="block text-gray-800 mb-2">
+                                            Generator Address
+                                        </label>
+                                        <div className="flex gap-2">
+                                            <input
+                                                id="generator-address"
+                                                type="text"
+                                                value={generatorAddress}
+                                                onChange={(e) => setGeneratorAddress(e.target.value)}
+                                                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+                                                placeholder="0x..."
+                                            />
+                                            <button
+                                                type="button"
+                                                onClick={() => setGeneratorAddress(account)}
+                                                className="whitespace-nowrap px-3 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300">
+                                                Use My Address
+                                            </button>
+                                        </div>
+                                        <p className="text-xs text-gray-700 mt-1">
+                                            Leave empty to use your own address
+                                        </p>
+                                        <FieldError message={mintErrors.generator} />
+                                    </div>
+
+                                    <div className="mb-4">
+                                        <label htmlFor="energy-produced" className="block text-gray-800 mb-2">
+                                            Energy Produced (kWh)
+                                        </label>
                                         <input
-                                            id="generator-address"
-                                            type="text"
-                                            value={generatorAddress}
-                                            onChange={(e) => setGeneratorAddress(e.target.value)}
-                                            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
-                                            placeholder="0x..."
+                                            id="energy-produced"
+                                            type="number"
+                                            value={energyAmount}
+                                            onChange={(e) => setEnergyAmount(e.target.value)}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+                                            placeholder="Enter amount in kWh"
+                                            required
+                                            min="100"
                                         />
-                                        <button
-                                            type="button"
-                                            onClick={() => setGeneratorAddress(account)}
-                                            className="whitespace-nowrap px-3 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300">
-                                            Use My Address
-                                        </button>
+                                        <p className="text-xs text-gray-700 mt-1">Minimum 100 kWh required</p>
+                                        <FieldError message={mintErrors.energyAmount} />
                                     </div>
-                                    <p className="text-xs text-gray-700 mt-1">Leave empty to use your own address</p>
-                                </div>
 
-                                <div className="mb-4">
-                                    <label htmlFor="energy-produced" className="block text-gray-800 mb-2">
-                                        Energy Produced (kWh)
-                                    </label>
-                                    <input
-                                        id="energy-produced"
-                                        type="number"
-                                        value={energyAmount}
-                                        onChange={(e) => setEnergyAmount(e.target.value)}
-                                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
-                                        placeholder="Enter amount in kWh"
-                                        required
-                                        min="100"
-                                    />
-                                    <p className="text-xs text-gray-700 mt-1">Minimum 100 kWh required</p>
-                                </div>
+                                    <div className="mb-4">
+                                        <label htmlFor="energy-source" className="block text-gray-800 mb-2">
+                                            Energy Source
+                                        </label>
+                                        <select
+                                            id="energy-source"
+                                            value={energySource}
+                                            onChange={(e) => setEnergySource(e.target.value)}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+                                            required>
+                                            {ENERGY_SOURCES.map((source) => (
+                                                <option key={source} value={source}>
+                                                    {ENERGY_SOURCE_LABELS[source]}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <FieldError message={mintErrors.energySource} />
+                                    </div>
 
-                                <div className="mb-4">
-                                    <label htmlFor="energy-source" className="block text-gray-800 mb-2">
-                                        Energy Source
-                                    </label>
-                                    <select
-                                        id="energy-source"
-                                        value={energySource}
-                                        onChange={(e) => setEnergySource(e.target.value)}
-                                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
-                                        required>
-                                        <option value="solar">Solar</option>
-                                        <option value="wind">Wind</option>
-                                        <option value="hydro">Hydro</option>
-                                        <option value="biomass">Biomass</option>
-                                        <option value="geothermal">Geothermal</option>
-                                    </select>
-                                </div>
+                                    <div className="mb-4">
+                                        <label htmlFor="location" className="block text-gray-800 mb-2">
+                                            Location
+                                        </label>
+                                        <input
+                                            id="location"
+                                            type="text"
+                                            value={location}
+                                            onChange={(e) => setLocation(e.target.value)}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+                                            placeholder="Enter location (e.g., California)"
+                                            required
+                                        />
+                                    </div>
 
-                                <div className="mb-4">
-                                    <label htmlFor="location" className="block text-gray-800 mb-2">
-                                        Location
-                                    </label>
-                                    <input
-                                        id="location"
-                                        type="text"
-                                        value={location}
-                                        onChange={(e) => setLocation(e.target.value)}
-                                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
-                                        placeholder="Enter location (e.g., California)"
-                                        required
-                                    />
-                                </div>
+                                    <FieldError message={mintErrors.form} />
 
-                                <button
-                                    type="submit"
-                                    disabled={mintLoading}
-                                    className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400">
-                                    {mintLoading ? "Minting..." : "Mint Certificate"}
-                                </button>
-                            </form>
+                                    <button
+                                        type="submit"
+                                        disabled={mintLoading}
+                                        className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400">
+                                        {mintLoading ? "Minting..." : "Mint Certificate"}
+                                    </button>
+                                </form>
+                            )}
                         </>
                     ) : (
                         <div className="mb-6">
@@ -327,7 +319,7 @@ export default function RenewableCertificateCard() {
 
                                             <div className="text-gray-700">Issuance Date:</div>
                                             <div className="font-medium text-gray-900">
-                                                {selectedCertificate.issuanceDate}
+                                                {selectedCertificate.issuanceDate.toLocaleDateString()}
                                             </div>
 
                                             <div className="text-gray-700">Status:</div>
@@ -335,9 +327,23 @@ export default function RenewableCertificateCard() {
                                                 {selectedCertificate.isValid ? "Valid" : "Redeemed"}
                                             </div>
                                         </div>
+                                        <Link
+                                            href={`/certificates/${selectedCertificate.id}`}
+                                            className="inline-block mt-3 text-sm text-blue-600 hover:text-blue-800">
+                                            View provenance &rarr;
+                                        </Link>
                                     </div>
 
-                                    {selectedCertificate.isValid && (
+                                    {!selectedCertificate.isValid &&
+                                        !isWatching &&
+                                        selectedCertificate.owner.toLowerCase() === account.toLowerCase() && (
+                                            <RedemptionAttestationPanel
+                                                key={selectedCertificate.id}
+                                                certificate={selectedCertificate}
+                                            />
+                                        )}
+
+                                    {selectedCertificate.isValid && !isWatching && (
                                         <>
                                             <form onSubmit={handleTransferCertificate} className="space-y-4">
                                                 <div>
@@ -355,8 +361,11 @@ export default function RenewableCertificateCard() {
                                                         placeholder="0x..."
                                                         required
                                                     />
+                                                    <FieldError message={transferErrors.recipient} />
                                                 </div>
 
+                                                <FieldError message={transferErrors.form} />
+
                                                 <button
                                                     type="submit"
                                                     disabled={transferLoading}
@@ -0,0 +1,277 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { ethers } from "ethers"
+import { useContract } from "../contexts/ContractContext"
+import { FillPlan, Offer, formatEth, parseEth, planFills } from "../sdk"
+import FieldError from "./FieldError"
+
+// "skipped" fills weren't sent, because the plan stopped at a prompt the user rejected
+type FillStatus = "pending" | "buying" | "bought" | "failed" | "skipped"
+
+interface SmartBuyProps {
+    offers: Offer[]
+    // Platform fee in basis points, null until it has been read
+    platformFeeRate: number | null
+}
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+const STATUS_CLASSES: Record<FillStatus, string> = {
+    pending: "text-gray-500",
+    buying: "text-blue-600",
+    bought: "text-green-600",
+    failed: "text-red-600",
+    skipped: "text-amber-700",
+}
+
+// Buys a target amount across the cheapest offers below a price limit, one acceptOffer call after another
+export default function SmartBuy({ offers, platformFeeRate }: SmartBuyProps) {
+    const { account, requireWallet, sendTransactionBatch, refreshCertificateData, notify, chainNow } = useContract()
+    const [targetAmount, setTargetAmount] = useState<string>("")
+    const [maxPrice, setMaxPrice] = useState<string>("")
+    const [errors, setErrors] = useState<Record<string, string>>({})
+    // The plan being (or last) executed, frozen so live offer updates don't shift it mid-way
+    const [executedPlan, setExecutedPlan] = useState<FillPlan | null>(null)
+    const [statuses, setStatuses] = useState<Record<number, FillStatus>>({})
+    const [isBuying, setIsBuying] = useState<boolean>(false)
+
+    const plan = useMemo(() => {
+        const target = parseInt(targetAmount)
+        if (isNaN(target) || target <= 0 || !maxPrice || platformFeeRate === null) return null
+
+        let maxPricePerUnit: ethers.BigNumber
+        try {
+            maxPricePerUnit = parseEth(maxPrice)
+        } catch {
+            return null
+        }
+        return planFills(offers, target, maxPricePerUnit, platformFeeRate, account, chainNow())
+    }, [offers, targetAmount, maxPrice, platformFeeRate, account, chainNow])
+
+    const shownPlan = executedPlan ?? plan
+
+    const validate = () => {
+        const fieldErrors: Record<string, string> = {}
+        const target = parseInt(targetAmount)
+        if (isNaN(target) || target <= 0) fieldErrors.targetAmount = "Enter the kWh you want to buy"
+        try {
+            if (parseEth(maxPrice).lte(0)) fieldErrors.maxPrice = "The price limit must be above zero"
+        } catch {
+            fieldErrors.maxPrice = "Enter a price in ETH, e.g. 0.01"
+        }
+        if (!fieldErrors.targetAmount && !fieldErrors.maxPrice && plan?.fills.length === 0) {
+            fieldErrors.form = "No offer can fill any of this amount within the price limit"
+        }
+        return fieldErrors
+    }
+
+    const handleBuy = async (e: React.FormEvent) => {
+        e.preventDefault()
+        const fieldErrors = validate()
+        setErrors(fieldErrors)
+        if (Object.keys(fieldErrors).length > 0 || !plan) return
+
+        const signingClient = await requireWallet()
+        if (!signingClient) return
+
+        const count = plan.fills.length
+        // The plan is frozen once approved, i.e. as its first purchase is about to be signed
+        const startExecution = () => {
+            setExecutedPlan(plan)
+            setStatuses(Object.fromEntries(plan.fills.map((fill) => [fill.offer.id, "pending" as FillStatus])))
+            setIsBuying(true)
+        }
+
+        const result = await sendTransactionBatch(plan.fills, {
+            confirmation: {
+                label: `Buy ${plan.energyAmount} kWh`,
+                summary:
+                    `Sign ${count} purchase${count === 1 ? "" : "s"}, one after another, paying ${formatEth(plan.cost)} ETH ` +
+                    `for ${plan.energyAmount} kWh (incl. ${formatEth(plan.fee)} ETH platform fee)` +
+                    (plan.shortfall > 0 ? `. ${plan.shortfall} kWh of the target can't be filled.` : ""),
+            },
+            transaction: (fill) => ({
+                label: "Buy energy",
+                call: signingClient.acceptOffer(fill.offer.id, fill.energyAmount, fill.cost),
+                summary: `Pay ${formatEth(fill.cost)} ETH for ${fill.energyAmount} kWh from offer #${fill.offer.id}`,
+            }),
+            beforeSend: (fill) => {
+                if (fill === plan.fills[0]) startExecution()
+                setStatuses((prev) => ({ ...prev, [fill.offer.id]: "buying" }))
+            },
+            afterSend: (fill, outcome) => {
+                const status: FillStatus =
+                    outcome.status === "confirmed" ? "bought" : outcome.status === "failed" ? "failed" : "skipped"
+                setStatuses((prev) => ({ ...prev, [fill.offer.id]: status }))
+            },
+        })
+        setIsBuying(false)
+        if (!result.approved) return
+
+        // Fills after a rejected prompt were never sent, so they aren't counted against the offers
+        const { confirmed, failed, skipped } = result
+        setStatuses((prev) => ({
+            ...prev,
+            ...Object.fromEntries(skipped.map((fill) => [fill.offer.id, "skipped" as FillStatus])),
+        }))
+        const boughtAmount = confirmed.reduce((sum, fill) => sum + fill.energyAmount, 0)
+        if (confirmed.length === count) {
+            notify(`Bought ${boughtAmount} kWh across ${count} offer${count === 1 ? "" : "s"}`, "success")
+        } else {
+            const problems = [
+                failed.length > 0 ? `${failed.length} of ${count} purchases failed` : "",
+                skipped.length > 0 ? `${skipped.length} skipped after a rejected prompt` : "",
+            ].filter(Boolean)
+            notify(`Bought ${boughtAmount} of ${plan.energyAmount} kWh; ${problems.join(", ")}`, "error")
+        }
+        await refreshCertificateData()
+    }
+
+    // Changing the inputs starts a new plan
+    const resetExecution = () => {
+        if (isBuying) return
+        setExecutedPlan(null)
+        setStatuses({})
+    }
+
+    const inputClasses = "w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+    const boughtCount = Object.values(statuses).filter((status) => status === "bought").length
+    const doneCount = Object.values(statuses).filter(
+        (status) => status === "bought" || status === "failed" || status === "skipped"
+    ).length
+
+    return (
+        <div className="mb-6 p-4 border border-gray-200 rounded-lg">
+            <h3 className="text-lg font-semibold mb-1 text-gray-800">Smart Buy</h3>
+            <p className="text-sm text-gray-700 mb-3">
+                Fill an amount from the cheapest listed offers, respecting each offer&apos;s minimum purchase.
+            </p>
+
+            <form onSubmit={handleBuy} className="space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <label htmlFor="smart-buy-amount" className="block text-sm text-gray-800 mb-1">
+                            Amount (kWh)
+                        </label>
+                        <input
+                            id="smart-buy-amount"
+                            type="number"
+                            min="1"
+                            value={targetAmount}
+                            onChange={(e) => {
+                                setTargetAmount(e.target.value)
+                                resetExecution()
+                            }}
+                            className={inputClasses}
+                            placeholder="e.g., 500"
+                        />
+                        <FieldError message={errors.targetAmount} />
+                    </div>
+                    <div>
+                        <label htmlFor="smart-buy-price" className="block text-sm text-gray-800 mb-1">
+                            Max price (ETH/kWh)
+                        </label>
+                        <input
+                            id="smart-buy-price"
+                            type="text"
+                            inputMode="decimal"
+                            value={maxPrice}
+                            onChange={(e) => {
+                                setMaxPrice(e.target.value)
+                                resetExecution()
+                            }}
+                            className={inputClasses}
+                            placeholder="e.g., 0.01"
+                        />
+                        <FieldError message={errors.maxPrice} />
+                    </div>
+                </div>
+
+                {shownPlan && shownPlan.fills.length > 0 && (
+                    <div className="text-sm">
+                        <table className="min-w-full mb-2">
+                            <thead>
+                                <tr className="border-b border-gray-200">
+                                    <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        Offer
+                                    </th>
+                                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        kWh
+                                    </th>
+                                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        Price
+                                    </th>
+                                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        Cost
+                                    </th>
+                                    {executedPlan && <th className="py-2" />}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {shownPlan.fills.map((fill) => (
+                                    <tr key={fill.offer.id} className="border-b border-gray-200">
+                                        <td className="py-2" title={fill.offer.seller}>
+                                            #{fill.offer.id} {formatAddress(fill.offer.seller)}
+                                        </td>
+                                        <td className="py-2 text-right">{fill.energyAmount}</td>
+                                        <td className="py-2 text-right">{formatEth(fill.offer.pricePerUnit)}</td>
+                                        <td className="py-2 text-right">{formatEth(fill.cost)}</td>
+                                        {executedPlan && (
+                                            <td
+                                                className={`py-2 text-right capitalize ${STATUS_CLASSES[statuses[fill.offer.id] ?? "pending"]}`}>
+                                                {statuses[fill.offer.id] ?? "pending"}
+                                            </td>
+                                        )}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+
+                        <div className="grid grid-cols-2 gap-1 text-gray-700">
+                            <div>Total:</div>
+                            <div className="text-right font-medium text-gray-900">
+                                {shownPlan.energyAmount} kWh for {formatEth(shownPlan.cost)} ETH
+                            </div>
+                            <div>Included platform fee:</div>
+                            <div className="text-right">
+                                {formatEth(shownPlan.fee)} ETH
+                                {platformFeeRate !== null && ` (${platformFeeRate / 100}%)`}
+                            </div>
+                        </div>
+                        {shownPlan.shortfall > 0 && (
+                            <p className="mt-2 text-amber-700">
+                                {shownPlan.shortfall} kWh can&apos;t be filled from offers at or below this price.
+                            </p>
+                        )}
+                        {executedPlan && (
+                            <p className="mt-2 text-gray-700">
+                                {isBuying
+                                    ? `Buying ${doneCount + 1} of ${executedPlan.fills.length}...`
+                                    : `${boughtCount} of ${executedPlan.fills.length} purchases went through`}
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                <FieldError message={errors.form} />
+
+                {executedPlan && !isBuying ? (
+                    <button
+                        type="button"
+                        onClick={resetExecution}
+                        className="w-full bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors">
+                        Plan Another Purchase
+                    </button>
+                ) : (
+                    <button
+                        type="submit"
+                        disabled={isBuying}
+                        className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400">
+                        {isBuying ? "Buying..." : "Buy"}
+                    </button>
+                )}
+            </form>
+        </div>
+    )
+}
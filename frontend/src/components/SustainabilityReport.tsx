@@ -0,0 +1,324 @@
+"use client"
+
+import { useState } from "react"
+import { useContract } from "../contexts/ContractContext"
+import { Scope2Report, buildScope2Report, downloadFile, escapeHtml } from "../sdk"
+import FieldError from "./FieldError"
+
+type PeriodPreset = "this-year" | "last-year" | "last-quarter" | "custom"
+
+const PRESET_LABELS: Record<PeriodPreset, string> = {
+    "this-year": "This year",
+    "last-year": "Last year",
+    "last-quarter": "Last full quarter",
+    custom: "Custom period",
+}
+
+// Local calendar day as yyyy-mm-dd, the format of date inputs
+const toDateInput = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+
+const presetRange = (preset: PeriodPreset, today: Date): [string, string] => {
+    const year = today.getFullYear()
+    if (preset === "last-year") return [`${year - 1}-01-01`, `${year - 1}-12-31`]
+    if (preset === "last-quarter") {
+        const quarterStart = new Date(year, Math.floor(today.getMonth() / 3) * 3 - 3, 1)
+        const quarterEnd = new Date(quarterStart.getFullYear(), quarterStart.getMonth() + 3, 0)
+        return [toDateInput(quarterStart), toDateInput(quarterEnd)]
+    }
+    return [`${year}-01-01`, toDateInput(today)]
+}
+
+const formatKwh = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+
+const csvCell = (value: string | number) => {
+    const text = String(value)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// The last day of a report, which ends at the start of the following day
+const lastDay = (report: Scope2Report) => new Date(report.to.getTime() - 1)
+
+const reportSummary = (report: Scope2Report): [string, string][] => [
+    ["Account", report.account],
+    ["Period", `${toDateInput(report.from)} to ${toDateInput(lastDay(report))}`],
+    ["Consumption (kWh)", String(report.consumption)],
+    ["Verified consumption (kWh)", String(report.verifiedConsumption)],
+    ["Consumption readings", String(report.consumptionReadings)],
+    ["Renewable energy from redeemed certificates (kWh)", String(report.renewableEnergy)],
+    ["Renewable coverage (%)", report.coveragePercent.toFixed(2)],
+    ["Unmatched consumption (kWh)", String(report.unmatchedConsumption)],
+    ["Surplus renewable energy (kWh)", String(report.surplusRenewableEnergy)],
+]
+
+const toCsv = (report: Scope2Report) => {
+    const rows: (string | number)[][] = [
+        ["Scope 2 renewable energy report"],
+        ...reportSummary(report),
+        [],
+        ["Energy source", "Location", "Certificates", "kWh"],
+        ...report.claims.map((line) => [line.energySource, line.location, line.certificateCount, line.energyAmount]),
+        [],
+        ["Certificate ID", "Energy source", "Location", "kWh", "Issued", "Redeemed", "Redemption transaction"],
+        ...report.redemptions.map(({ certificate, redemption }) => [
+            certificate.id,
+            certificate.energySource,
+            certificate.location,
+            certificate.energyAmount,
+            certificate.issuanceDate.toISOString(),
+            redemption.timestamp.toISOString(),
+            redemption.txHash,
+        ]),
+    ]
+    return rows.map((row) => row.map(csvCell).join(",")).join("\n")
+}
+
+const toPrintable = (report: Scope2Report) => {
+    const table = (head: string[], body: (string | number)[][]) =>
+        `<table><tr>${head.map((cell) => `<th>${escapeHtml(cell)}</th>`).join("")}</tr>${body
+            .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(String(cell))}</td>`).join("")}</tr>`)
+            .join("")}</table>`
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Scope 2 renewable energy report</title>
+<style>
+body { font-family: sans-serif; max-width: 800px; margin: 40px auto; color: #111827; }
+table { border-collapse: collapse; width: 100%; margin: 16px 0 32px; font-size: 13px; }
+th, td { border-bottom: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; word-break: break-all; }
+th { color: #4b5563; }
+</style>
+</head>
+<body>
+<h1>Scope 2 Renewable Energy Report</h1>
+${table(["Item", "Value"], reportSummary(report))}
+<h2>Renewable claims by source and location</h2>
+${table(
+    ["Energy source", "Location", "Certificates", "kWh"],
+    report.claims.map((line) => [line.energySource, line.location, line.certificateCount, line.energyAmount])
+)}
+<h2>Redeemed certificates</h2>
+${table(
+    ["ID", "Source", "Location", "kWh", "Redeemed", "Transaction"],
+    report.redemptions.map(({ certificate, redemption }) => [
+        certificate.id,
+        certificate.energySource,
+        certificate.location,
+        certificate.energyAmount,
+        redemption.timestamp.toISOString(),
+        redemption.txHash,
+    ])
+)}
+</body>
+</html>`
+}
+
+// Market-based Scope 2 report of the viewed account: consumption against certificates redeemed in a period
+export default function SustainabilityReport() {
+    const { client, viewAccount } = useContract()
+    const [preset, setPreset] = useState<PeriodPreset>("this-year")
+    const [from, setFrom] = useState<string>(() => presetRange("this-year", new Date())[0])
+    const [to, setTo] = useState<string>(() => presetRange("this-year", new Date())[1])
+    const [report, setReport] = useState<Scope2Report | null>(null)
+    const [errors, setErrors] = useState<Record<string, string>>({})
+    const [isGenerating, setIsGenerating] = useState<boolean>(false)
+
+    const handlePreset = (value: PeriodPreset) => {
+        setPreset(value)
+        if (value === "custom") return
+        const [start, end] = presetRange(value, new Date())
+        setFrom(start)
+        setTo(end)
+    }
+
+    const handleGenerate = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!client || !viewAccount) return
+
+        // Both dates are whole local days; the report runs to the end of the last one
+        const start = new Date(`${from}T00:00`)
+        const end = new Date(`${to}T00:00`)
+        end.setDate(end.getDate() + 1)
+        if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+            setErrors({ period: "The period must end on or after the day it starts." })
+            return
+        }
+
+        setIsGenerating(true)
+        setErrors({})
+        try {
+            const [consumption, redeemed] = await Promise.all([
+                client.getReadings(viewAccount, "consumption"),
+                client.getRedeemedCertificates(viewAccount),
+            ])
+            setReport(buildScope2Report(viewAccount, consumption, redeemed, start, end))
+        } catch (error) {
+            console.error("Error generating Scope 2 report:", error)
+            setErrors({ form: "The report data couldn't be loaded. Please try again." })
+        } finally {
+            setIsGenerating(false)
+        }
+    }
+
+    const handleDownloadCsv = () => {
+        if (!report) return
+        downloadFile(
+            `scope2-report-${toDateInput(report.from)}-${toDateInput(lastDay(report))}.csv`,
+            toCsv(report),
+            "text/csv"
+        )
+    }
+
+    const handlePrint = () => {
+        if (!report) return
+        const printWindow = window.open("", "_blank")
+        if (!printWindow) return
+        printWindow.document.write(toPrintable(report))
+        printWindow.document.close()
+        printWindow.print()
+    }
+
+    if (!viewAccount) return null
+
+    const inputClasses = "px-2 py-1 border border-gray-300 rounded-md text-gray-900"
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+            <h2 className="text-xl font-bold text-gray-800 mb-1">Sustainability Report (Scope 2)</h2>
+            <p className="text-sm text-gray-700 mb-4">
+                Logged consumption in a period, matched against the certificates redeemed in the same period.
+            </p>
+
+            <form onSubmit={handleGenerate} className="flex flex-wrap items-end gap-2 mb-2 text-sm">
+                <select
+                    aria-label="Reporting period"
+                    value={preset}
+                    onChange={(e) => handlePreset(e.target.value as PeriodPreset)}
+                    className={inputClasses}>
+                    {(Object.keys(PRESET_LABELS) as PeriodPreset[]).map((key) => (
+                        <option key={key} value={key}>
+                            {PRESET_LABELS[key]}
+                        </option>
+                    ))}
+                </select>
+                <input
+                    aria-label="Period start"
+                    type="date"
+                    value={from}
+                    onChange={(e) => {
+                        setFrom(e.target.value)
+                        setPreset("custom")
+                    }}
+                    className={inputClasses}
+                    required
+                />
+                <span className="py-1 text-gray-700">to</span>
+                <input
+                    aria-label="Period end"
+                    type="date"
+                    value={to}
+                    onChange={(e) => {
+                        setTo(e.target.value)
+                        setPreset("custom")
+                    }}
+                    className={inputClasses}
+                    required
+                />
+                <button
+                    type="submit"
+                    disabled={isGenerating}
+                    className="bg-green-600 text-white py-1 px-4 rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400">
+                    {isGenerating ? "Generating..." : "Generate"}
+                </button>
+            </form>
+            <FieldError message={errors.period} />
+            <FieldError message={errors.form} />
+
+            {report && (
+                <div className="mt-4">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm mb-4">
+                        <div className="p-2 bg-gray-50 rounded">
+                            <div className="text-gray-500">Consumption</div>
+                            <div className="font-medium text-gray-900">{formatKwh(report.consumption)} kWh</div>
+                            <div className="text-xs text-gray-500">
+                                {formatKwh(report.verifiedConsumption)} kWh verified
+                            </div>
+                        </div>
+                        <div className="p-2 bg-gray-50 rounded">
+                            <div className="text-gray-500">Renewable (RECs)</div>
+                            <div className="font-medium text-gray-900">{formatKwh(report.renewableEnergy)} kWh</div>
+                            <div className="text-xs text-gray-500">
+                                {report.redemptions.length} certificates redeemed
+                            </div>
+                        </div>
+                        <div className="p-2 bg-gray-50 rounded">
+                            <div className="text-gray-500">Coverage</div>
+                            <div className="font-medium text-green-700">{report.coveragePercent.toFixed(1)}%</div>
+                        </div>
+                        <div className="p-2 bg-gray-50 rounded">
+                            <div className="text-gray-500">Unmatched</div>
+                            <div className="font-medium text-orange-700">
+                                {formatKwh(report.unmatchedConsumption)} kWh
+                            </div>
+                            {report.surplusRenewableEnergy > 0 && (
+                                <div className="text-xs text-gray-500">
+                                    {formatKwh(report.surplusRenewableEnergy)} kWh of RECs unused
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
+                    {report.claims.length > 0 ? (
+                        <table className="min-w-full mb-4">
+                            <thead>
+                                <tr className="border-b border-gray-200">
+                                    <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        Energy Source
+                                    </th>
+                                    <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        Location
+                                    </th>
+                                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        Certificates
+                                    </th>
+                                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        kWh
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {report.claims.map((line) => (
+                                    <tr
+                                        key={`${line.energySource}-${line.location}`}
+                                        className="border-b border-gray-200 text-sm">
+                                        <td className="py-2 capitalize">{line.energySource}</td>
+                                        <td className="py-2">{line.location}</td>
+                                        <td className="py-2 text-right">{line.certificateCount}</td>
+                                        <td className="py-2 text-right">{formatKwh(line.energyAmount)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    ) : (
+                        <p className="text-sm text-gray-700 mb-4">No certificates were redeemed in this period.</p>
+                    )}
+
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleDownloadCsv}
+                            className="flex-1 bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors">
+                            Download CSV
+                        </button>
+                        <button
+                            onClick={handlePrint}
+                            className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors">
+                            Print / PDF
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
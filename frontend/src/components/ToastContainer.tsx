@@ -0,0 +1,35 @@
+"use client"
+
+import { useContract } from "../contexts/ContractContext"
+import { ToastType } from "../hooks/useTransactionManager"
+
+const TOAST_STYLES: Record<ToastType, string> = {
+    info: "bg-blue-600",
+    success: "bg-green-600",
+    error: "bg-red-600",
+}
+
+export default function ToastContainer() {
+    const { toasts, dismissToast } = useContract()
+
+    if (toasts.length === 0) return null
+
+    return (
+        <div className="fixed bottom-4 right-4 z-50 space-y-2 w-80">
+            {toasts.map((toast) => (
+                <div
+                    key={toast.id}
+                    role="status"
+                    className={`${TOAST_STYLES[toast.type]} text-white px-4 py-3 rounded-md shadow-lg flex justify-between items-start`}>
+                    <span className="text-sm break-words mr-2">{toast.message}</span>
+                    <button
+                        onClick={() => dismissToast(toast.id)}
+                        className="text-white opacity-75 hover:opacity-100"
+                        aria-label="Dismiss">
+                        &times;
+                    </button>
+                </div>
+            ))}
+        </div>
+    )
+}
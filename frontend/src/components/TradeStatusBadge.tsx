@@ -0,0 +1,17 @@
+"use client"
+
+import { TRADE_STATUS_LABELS, TradeStatus } from "../sdk"
+
+const STATUS_CLASSES: Record<TradeStatus, string> = {
+    [TradeStatus.Open]: "bg-yellow-100 text-yellow-800",
+    [TradeStatus.Completed]: "bg-green-100 text-green-800",
+    [TradeStatus.Cancelled]: "bg-gray-200 text-gray-700",
+}
+
+export default function TradeStatusBadge({ status }: { status: TradeStatus }) {
+    return (
+        <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_CLASSES[status] ?? "bg-gray-100 text-gray-500"}`}>
+            {TRADE_STATUS_LABELS[status] ?? "Unknown"}
+        </span>
+    )
+}
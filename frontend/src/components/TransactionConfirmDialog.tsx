@@ -0,0 +1,49 @@
+"use client"
+
+import { useContract } from "../contexts/ContractContext"
+import { formatEth } from "../sdk"
+
+// Shown after a successful dry run, before the wallet is asked to sign
+export default function TransactionConfirmDialog() {
+    const { confirmation, respondToConfirmation } = useContract()
+
+    if (!confirmation) return null
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
+            <div className="bg-white p-6 rounded-lg shadow-lg max-w-md w-full">
+                <h3 className="text-xl font-bold mb-4 text-gray-900">Confirm Transaction</h3>
+
+                <div className="mb-4 p-4 bg-gray-50 rounded-lg">
+                    <div className="text-sm text-gray-600 mb-1">{confirmation.label}</div>
+                    <div className="font-medium text-gray-900">{confirmation.summary}</div>
+                </div>
+
+                <div className="mb-6 text-sm text-gray-700 flex justify-between">
+                    <span>Estimated gas:</span>
+                    {confirmation.gasLimit ? (
+                        <span>
+                            {confirmation.gasLimit.toNumber().toLocaleString()} units
+                            {confirmation.gasCost && ` (~${formatEth(confirmation.gasCost)} ETH)`}
+                        </span>
+                    ) : (
+                        <span>Estimated per transaction</span>
+                    )}
+                </div>
+
+                <div className="flex space-x-4">
+                    <button
+                        onClick={() => respondToConfirmation(false)}
+                        className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => respondToConfirmation(true)}
+                        className="flex-1 bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors">
+                        Sign in Wallet
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
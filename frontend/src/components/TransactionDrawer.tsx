@@ -0,0 +1,72 @@
+"use client"
+
+import { useState } from "react"
+import { useContract } from "../contexts/ContractContext"
+import { TransactionStatus } from "../hooks/useTransactionManager"
+
+const STATUS_STYLES: Record<TransactionStatus, string> = {
+    pending: "bg-yellow-100 text-yellow-800",
+    confirmed: "bg-green-100 text-green-800",
+    failed: "bg-red-100 text-red-800",
+}
+
+export default function TransactionDrawer() {
+    const { transactions, clearTransactions, chainId } = useContract()
+    const [isOpen, setIsOpen] = useState<boolean>(false)
+
+    const pendingCount = transactions.filter((tx) => tx.status === "pending").length
+
+    return (
+        <div className="relative mr-4">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="px-3 py-1 bg-green-700 hover:bg-green-800 rounded-md text-sm transition-colors">
+                Transactions
+                {pendingCount > 0 && (
+                    <span className="ml-2 px-2 bg-yellow-400 text-gray-900 rounded-full">{pendingCount}</span>
+                )}
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-96 bg-white text-gray-800 rounded-lg shadow-lg z-40">
+                    <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+                        <h3 className="font-semibold">Recent Transactions</h3>
+                        <button onClick={clearTransactions} className="text-sm text-gray-500 hover:text-gray-700">
+                            Clear
+                        </button>
+                    </div>
+
+                    {transactions.length > 0 ? (
+                        <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+                            {transactions.map((tx) => (
+                                <li key={tx.hash} className="px-4 py-3">
+                                    <div className="flex justify-between items-center">
+                                        <span className="font-medium text-sm">{tx.label}</span>
+                                        <span
+                                            className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[tx.status]}`}>
+                                            {tx.status}
+                                        </span>
+                                    </div>
+                                    <div className="flex justify-between text-xs text-gray-500 mt-1">
+                                        <span title={tx.hash}>
+                                            {tx.hash.slice(0, 10)}...{tx.hash.slice(-6)}
+                                            {tx.chainId !== chainId && ` (chain ${tx.chainId})`}
+                                        </span>
+                                        <span>
+                                            {tx.status === "confirmed" &&
+                                                `${tx.confirmations} confirmation${tx.confirmations === 1 ? "" : "s"} · `}
+                                            {new Date(tx.submittedAt).toLocaleTimeString()}
+                                        </span>
+                                    </div>
+                                    {tx.error && <div className="text-xs text-red-600 mt-1">{tx.error}</div>}
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="px-4 py-6 text-sm text-gray-500 text-center">No transactions yet</p>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,428 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { useContract } from "../contexts/ContractContext"
+import { Reading, ReadingType, Verification } from "../sdk"
+
+// Matches RenewableCertificate.ENERGY_THRESHOLD until the contract has been read
+const DEFAULT_ENERGY_THRESHOLD = 100
+
+const readingKey = (user: string, readingType: ReadingType, index: number) =>
+    `${user.toLowerCase()}-${readingType}-${index}`
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+// Approved readings are shown with the amount they were approved for
+interface Approval extends Verification {
+    amount: number | null
+}
+
+// Review queue for accounts the EnergyLogger owner has made verifiers, hidden for everyone else
+export default function VerifierConsole() {
+    const {
+        client,
+        account,
+        isConnected,
+        userRegion,
+        sendTransaction,
+        sendTransactionBatch,
+        subscribeToEvents,
+        notify,
+    } = useContract()
+    const [isVerifier, setIsVerifier] = useState<boolean>(false)
+    const [region, setRegion] = useState<string>("")
+    const [pendingReadings, setPendingReadings] = useState<Reading[]>([])
+    const [selected, setSelected] = useState<Set<string>>(new Set())
+    const [approvals, setApprovals] = useState<Approval[]>([])
+    const [energyThreshold, setEnergyThreshold] = useState<number>(DEFAULT_ENERGY_THRESHOLD)
+    const [isLoadingReadings, setIsLoadingReadings] = useState<boolean>(false)
+    const [isVerifying, setIsVerifying] = useState<boolean>(false)
+
+    useEffect(() => {
+        if (!client || !isConnected || !account) {
+            setIsVerifier(false)
+            return
+        }
+        client
+            .isVerifier(account)
+            .then(setIsVerifier)
+            .catch((error) => {
+                console.error("Error checking verifier status:", error)
+                setIsVerifier(false)
+            })
+    }, [client, isConnected, account])
+
+    useEffect(() => {
+        if (!client || !isVerifier) return
+        client
+            .getEnergyThreshold()
+            .then(setEnergyThreshold)
+            .catch((error) => console.error("Error fetching energy threshold:", error))
+    }, [client, isVerifier])
+
+    // Start with the verifier's own region
+    useEffect(() => {
+        if (userRegion && !region) setRegion(userRegion)
+    }, [userRegion, region])
+
+    const fetchPendingReadings = useCallback(async () => {
+        if (!client || !region) return
+
+        setIsLoadingReadings(true)
+        try {
+            const users = await client.getRegionUsers(region)
+            const readings = await Promise.all(
+                users.map(async (user) => {
+                    const [consumption, production] = await Promise.all([
+                        client.getReadings(user, "consumption"),
+                        client.getReadings(user, "production"),
+                    ])
+                    return [...consumption, ...production]
+                })
+            )
+            setPendingReadings(
+                readings
+                    .flat()
+                    .filter((reading) => !reading.verified)
+                    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+            )
+            setSelected(new Set())
+        } catch (error) {
+            console.error("Error fetching region readings:", error)
+        } finally {
+            setIsLoadingReadings(false)
+        }
+    }, [client, region])
+
+    const fetchApprovals = useCallback(async () => {
+        if (!client || !account) return
+
+        try {
+            const verifications = await client.getVerifications(account)
+            const enriched = await Promise.all(
+                verifications.map(async (verification) => {
+                    try {
+                        const reading = await client.getReading(
+                            verification.user,
+                            verification.readingType,
+                            verification.readingIndex
+                        )
+                        return { ...verification, amount: reading.amount }
+                    } catch (error) {
+                        console.error("Error fetching approved reading:", error)
+                        return { ...verification, amount: null }
+                    }
+                })
+            )
+            setApprovals(enriched.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()))
+        } catch (error) {
+            console.error("Error fetching approvals:", error)
+        }
+    }, [client, account])
+
+    useEffect(() => {
+        if (isVerifier) fetchApprovals()
+    }, [isVerifier, fetchApprovals])
+
+    // Readings verified here or by another verifier leave the queue
+    useEffect(() => {
+        if (!isVerifier) return
+        return subscribeToEvents((event) => {
+            if (event.type !== "ReadingVerified") return
+            const key = readingKey(event.user, event.readingType, event.readingIndex)
+            setPendingReadings((prev) =>
+                prev.filter((reading) => readingKey(reading.user, reading.readingType, reading.index) !== key)
+            )
+            setSelected((prev) => {
+                const next = new Set(prev)
+                next.delete(key)
+                return next
+            })
+            if (event.verifier.toLowerCase() === account.toLowerCase()) fetchApprovals()
+        })
+    }, [isVerifier, account, subscribeToEvents, fetchApprovals])
+
+    const expectedCertificates = (reading: Reading) =>
+        reading.readingType === "production" ? Math.floor(reading.amount / energyThreshold) : 0
+
+    const describe = (reading: Reading) =>
+        `${reading.readingType} reading #${reading.index} of ${formatAddress(reading.user)} (${reading.amount} kWh ${reading.source})`
+
+    const verifySummary = (reading: Reading) => {
+        const certificates = expectedCertificates(reading)
+        return (
+            `Verify ${describe(reading)}` +
+            (certificates > 0 ? `, minting ${certificates} certificate${certificates === 1 ? "" : "s"}` : "")
+        )
+    }
+
+    const handleVerify = async (reading: Reading) => {
+        if (!client) return
+        setIsVerifying(true)
+        try {
+            await sendTransaction(
+                "Verify reading",
+                client.verifyReading(reading.user, reading.readingType, reading.index),
+                { summary: verifySummary(reading) }
+            )
+        } finally {
+            setIsVerifying(false)
+        }
+    }
+
+    const handleVerifySelected = async () => {
+        if (!client) return
+        const batch = pendingReadings.filter((reading) =>
+            selected.has(readingKey(reading.user, reading.readingType, reading.index))
+        )
+        if (batch.length === 0) return
+
+        const certificates = batch.reduce((sum, reading) => sum + expectedCertificates(reading), 0)
+        setIsVerifying(true)
+        try {
+            // Sequential, so the wallet prompts one at a time; a failed reading doesn't stop the rest, a rejected prompt does
+            const { approved, confirmed, failed, skipped } = await sendTransactionBatch(batch, {
+                confirmation: {
+                    label: `Verify ${batch.length} readings`,
+                    summary:
+                        `Sign ${batch.length} verification transactions, one after another, minting ${certificates} ` +
+                        `certificate${certificates === 1 ? "" : "s"} in total`,
+                },
+                transaction: (reading) => ({
+                    label: "Verify reading",
+                    call: client.verifyReading(reading.user, reading.readingType, reading.index),
+                    summary: verifySummary(reading),
+                }),
+            })
+            if (!approved) return
+
+            if (confirmed.length === batch.length) {
+                notify(`Verified ${batch.length} readings`, "success")
+            } else {
+                const problems = [
+                    failed.length > 0 ? `${failed.length} failed` : "",
+                    skipped.length > 0 ? `${skipped.length} skipped after a rejected prompt` : "",
+                ].filter(Boolean)
+                notify(
+                    `Verified ${confirmed.length} of ${batch.length} readings; ${problems.join(", ")}. ` +
+                        "The rest are still selected.",
+                    "error"
+                )
+            }
+        } finally {
+            setIsVerifying(false)
+        }
+    }
+
+    const toggleSelected = (key: string) => {
+        setSelected((prev) => {
+            const next = new Set(prev)
+            if (next.has(key)) {
+                next.delete(key)
+            } else {
+                next.add(key)
+            }
+            return next
+        })
+    }
+
+    const allSelected = pendingReadings.length > 0 && selected.size === pendingReadings.length
+
+    const toggleAll = () => {
+        setSelected(
+            allSelected
+                ? new Set()
+                : new Set(
+                      pendingReadings.map((reading) => readingKey(reading.user, reading.readingType, reading.index))
+                  )
+        )
+    }
+
+    const approvedCertificates = useMemo(
+        () =>
+            approvals.reduce(
+                (sum, approval) =>
+                    sum +
+                    (approval.readingType === "production" && approval.amount !== null
+                        ? Math.floor(approval.amount / energyThreshold)
+                        : 0),
+                0
+            ),
+        [approvals, energyThreshold]
+    )
+
+    if (!isVerifier) return null
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+            <h2 className="text-xl font-bold mb-4 text-gray-800">Verifier Console</h2>
+
+            <form
+                onSubmit={(e) => {
+                    e.preventDefault()
+                    fetchPendingReadings()
+                }}
+                className="flex gap-2 mb-4">
+                <input
+                    aria-label="Region"
+                    type="text"
+                    value={region}
+                    onChange={(e) => setRegion(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                    placeholder="Region to review"
+                    required
+                />
+                <button
+                    type="submit"
+                    disabled={isLoadingReadings}
+                    className="bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400">
+                    {isLoadingReadings ? "Loading..." : "Load Readings"}
+                </button>
+            </form>
+
+            <div className="flex justify-between items-center mb-2">
+                <h3 className="text-lg font-semibold text-gray-700">Unverified Readings</h3>
+                <button
+                    onClick={handleVerifySelected}
+                    disabled={isVerifying || selected.size === 0}
+                    className="text-sm bg-blue-600 text-white py-1 px-3 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400">
+                    Verify Selected ({selected.size})
+                </button>
+            </div>
+
+            {pendingReadings.length > 0 ? (
+                <div className="overflow-x-auto mb-6">
+                    <table className="min-w-full">
+                        <thead>
+                            <tr className="border-b border-gray-200">
+                                <th className="py-2 text-left">
+                                    <input
+                                        type="checkbox"
+                                        aria-label="Select all readings"
+                                        checked={allSelected}
+                                        onChange={toggleAll}
+                                    />
+                                </th>
+                                <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    User
+                                </th>
+                                <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Type
+                                </th>
+                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Amount
+                                </th>
+                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Expected Certificates
+                                </th>
+                                <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                    Date
+                                </th>
+                                <th className="py-2" />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {pendingReadings.map((reading) => {
+                                const key = readingKey(reading.user, reading.readingType, reading.index)
+                                return (
+                                    <tr key={key} className="border-b border-gray-200">
+                                        <td className="py-2">
+                                            <input
+                                                type="checkbox"
+                                                aria-label={`Select ${describe(reading)}`}
+                                                checked={selected.has(key)}
+                                                onChange={() => toggleSelected(key)}
+                                            />
+                                        </td>
+                                        <td className="py-2 text-sm" title={reading.user}>
+                                            {formatAddress(reading.user)}
+                                        </td>
+                                        <td className="py-2 text-sm">
+                                            <span
+                                                className={
+                                                    reading.readingType === "production"
+                                                        ? "text-green-700"
+                                                        : "text-orange-700"
+                                                }>
+                                                {reading.readingType === "production" ? "Produced" : "Consumed"}
+                                            </span>
+                                            <div className="text-xs text-gray-500">{reading.source}</div>
+                                        </td>
+                                        <td className="py-2 text-sm text-right">{reading.amount} kWh</td>
+                                        <td className="py-2 text-sm text-right">
+                                            {reading.readingType === "production" ? expectedCertificates(reading) : "—"}
+                                        </td>
+                                        <td className="py-2 text-xs text-right text-gray-500">
+                                            {reading.timestamp.toLocaleString()}
+                                        </td>
+                                        <td className="py-2 text-right">
+                                            <button
+                                                onClick={() => handleVerify(reading)}
+                                                disabled={isVerifying}
+                                                className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400">
+                                                Verify
+                                            </button>
+                                        </td>
+                                    </tr>
+                                )
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            ) : (
+                <p className="text-gray-500 mb-6">
+                    {isLoadingReadings ? "Loading readings..." : "No unverified readings loaded for this region."}
+                </p>
+            )}
+
+            <h3 className="text-lg font-semibold text-gray-700 mb-2">My Approvals</h3>
+            {approvals.length > 0 ? (
+                <>
+                    <p className="text-sm text-gray-700 mb-2">
+                        {approvals.length} readings approved, {approvedCertificates} certificates minted
+                    </p>
+                    <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                        <table className="min-w-full">
+                            <thead>
+                                <tr className="border-b border-gray-200">
+                                    <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        User
+                                    </th>
+                                    <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        Reading
+                                    </th>
+                                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        Amount
+                                    </th>
+                                    <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        Approved
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {approvals.map((approval) => (
+                                    <tr key={approval.txHash} className="border-b border-gray-200">
+                                        <td className="py-2 text-sm" title={approval.user}>
+                                            {formatAddress(approval.user)}
+                                        </td>
+                                        <td className="py-2 text-sm capitalize">
+                                            {approval.readingType} #{approval.readingIndex}
+                                        </td>
+                                        <td className="py-2 text-sm text-right">
+                                            {approval.amount !== null ? `${approval.amount} kWh` : "—"}
+                                        </td>
+                                        <td className="py-2 text-xs text-right text-gray-500" title={approval.txHash}>
+                                            {approval.timestamp.toLocaleString()}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            ) : (
+                <p className="text-gray-500">You have not verified any readings yet.</p>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,45 @@
+import contractsData from "./contracts.json"
+import { ContractAddresses } from "../sdk"
+
+// Parameters for wallet_addEthereumChain, for chains we deploy to
+export interface ChainConfig {
+    chainName: string
+    rpcUrls: string[]
+    nativeCurrency: { name: string; symbol: string; decimals: number }
+    blockExplorerUrls?: string[]
+}
+
+const KNOWN_CHAINS: Record<string, ChainConfig> = {
+    "1337": {
+        chainName: "Local Development",
+        rpcUrls: ["http://127.0.0.1:8545"],
+        nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    },
+    "11155111": {
+        chainName: "Sepolia",
+        rpcUrls: ["https://rpc.sepolia.org"],
+        nativeCurrency: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
+        blockExplorerUrls: ["https://sepolia.etherscan.io"],
+    },
+}
+
+const deployments: Record<string, ContractAddresses> = contractsData.networks
+
+// Chain IDs (as decimal strings) that have a deployment of all three contracts
+export const SUPPORTED_CHAIN_IDS = Object.keys(deployments).filter((chainId) => {
+    const addresses = deployments[chainId]
+    return !!addresses.ENERGY_LOGGER && !!addresses.RENEWABLE_CERTIFICATE && !!addresses.ENERGY_TRADER
+})
+
+export const getContractAddresses = (chainId: string): ContractAddresses | null =>
+    SUPPORTED_CHAIN_IDS.includes(chainId) ? deployments[chainId] : null
+
+export const getChainConfig = (chainId: string): ChainConfig =>
+    KNOWN_CHAINS[chainId] ?? {
+        chainName: `Chain ${chainId}`,
+        rpcUrls: [],
+        nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    }
+
+// Node used for reading chain data when no wallet is connected
+export const READ_ONLY_RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || "http://127.0.0.1:8545"
@@ -1,309 +1,496 @@
 "use client"
 
-import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react"
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from "react"
 import { ethers } from "ethers"
-import contractsData from "../constants/contracts.json"
-import EnergyLogger from "../artifacts/EnergyLogger.json"
-import RenewableCertificate from "../artifacts/RenewableCertificate.json"
-import EnergyTradeLedger from "../artifacts/EnergyTradeLedger.json"
+import { READ_ONLY_RPC_URL, SUPPORTED_CHAIN_IDS, getChainConfig, getContractAddresses } from "../constants/networks"
+import { Certificate, EnergyClient, EnergyEvent, Offer, createEnergyClient } from "../sdk"
+import { TransactionManager, useTransactionManager } from "../hooks/useTransactionManager"
 
-interface ContractContextType {
+interface ContractContextType extends TransactionManager {
     account: string
     chainId: string
-    energyLogger: ethers.Contract | null
-    renewableCertificate: ethers.Contract | null
-    energyTrader: ethers.Contract | null
+    client: EnergyClient | null
     provider: ethers.providers.Web3Provider | null
     connectWallet: () => Promise<void>
+    requireWallet: () => Promise<EnergyClient | null>
     isConnected: boolean
+    watchAddress: string
+    viewAccount: string
+    isWatching: boolean
+    isSupportedNetwork: boolean
+    supportedChainIds: string[]
+    switchNetwork: (chainId: string) => Promise<void>
     userRegion: string
     setUserRegion: (region: string) => void
+    // The region whose offers are listed, or ALL_REGIONS; browsing never changes the registered region
+    marketRegion: string
+    setMarketRegion: (region: string) => void
     refreshCertificateData: () => Promise<void>
+    subscribeToEvents: (listener: (event: EnergyEvent) => void) => () => void
     certificateCount: number
-    ownedCertificates: any[]
-    marketOffers: any[]
+    ownedCertificates: Certificate[]
+    marketOffers: Offer[]
     isLoading: boolean
+    // Milliseconds since the epoch on the chain, for expiry checks and defaults; a devnet's clock can be ahead
+    chainNow: () => number
 }
 
 const ContractContext = createContext<ContractContextType>({
     account: "",
     chainId: "",
-    energyLogger: null,
-    renewableCertificate: null,
-    energyTrader: null,
+    client: null,
     provider: null,
     connectWallet: async () => {},
+    requireWallet: async () => null,
     isConnected: false,
+    watchAddress: "",
+    viewAccount: "",
+    isWatching: false,
+    isSupportedNetwork: true,
+    supportedChainIds: SUPPORTED_CHAIN_IDS,
+    switchNetwork: async () => {},
     userRegion: "",
     setUserRegion: () => {},
+    marketRegion: "",
+    setMarketRegion: () => {},
     refreshCertificateData: async () => {},
+    subscribeToEvents: () => () => {},
     certificateCount: 0,
     ownedCertificates: [],
     marketOffers: [],
     isLoading: false,
+    chainNow: () => Date.now(),
+    transactions: [],
+    toasts: [],
+    confirmation: null,
+    sendTransaction: async () => null,
+    sendTransactionBatch: async () => ({ approved: false, confirmed: [], failed: [], skipped: [], stoppedBy: null }),
+    stopBatch: () => {},
+    requestConfirmation: async () => false,
+    respondToConfirmation: () => {},
+    notify: () => {},
+    dismissToast: () => {},
+    clearTransactions: () => {},
 })
 
 export const useContract = () => useContext(ContractContext)
 
+// Market region that lists the offers of every region at once
+export const ALL_REGIONS = "*"
+
+// Account data kept per chain, so switching back and forth doesn't start from scratch
+interface ChainState {
+    userRegion: string
+    certificateCount: number
+    ownedCertificates: Certificate[]
+    marketOffers: Offer[]
+}
+
+const EMPTY_CHAIN_STATE: ChainState = {
+    userRegion: "",
+    certificateCount: 0,
+    ownedCertificates: [],
+    marketOffers: [],
+}
+
+const chainStateKey = (chainId: string, account: string) => `${chainId}:${account.toLowerCase()}`
+
+// Reads the ?address=0x… watch parameter, if it is a valid address
+const getWatchAddressFromUrl = (): string => {
+    const address = new URLSearchParams(window.location.search).get("address")
+    return address && ethers.utils.isAddress(address) ? ethers.utils.getAddress(address) : ""
+}
+
 export const ContractProvider = ({ children }: { children: ReactNode }) => {
     const [account, setAccount] = useState<string>("")
-    const [chainId, setChainId] = useState<string>("")
-    const [energyLogger, setEnergyLogger] = useState<ethers.Contract | null>(null)
-    const [renewableCertificate, setRenewableCertificate] = useState<ethers.Contract | null>(null)
-    const [energyTrader, setEnergyTrader] = useState<ethers.Contract | null>(null)
+    const [walletChainId, setWalletChainId] = useState<string>("")
+    const [walletClient, setWalletClient] = useState<EnergyClient | null>(null)
+    const [readOnlyChainId, setReadOnlyChainId] = useState<string>("")
+    const [readOnlyClient, setReadOnlyClient] = useState<EnergyClient | null>(null)
+    const [readOnlyProvider, setReadOnlyProvider] = useState<ethers.providers.JsonRpcProvider | null>(null)
     const [provider, setProvider] = useState<ethers.providers.Web3Provider | null>(null)
     const [isConnected, setIsConnected] = useState<boolean>(false)
+    const [watchAddress, setWatchAddress] = useState<string>("")
     const [userRegion, setUserRegion] = useState<string>("")
+    const [selectedMarketRegion, setMarketRegion] = useState<string>("")
     const [certificateCount, setCertificateCount] = useState<number>(0)
-    const [ownedCertificates, setOwnedCertificates] = useState<any[]>([])
-    const [marketOffers, setMarketOffers] = useState<any[]>([])
+    const [ownedCertificates, setOwnedCertificates] = useState<Certificate[]>([])
+    const [marketOffers, setMarketOffers] = useState<Offer[]>([])
     const [isLoading, setIsLoading] = useState<boolean>(false)
-    const [lastRefreshTime, setLastRefreshTime] = useState<number>(0)
+    const [chainTimeOffset, setChainTimeOffset] = useState<number>(0)
+    const eventListeners = useRef<Set<(event: EnergyEvent) => void>>(new Set())
+    const chainStateCache = useRef<Record<string, ChainState>>({})
+    const activeChainStateKey = useRef<string>("")
 
-    // Get certificate data for the current user - using useCallback to stabilize the function reference
-    const refreshCertificateData = useCallback(async () => {
-        if (!renewableCertificate || !account) {
-            console.log("Missing dependencies for refreshCertificateData:", {
-                hasRenewableCertificate: !!renewableCertificate,
-                hasAccount: !!account,
-            })
-            return
-        }
+    // Without a wallet reads go through the read-only node. On a wallet chain we don't support there is no
+    // client at all, and NetworkGuard blocks the UI until the wallet switches
+    const isSupportedNetwork = !isConnected || getContractAddresses(walletChainId) !== null
+    const chainId = isConnected ? walletChainId : readOnlyChainId
+    const client = isConnected ? walletClient : readOnlyClient
 
-        // Prevent multiple rapid refreshes
-        const now = Date.now()
-        if (now - lastRefreshTime < 3000) {
-            // 3 second cooldown
-            console.log("Skipping refresh due to cooldown")
-            return
-        }
-        setLastRefreshTime(now)
+    // Submitted transactions are followed on whichever node we're reading from
+    const activeProvider = isConnected ? provider : readOnlyProvider
+    const transactionManager = useTransactionManager(activeProvider, chainId)
+    const { notify } = transactionManager
 
-        // Don't set loading if we're already loading
-        if (!isLoading) {
-            setIsLoading(true)
-        }
+    // The account whose data is shown: a watched address takes precedence over the connected one
+    const isWatching = !!watchAddress
+    const viewAccount = watchAddress || account
 
-        try {
-            console.log("Starting certificate data refresh for account:", account)
-
-            // Get basic certificate count
-            const count = await renewableCertificate.getCertificates(account)
-            const certCount = parseInt(count.toString())
-            console.log("Certificate count:", certCount)
-            setCertificateCount(certCount)
-
-            // Get owned certificate IDs
-            const certificateIds = await renewableCertificate.getOwnedCertificateIds(account)
-            console.log("Certificate IDs:", certificateIds, "Length:", certificateIds?.length)
-
-            if (certificateIds && certificateIds.length > 0) {
-                console.log("Fetching details for certificates...")
-
-                // Get details for each certificate
-                const certificatesDetails = await Promise.all(
-                    certificateIds.map(async (id: any, index: number) => {
-                        try {
-                            console.log(
-                                `Fetching details for certificate ID ${id} (${index + 1}/${certificateIds.length})`
-                            )
-                            const details = await renewableCertificate.getCertificateDetails(id)
-                            const cert = {
-                                id: id.toString(),
-                                energyAmount: details.energyAmount.toString(),
-                                issuanceDate: new Date(details.issuanceDate.toNumber() * 1000).toLocaleDateString(),
-                                energySource: details.energySource,
-                                location: details.location,
-                                isValid: details.isValid,
-                                owner: details.owner,
-                            }
-                            console.log(`Certificate ${id} details:`, cert)
-                            return cert
-                        } catch (error) {
-                            console.error(`Error fetching certificate details for ID ${id}:`, error)
-                            return null
-                        }
-                    })
-                )
-
-                // Filter out any null values from failed detail fetches
-                const validCerts = certificatesDetails.filter((cert) => cert !== null)
-                console.log(`Successfully fetched ${validCerts.length} of ${certificateIds.length} certificates`)
-                setOwnedCertificates(validCerts)
-            } else {
-                // Clear certificates if none found
-                console.log("No certificate IDs found, clearing owned certificates")
-                setOwnedCertificates([])
-            }
+    // Offers are browsed in the registered region unless another one was picked
+    const marketRegion = selectedMarketRegion || userRegion
 
-            // Get active market offers if user region is set and trader contract is available
-            if (userRegion && energyTrader) {
-                try {
-                    const regionOfferIds = await energyTrader.getRegionOffers(userRegion)
-
-                    if (regionOfferIds && regionOfferIds.length > 0) {
-                        const activeOffers = await Promise.all(
-                            regionOfferIds.map(async (id: any) => {
-                                try {
-                                    const offerDetails = await energyTrader.getOffer(id)
-                                    // Only return active offers
-                                    if (offerDetails.isActive) {
-                                        return {
-                                            id: offerDetails.id.toString(),
-                                            seller: offerDetails.seller,
-                                            energyAmount: offerDetails.energyAmount.toString(),
-                                            pricePerUnit: ethers.utils.formatEther(offerDetails.pricePerUnit),
-                                            minPurchaseAmount: offerDetails.minPurchaseAmount.toString(),
-                                            expirationTime: new Date(
-                                                offerDetails.expirationTime.toNumber() * 1000
-                                            ).toLocaleDateString(),
-                                            region: offerDetails.region,
-                                            isCertified: offerDetails.isCertified,
-                                        }
-                                    }
-                                } catch (error) {
-                                    console.error("Error fetching offer details:", error)
-                                }
-                                return null
-                            })
-                        )
-
-                        // Filter out null values (inactive offers)
-                        setMarketOffers(activeOffers.filter((offer) => offer !== null))
-                    } else {
-                        setMarketOffers([])
-                    }
-                } catch (error) {
-                    console.error("Error fetching region offers:", error)
-                    setMarketOffers([])
-                }
+    const applyChainState = useCallback((state: ChainState) => {
+        setUserRegion(state.userRegion)
+        setCertificateCount(state.certificateCount)
+        setOwnedCertificates(state.ownedCertificates)
+        setMarketOffers(state.marketOffers)
+    }, [])
+
+    // Results are stored for the chain and account they were fetched for, even if the user has moved on
+    const updateChainState = useCallback(
+        (key: string, update: (state: ChainState) => ChainState) => {
+            const state = update(chainStateCache.current[key] ?? EMPTY_CHAIN_STATE)
+            chainStateCache.current[key] = state
+            if (activeChainStateKey.current === key) {
+                applyChainState(state)
             }
+        },
+        [applyChainState]
+    )
+
+    const refreshAccountData = useCallback(async () => {
+        if (!client || !viewAccount) return
+
+        const key = chainStateKey(chainId, viewAccount)
+        setIsLoading(true)
+        try {
+            console.log("Starting certificate data refresh for account:", viewAccount)
+
+            const [region, certCount, certificates] = await Promise.all([
+                client.getUserRegion(viewAccount),
+                client.getCertificateCount(viewAccount),
+                client.getOwnedCertificates(viewAccount),
+            ])
+            console.log(`Certificate count: ${certCount}, owned certificates: ${certificates.length}`)
+            updateChainState(key, (state) => ({
+                ...state,
+                userRegion: region,
+                certificateCount: certCount,
+                ownedCertificates: certificates,
+            }))
         } catch (error) {
             console.error("Error refreshing certificate data:", error)
             // In case of error, clear the collections to avoid partial data
-            setCertificateCount(0)
-            setOwnedCertificates([])
+            updateChainState(key, (state) => ({ ...state, certificateCount: 0, ownedCertificates: [] }))
         } finally {
             setIsLoading(false)
-            console.log("Certificate data refresh completed")
         }
-    }, [renewableCertificate, account, energyTrader, userRegion, isLoading, lastRefreshTime])
+    }, [client, chainId, viewAccount, updateChainState])
 
-    const connectWallet = async () => {
+    // Get active market offers for the region being browsed, or for all of them
+    const refreshMarketOffers = useCallback(async () => {
+        if (!client) return
+
+        const key = chainStateKey(chainId, viewAccount)
+        if (!marketRegion) {
+            updateChainState(key, (state) => ({ ...state, marketOffers: [] }))
+            return
+        }
+
+        try {
+            const regionOffers =
+                marketRegion === ALL_REGIONS ? await client.getAllOffers() : await client.getRegionOffers(marketRegion)
+            const activeOffers = regionOffers.filter((offer) => offer.isActive)
+            updateChainState(key, (state) => ({ ...state, marketOffers: activeOffers }))
+        } catch (error) {
+            console.error("Error fetching region offers:", error)
+            updateChainState(key, (state) => ({ ...state, marketOffers: [] }))
+        }
+    }, [client, chainId, viewAccount, marketRegion, updateChainState])
+
+    // Full reload of the viewed account and the browsed market, for components that need fresh data right away
+    const refreshCertificateData = useCallback(async () => {
+        if (!client) {
+            console.log("No contract client available for refreshCertificateData")
+            return
+        }
+        await Promise.all([refreshAccountData(), refreshMarketOffers()])
+    }, [client, refreshAccountData, refreshMarketOffers])
+
+    // Components can follow contract events without opening their own subscriptions
+    const subscribeToEvents = useCallback((listener: (event: EnergyEvent) => void) => {
+        eventListeners.current.add(listener)
+        return () => {
+            eventListeners.current.delete(listener)
+        }
+    }, [])
+
+    // Restore what we already know whenever the chain or the viewed account changes
+    useEffect(() => {
+        const key = chainStateKey(chainId, viewAccount)
+        activeChainStateKey.current = key
+        applyChainState(chainStateCache.current[key] ?? EMPTY_CHAIN_STATE)
+    }, [chainId, viewAccount, applyChainState])
+
+    // Set up the client for whichever account and chain the wallet is currently on
+    const loadWallet = useCallback(async (web3Provider: ethers.providers.Web3Provider) => {
+        const signer = web3Provider.getSigner()
+        const userAddress = await signer.getAddress()
+        const network = await web3Provider.getNetwork()
+        const currentChainId = network.chainId.toString()
+
+        const addresses = getContractAddresses(currentChainId)
+        const energyClient = addresses ? createEnergyClient(addresses, signer) : null
+        if (!addresses) {
+            console.log(`No contracts deployed on chain ${currentChainId}`)
+        }
+
+        setAccount(userAddress)
+        setWalletChainId(currentChainId)
+        setWalletClient(energyClient)
+        setProvider(web3Provider)
+        setIsConnected(true)
+
+        return energyClient
+    }, [])
+
+    const disconnectWallet = () => {
+        setAccount("")
+        setWalletChainId("")
+        setWalletClient(null)
+        setProvider(null)
+        setIsConnected(false)
+    }
+
+    const connect = async (): Promise<EnergyClient | null> => {
         try {
             if (window.ethereum) {
-                const web3Provider = new ethers.providers.Web3Provider(window.ethereum)
                 await window.ethereum.request({ method: "eth_requestAccounts" })
-                const signer = web3Provider.getSigner()
-                const userAddress = await signer.getAddress()
-
-                // Get network ID to use the correct contract addresses
-                const network = await web3Provider.getNetwork()
-                setChainId(network.chainId.toString())
-
-                const loggerContract = new ethers.Contract(
-                    contractsData.addresses.ENERGY_LOGGER,
-                    EnergyLogger.abi,
-                    signer
-                )
-
-                const certificateContract = new ethers.Contract(
-                    contractsData.addresses.RENEWABLE_CERTIFICATE,
-                    RenewableCertificate.abi,
-                    signer
-                )
-
-                const traderContract = new ethers.Contract(
-                    contractsData.addresses.ENERGY_TRADER,
-                    EnergyTradeLedger.abi,
-                    signer
-                )
-
-                setAccount(userAddress)
-                setEnergyLogger(loggerContract)
-                setRenewableCertificate(certificateContract)
-                setEnergyTrader(traderContract)
-                setProvider(web3Provider)
-                setIsConnected(true)
-
-                // Try to get user region
-                try {
-                    const region = await loggerContract.userRegion(userAddress)
-                    if (region) setUserRegion(region)
-                } catch (error) {
-                    console.log("User has no region set yet")
-                }
-
-                // Load certificate data
-                await refreshCertificateData()
+                return await loadWallet(new ethers.providers.Web3Provider(window.ethereum))
             } else {
-                alert("MetaMask is not installed. Please install it to use this dApp.")
+                notify("MetaMask is not installed. Please install it to use this dApp.", "error")
             }
         } catch (error) {
             console.error("Error connecting to wallet:", error)
-            alert("Error connecting to wallet. Please make sure contracts are deployed to your current network.")
+            notify("Error connecting to wallet. See console for details.", "error")
         }
+        return null
     }
 
-    // Listen for account and chain changes
+    const connectWallet = async () => {
+        await connect()
+    }
+
+    // Write actions call this to get a signing client, asking for the wallet only at that point
+    const requireWallet = async (): Promise<EnergyClient | null> => {
+        if (isConnected && walletClient) return walletClient
+        return connect()
+    }
+
+    const switchNetwork = async (targetChainId: string) => {
+        if (!window.ethereum) return
+
+        const hexChainId = ethers.utils.hexValue(parseInt(targetChainId))
+        try {
+            await window.ethereum.request({ method: "wallet_switchEthereumChain", params: [{ chainId: hexChainId }] })
+        } catch (error) {
+            // 4902: the wallet doesn't know this chain yet, so offer to add it
+            if ((error as { code?: number }).code !== 4902) throw error
+
+            await window.ethereum.request({
+                method: "wallet_addEthereumChain",
+                params: [{ chainId: hexChainId, ...getChainConfig(targetChainId) }],
+            })
+        }
+        // The chainChanged listener picks up the new network
+    }
+
+    // Connect to the read-only node and pick up a watched address, so the app is browsable without a wallet
     useEffect(() => {
-        if (window.ethereum) {
-            window.ethereum.on("accountsChanged", (accounts: string[]) => {
-                if (accounts.length > 0) {
-                    setAccount(accounts[0])
-                    // Refresh data when account changes
-                    refreshCertificateData()
-                } else {
-                    setAccount("")
-                    setIsConnected(false)
-                    setCertificateCount(0)
-                    setOwnedCertificates([])
-                    setMarketOffers([])
+        setWatchAddress(getWatchAddressFromUrl())
+
+        const rpcProvider = new ethers.providers.JsonRpcProvider(READ_ONLY_RPC_URL)
+        rpcProvider
+            .getNetwork()
+            .then((network) => {
+                const rpcChainId = network.chainId.toString()
+                const addresses = getContractAddresses(rpcChainId)
+                if (!addresses) {
+                    console.log(`No contracts deployed on the read-only node's chain ${rpcChainId}`)
+                    return
                 }
+                setReadOnlyChainId(rpcChainId)
+                setReadOnlyProvider(rpcProvider)
+                setReadOnlyClient(createEnergyClient(addresses, rpcProvider))
+            })
+            .catch((error) => {
+                console.error(`Read-only node at ${READ_ONLY_RPC_URL} is not reachable:`, error)
             })
+    }, [])
+
+    // Listen for account and chain changes
+    useEffect(() => {
+        if (!window.ethereum) return
 
-            window.ethereum.on("chainChanged", () => {
-                window.location.reload()
+        const reloadWallet = () => {
+            loadWallet(new ethers.providers.Web3Provider(window.ethereum)).catch((error) => {
+                console.error("Error reloading wallet:", error)
             })
         }
 
-        return () => {
-            if (window.ethereum) {
-                window.ethereum.removeAllListeners("accountsChanged")
-                window.ethereum.removeAllListeners("chainChanged")
+        window.ethereum.on("accountsChanged", (accounts: string[]) => {
+            if (accounts.length > 0) {
+                reloadWallet()
+            } else {
+                disconnectWallet()
             }
+        })
+
+        window.ethereum.on("chainChanged", async () => {
+            // Only follow the chain once the user has connected
+            const accounts: string[] = await window.ethereum.request({ method: "eth_accounts" })
+            if (accounts.length > 0) reloadWallet()
+        })
+
+        return () => {
+            window.ethereum.removeAllListeners("accountsChanged")
+            window.ethereum.removeAllListeners("chainChanged")
         }
-    }, [])
+    }, [loadWallet])
 
-    // Refresh certificate data periodically
+    // Contracts check expiries against the block time, which runs ahead of the wall clock on a devnet whose
+    // time was moved forward. An idle node's latest block is older than the time its next one gets, so a
+    // block behind the wall clock means no skew rather than a clock running late.
     useEffect(() => {
-        if (isConnected) {
-            refreshCertificateData()
+        if (!activeProvider) return
+
+        const updateChainTime = (blockNumber?: number) => {
+            activeProvider
+                .getBlock(blockNumber ?? "latest")
+                .then((block) => setChainTimeOffset(Math.max(0, block.timestamp * 1000 - Date.now())))
+                .catch((error) => console.error("Error reading the chain time:", error))
+        }
 
-            // Refresh every minute
-            const interval = setInterval(refreshCertificateData, 60000)
-            return () => clearInterval(interval)
+        setChainTimeOffset(0)
+        updateChainTime()
+        activeProvider.on("block", updateChainTime)
+        return () => {
+            activeProvider.off("block", updateChainTime)
         }
-    }, [isConnected, account, userRegion])
+    }, [activeProvider])
+
+    const chainNow = useCallback(() => Date.now() + chainTimeOffset, [chainTimeOffset])
+
+    useEffect(() => {
+        refreshAccountData()
+    }, [refreshAccountData])
+
+    useEffect(() => {
+        refreshMarketOffers()
+    }, [refreshMarketOffers])
+
+    // Keep the viewed account and browsed market up to date from contract events. The subscription is
+    // rebuilt whenever the client (account or chain) or the browsed region changes.
+    useEffect(() => {
+        if (!client) return
+
+        const key = chainStateKey(chainId, viewAccount)
+        const me = viewAccount.toLowerCase()
+        const isMe = (address: string) => !!me && address.toLowerCase() === me
+        const current = () => chainStateCache.current[key] ?? EMPTY_CHAIN_STATE
+
+        const upsertOffer = (offer: Offer) =>
+            updateChainState(key, (state) => ({
+                ...state,
+                marketOffers: offer.isActive
+                    ? [...state.marketOffers.filter((o) => o.id !== offer.id), offer].sort((a, b) => a.id - b.id)
+                    : state.marketOffers.filter((o) => o.id !== offer.id),
+            }))
+
+        // Certificate events change the count and either add, update or drop a certificate
+        const refreshCertificate = async (certificateId: number) => {
+            const [count, certificate] = await Promise.all([
+                client.getCertificateCount(viewAccount),
+                client.getCertificate(certificateId),
+            ])
+            const others = current().ownedCertificates.filter((cert) => cert.id !== certificateId)
+            updateChainState(key, (state) => ({
+                ...state,
+                certificateCount: count,
+                ownedCertificates: isMe(certificate.owner)
+                    ? [...others, certificate].sort((a, b) => a.id - b.id)
+                    : others,
+            }))
+        }
+
+        const applyEvent = async (event: EnergyEvent) => {
+            switch (event.type) {
+                case "UserRegistered":
+                    if (isMe(event.user)) updateChainState(key, (state) => ({ ...state, userRegion: event.region }))
+                    break
+                case "OfferCreated":
+                    if (marketRegion === ALL_REGIONS || event.region === marketRegion)
+                        upsertOffer(await client.getOffer(event.offerId))
+                    break
+                case "OfferUpdated":
+                case "OfferAccepted":
+                    if (current().marketOffers.some((offer) => offer.id === event.offerId)) {
+                        upsertOffer(await client.getOffer(event.offerId))
+                    }
+                    break
+                case "OfferCancelled":
+                    updateChainState(key, (state) => ({
+                        ...state,
+                        marketOffers: state.marketOffers.filter((offer) => offer.id !== event.offerId),
+                    }))
+                    break
+                case "CertificateMinted":
+                    if (isMe(event.generator)) await refreshCertificate(event.certificateId)
+                    break
+                case "CertificateTransferred":
+                    if (isMe(event.from) || isMe(event.to)) await refreshCertificate(event.certificateId)
+                    break
+                case "CertificateRedeemed":
+                    if (isMe(event.redeemer)) await refreshCertificate(event.certificateId)
+                    break
+            }
+        }
+
+        return client.watchEvents((event) => {
+            eventListeners.current.forEach((listener) => listener(event))
+            applyEvent(event).catch((error) => console.error(`Error applying ${event.type} event:`, error))
+        })
+    }, [client, chainId, viewAccount, marketRegion, updateChainState])
 
     return (
         <ContractContext.Provider
             value={{
                 account,
                 chainId,
-                energyLogger,
-                renewableCertificate,
-                energyTrader,
+                client,
                 provider,
                 connectWallet,
+                requireWallet,
                 isConnected,
+                watchAddress,
+                viewAccount,
+                isWatching,
+                isSupportedNetwork,
+                supportedChainIds: SUPPORTED_CHAIN_IDS,
+                switchNetwork,
                 userRegion,
                 setUserRegion,
+                marketRegion,
+                setMarketRegion,
                 refreshCertificateData,
+                subscribeToEvents,
                 certificateCount,
                 ownedCertificates,
                 marketOffers,
                 isLoading,
+                chainNow,
+                ...transactionManager,
             }}>
             {children}
         </ContractContext.Provider>
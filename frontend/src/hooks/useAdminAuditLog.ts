@@ -0,0 +1,68 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+
+// One owner action that was confirmed on chain
+export interface AdminAuditEntry {
+    action: string
+    details: string
+    account: string
+    chainId: string
+    txHash: string
+    timestamp: number
+}
+
+export interface AdminAuditLog {
+    // Entries of the current chain, newest first
+    entries: AdminAuditEntry[]
+    record: (entry: Omit<AdminAuditEntry, "chainId" | "timestamp">) => void
+    // Set when the log couldn't be written to storage, so new entries will be lost with the page
+    storageError: string
+}
+
+const STORAGE_KEY = "energy-dapp:admin-audit"
+
+const loadEntries = (): AdminAuditEntry[] => {
+    try {
+        const stored = window.localStorage.getItem(STORAGE_KEY)
+        return stored ? JSON.parse(stored) : []
+    } catch (error) {
+        console.error("Error reading admin audit log:", error)
+        return []
+    }
+}
+
+// Keeps the owner actions taken from this browser, across sessions
+export const useAdminAuditLog = (chainId: string): AdminAuditLog => {
+    const [allEntries, setAllEntries] = useState<AdminAuditEntry[]>([])
+    const [hasLoaded, setHasLoaded] = useState<boolean>(false)
+    const [storageError, setStorageError] = useState<string>("")
+
+    useEffect(() => {
+        setAllEntries(loadEntries())
+        setHasLoaded(true)
+    }, [])
+
+    useEffect(() => {
+        if (!hasLoaded) return
+        try {
+            window.localStorage.setItem(STORAGE_KEY, JSON.stringify(allEntries))
+            setStorageError("")
+        } catch (error) {
+            console.error("Error storing admin audit log:", error)
+            setStorageError(error instanceof Error ? error.message : "Storage is unavailable")
+        }
+    }, [allEntries, hasLoaded])
+
+    // Fee and wiring changes emit no events, so for them this log is the only record; nothing is ever dropped
+    const record = useCallback(
+        (entry: Omit<AdminAuditEntry, "chainId" | "timestamp">) => {
+            setAllEntries((prev) => [{ ...entry, chainId, timestamp: Date.now() }, ...prev])
+        },
+        [chainId]
+    )
+
+    const entries = useMemo(() => allEntries.filter((entry) => entry.chainId === chainId), [allEntries, chainId])
+
+    return { entries, record, storageError }
+}
@@ -0,0 +1,218 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { ImportRow, MeterReading, ReadingType, meterReadingKey } from "../sdk"
+
+// "sending" readings may have been mined while the page was closed, so they are checked on chain before a resume
+export type QueuedReadingStatus = "pending" | "sending" | "logged" | "failed"
+
+// One reading of an import, stored as JSON
+export interface QueuedReading {
+    key: string
+    line: number
+    // ISO 8601
+    timestamp: string
+    readingType: ReadingType
+    amount: number
+    source: string
+    carbonOffset: number
+    status: QueuedReadingStatus
+    // Index the reading was sent to take in the account's log of its type
+    readingIndex: number | null
+    txHash: string
+}
+
+export interface ReadingImport {
+    id: string
+    chainId: string
+    account: string
+    fileName: string
+    createdAt: number
+    readings: QueuedReading[]
+}
+
+// A reading an import logged, kept apart from the imports so duplicate detection outlives them
+export interface LoggedReading {
+    chainId: string
+    account: string
+    key: string
+    readingType: ReadingType
+    readingIndex: number
+    amount: number
+    source: string
+}
+
+export type QueuedReadingChanges = Partial<Pick<QueuedReading, "status" | "readingIndex" | "txHash">>
+
+export interface ReadingImportQueue {
+    // The newest import of the account on the current chain with readings still to log
+    active: ReadingImport | null
+    // Readings the account's imports have logged on the current chain, for duplicate detection
+    logged: LoggedReading[]
+    // Builds an import of the file's ready rows without saving it
+    prepare: (fileName: string, rows: ImportRow[]) => ReadingImport
+    start: (importRecord: ReadingImport) => void
+    update: (importId: string, key: string, changes: QueuedReadingChanges) => void
+    // Drops the import; the readings it logged stay known for duplicate detection
+    discard: (importId: string) => void
+}
+
+const STORAGE_KEY = "energy-dapp:reading-imports"
+const LOGGED_STORAGE_KEY = "energy-dapp:logged-readings"
+
+// An hourly month is ~700 readings, so only the latest imports are kept to resume; the readings they logged
+// are kept in full under LOGGED_STORAGE_KEY, which only grows with what is on chain
+const MAX_IMPORTS = 10
+
+const loadStored = <T>(key: string): T[] => {
+    try {
+        const stored = window.localStorage.getItem(key)
+        return stored ? JSON.parse(stored) : []
+    } catch (error) {
+        console.error(`Error reading ${key}:`, error)
+        return []
+    }
+}
+
+const storeAll = (key: string, items: unknown[]) => {
+    try {
+        window.localStorage.setItem(key, JSON.stringify(items))
+    } catch (error) {
+        console.error(`Error storing ${key}:`, error)
+    }
+}
+
+const loggedReadingId = (logged: LoggedReading) =>
+    `${logged.chainId}|${logged.account.toLowerCase()}|${logged.readingType}|${logged.readingIndex}|${logged.key}`
+
+export const toMeterReading = (queued: QueuedReading): MeterReading => ({
+    timestamp: new Date(queued.timestamp),
+    readingType: queued.readingType,
+    amount: queued.amount,
+    source: queued.source,
+    carbonOffset: queued.carbonOffset,
+})
+
+const isUnfinished = (importRecord: ReadingImport) => importRecord.readings.some((queued) => queued.status !== "logged")
+
+// Keeps bulk imports of readings across page loads, so an interrupted import can pick up where it stopped
+export const useReadingImportQueue = (chainId: string, account: string): ReadingImportQueue => {
+    const [allImports, setAllImports] = useState<ReadingImport[]>([])
+    const [allLogged, setAllLogged] = useState<LoggedReading[]>([])
+    const [hasLoaded, setHasLoaded] = useState<boolean>(false)
+
+    useEffect(() => {
+        setAllImports(loadStored<ReadingImport>(STORAGE_KEY))
+        setAllLogged(loadStored<LoggedReading>(LOGGED_STORAGE_KEY))
+        setHasLoaded(true)
+    }, [])
+
+    useEffect(() => {
+        if (hasLoaded) storeAll(STORAGE_KEY, allImports)
+    }, [allImports, hasLoaded])
+
+    useEffect(() => {
+        if (hasLoaded) storeAll(LOGGED_STORAGE_KEY, allLogged)
+    }, [allLogged, hasLoaded])
+
+    // Readings are copied out once logged, so they stay known after their import is discarded or rotated out
+    useEffect(() => {
+        if (!hasLoaded) return
+        setAllLogged((prev) => {
+            const known = new Set(prev.map(loggedReadingId))
+            const added = allImports.flatMap((importRecord) =>
+                importRecord.readings.flatMap((queued): LoggedReading[] => {
+                    if (queued.status !== "logged" || queued.readingIndex === null) return []
+                    const logged: LoggedReading = {
+                        chainId: importRecord.chainId,
+                        account: importRecord.account,
+                        key: queued.key,
+                        readingType: queued.readingType,
+                        readingIndex: queued.readingIndex,
+                        amount: queued.amount,
+                        source: queued.source,
+                    }
+                    return known.has(loggedReadingId(logged)) ? [] : [logged]
+                })
+            )
+            return added.length > 0 ? [...prev, ...added] : prev
+        })
+    }, [allImports, hasLoaded])
+
+    const imports = useMemo(
+        () =>
+            allImports.filter(
+                (importRecord) =>
+                    importRecord.chainId === chainId && importRecord.account.toLowerCase() === account.toLowerCase()
+            ),
+        [allImports, chainId, account]
+    )
+
+    const prepare = useCallback(
+        (fileName: string, rows: ImportRow[]): ReadingImport => {
+            const createdAt = Date.now()
+            const importRecord: ReadingImport = {
+                id: `${createdAt}`,
+                chainId,
+                account,
+                fileName,
+                createdAt,
+                readings: rows.flatMap((row): QueuedReading[] =>
+                    row.status === "ready" && row.reading
+                        ? [
+                              {
+                                  key: meterReadingKey(row.reading),
+                                  line: row.line,
+                                  timestamp: row.reading.timestamp.toISOString(),
+                                  readingType: row.reading.readingType,
+                                  amount: row.reading.amount,
+                                  source: row.reading.source,
+                                  carbonOffset: row.reading.carbonOffset,
+                                  status: "pending",
+                                  readingIndex: null,
+                                  txHash: "",
+                              },
+                          ]
+                        : []
+                ),
+            }
+            return importRecord
+        },
+        [chainId, account]
+    )
+
+    const start = useCallback((importRecord: ReadingImport) => {
+        setAllImports((prev) => [importRecord, ...prev].slice(0, MAX_IMPORTS))
+    }, [])
+
+    const update = useCallback((importId: string, key: string, changes: QueuedReadingChanges) => {
+        setAllImports((prev) =>
+            prev.map((importRecord) =>
+                importRecord.id === importId
+                    ? {
+                          ...importRecord,
+                          readings: importRecord.readings.map((queued) =>
+                              queued.key === key ? { ...queued, ...changes } : queued
+                          ),
+                      }
+                    : importRecord
+            )
+        )
+    }, [])
+
+    const discard = useCallback((importId: string) => {
+        setAllImports((prev) => prev.filter((importRecord) => importRecord.id !== importId))
+    }, [])
+
+    const active = useMemo(() => imports.find(isUnfinished) ?? null, [imports])
+    const logged = useMemo(
+        () =>
+            allLogged.filter(
+                (loggedReading) =>
+                    loggedReading.chainId === chainId && loggedReading.account.toLowerCase() === account.toLowerCase()
+            ),
+        [allLogged, chainId, account]
+    )
+
+    return { active, logged, prepare, start, update, discard }
+}
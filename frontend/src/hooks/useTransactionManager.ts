@@ -0,0 +1,365 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import { ethers } from "ethers"
+import { ContractCall, DecodedRevert, decodeRevert, sendCall, simulateCall } from "../sdk"
+
+export type TransactionStatus = "pending" | "confirmed" | "failed"
+
+export interface TrackedTransaction {
+    hash: string
+    label: string
+    chainId: string
+    status: TransactionStatus
+    confirmations: number
+    submittedAt: number
+    error?: string
+}
+
+export type ToastType = "info" | "success" | "error"
+
+export interface Toast {
+    id: number
+    type: ToastType
+    message: string
+}
+
+// What the user is asked to approve before the wallet prompt
+export interface TransactionConfirmation {
+    label: string
+    summary: string
+    // Left out when a batch of transactions is approved as a whole
+    gasLimit: ethers.BigNumber | null
+    gasCost: ethers.BigNumber | null
+}
+
+export interface SendOptions {
+    // Plain-language description of what will be signed, defaults to the label
+    summary?: string
+    // Receives reverts found by the dry run, e.g. to show them next to a form field, instead of a toast
+    onRevert?: (revert: DecodedRevert) => void
+    // For transactions of a batch the user already approved through requestConfirmation
+    skipConfirmation?: boolean
+}
+
+// How a transaction ended; "rejected" is the user declining it, in the confirmation dialog or the wallet
+export type TransactionOutcome =
+    | { status: "confirmed"; receipt: ethers.providers.TransactionReceipt }
+    | { status: "rejected" }
+    | { status: "failed" }
+
+export interface BatchTransaction {
+    label: string
+    call: ContractCall
+    summary: string
+}
+
+export interface BatchOptions<T> {
+    // Asked once for the whole batch; left out when the user already approved it, e.g. when resuming
+    confirmation?: Pick<TransactionConfirmation, "label" | "summary">
+    transaction: (item: T) => BatchTransaction
+    // Awaited before the item is sent, e.g. to show progress or record what is about to be signed
+    beforeSend?: (item: T) => void | Promise<void>
+    afterSend?: (item: T, outcome: TransactionOutcome) => void
+}
+
+export interface BatchResult<T> {
+    // False when the confirmation was declined, in which case nothing was sent
+    approved: boolean
+    confirmed: T[]
+    failed: T[]
+    // Items left unsent, including the one whose prompt was rejected
+    skipped: T[]
+    stoppedBy: "rejection" | "stop" | null
+}
+
+export interface TransactionManager {
+    transactions: TrackedTransaction[]
+    toasts: Toast[]
+    confirmation: TransactionConfirmation | null
+    sendTransaction: (
+        label: string,
+        call: ContractCall,
+        options?: SendOptions
+    ) => Promise<ethers.providers.TransactionReceipt | null>
+    // Sends one transaction per item, one wallet prompt at a time. A failed item doesn't stop the rest, but
+    // a rejected prompt or stopBatch does, after the transaction being signed
+    sendTransactionBatch: <T>(items: T[], options: BatchOptions<T>) => Promise<BatchResult<T>>
+    stopBatch: () => void
+    requestConfirmation: (request: TransactionConfirmation) => Promise<boolean>
+    respondToConfirmation: (approved: boolean) => void
+    notify: (message: string, type?: ToastType) => void
+    dismissToast: (id: number) => void
+    clearTransactions: () => void
+}
+
+const STORAGE_KEY = "energy-dapp:transactions"
+
+// Only the most recent transactions are kept in the drawer and in storage
+const MAX_TRACKED_TRANSACTIONS = 20
+
+// Confirmations are followed up to this depth, after which a transaction is considered settled
+const CONFIRMATION_TARGET = 12
+
+const TOAST_DURATION = 5000
+
+const loadTransactions = (): TrackedTransaction[] => {
+    try {
+        const stored = window.localStorage.getItem(STORAGE_KEY)
+        return stored ? JSON.parse(stored) : []
+    } catch (error) {
+        console.error("Error reading stored transactions:", error)
+        return []
+    }
+}
+
+// EIP-1193 code 4001, which ethers reports as ACTION_REJECTED
+const isRejection = (error: unknown): boolean => {
+    const { code } = error as { code?: number | string }
+    return code === 4001 || code === "ACTION_REJECTED"
+}
+
+// Pulls a readable message out of wallet and ethers errors
+export const getErrorMessage = (error: unknown): string => {
+    if (isRejection(error)) {
+        return "Transaction rejected in wallet"
+    }
+    const err = error as { reason?: string; message?: string }
+    return err.reason || err.message || "Unknown error"
+}
+
+// Tracks submitted transactions through to confirmation and reports progress as toasts
+export const useTransactionManager = (
+    provider: ethers.providers.Provider | null,
+    chainId: string
+): TransactionManager => {
+    const [transactions, setTransactions] = useState<TrackedTransaction[]>([])
+    const [toasts, setToasts] = useState<Toast[]>([])
+    const [confirmation, setConfirmation] = useState<TransactionConfirmation | null>(null)
+    const [hasLoaded, setHasLoaded] = useState<boolean>(false)
+    const nextToastId = useRef<number>(0)
+    const attachedHashes = useRef<Set<string>>(new Set())
+    const resolveConfirmation = useRef<((approved: boolean) => void) | null>(null)
+    const stopRequested = useRef<boolean>(false)
+
+    const updateTransaction = useCallback((hash: string, changes: Partial<TrackedTransaction>) => {
+        setTransactions((prev) => prev.map((tx) => (tx.hash === hash ? { ...tx, ...changes } : tx)))
+    }, [])
+
+    const dismissToast = useCallback((id: number) => {
+        setToasts((prev) => prev.filter((toast) => toast.id !== id))
+    }, [])
+
+    const notify = useCallback(
+        (message: string, type: ToastType = "info") => {
+            const id = nextToastId.current++
+            setToasts((prev) => [...prev, { id, type, message }])
+            setTimeout(() => dismissToast(id), TOAST_DURATION)
+        },
+        [dismissToast]
+    )
+
+    const settle = useCallback(
+        (tx: TrackedTransaction, receipt: ethers.providers.TransactionReceipt) => {
+            if (receipt.status === 0) {
+                updateTransaction(tx.hash, { status: "failed", confirmations: receipt.confirmations })
+                notify(`${tx.label} failed`, "error")
+            } else {
+                updateTransaction(tx.hash, { status: "confirmed", confirmations: receipt.confirmations })
+                notify(`${tx.label} confirmed`, "success")
+            }
+        },
+        [notify, updateTransaction]
+    )
+
+    const requestConfirmation = useCallback((request: TransactionConfirmation) => {
+        // A newer request replaces one that was left open
+        resolveConfirmation.current?.(false)
+        setConfirmation(request)
+        return new Promise<boolean>((resolve) => {
+            resolveConfirmation.current = resolve
+        })
+    }, [])
+
+    const respondToConfirmation = useCallback((approved: boolean) => {
+        resolveConfirmation.current?.(approved)
+        resolveConfirmation.current = null
+        setConfirmation(null)
+    }, [])
+
+    const submitTransaction = useCallback(
+        async (label: string, call: ContractCall, options: SendOptions = {}): Promise<TransactionOutcome> => {
+            // Dry run first, so a failing call is explained before anything is signed
+            let request: TransactionConfirmation
+            try {
+                const { gasLimit, gasCost } = await simulateCall(call)
+                request = { label, summary: options.summary ?? label, gasLimit, gasCost }
+            } catch (error) {
+                console.error(`Dry run of "${label}" failed:`, error)
+                const revert = decodeRevert(error)
+                if (revert && options.onRevert) {
+                    options.onRevert(revert)
+                } else {
+                    notify(`${label}: ${revert?.message ?? getErrorMessage(error)}`, "error")
+                }
+                return { status: "failed" }
+            }
+
+            if (!options.skipConfirmation && !(await requestConfirmation(request))) return { status: "rejected" }
+
+            let tx: ethers.ContractTransaction
+            try {
+                tx = await sendCall(call)
+            } catch (error) {
+                console.error(`Error submitting "${label}":`, error)
+                notify(`${label}: ${getErrorMessage(error)}`, "error")
+                return { status: isRejection(error) ? "rejected" : "failed" }
+            }
+
+            const tracked: TrackedTransaction = {
+                hash: tx.hash,
+                label,
+                chainId,
+                status: "pending",
+                confirmations: 0,
+                submittedAt: Date.now(),
+            }
+            attachedHashes.current.add(tx.hash)
+            setTransactions((prev) => [tracked, ...prev].slice(0, MAX_TRACKED_TRANSACTIONS))
+            notify(`${label} submitted`)
+
+            try {
+                const receipt = await tx.wait()
+                settle(tracked, receipt)
+                return { status: "confirmed", receipt }
+            } catch (error) {
+                // A reverted transaction rejects wait() with the receipt attached
+                console.error(`Error confirming "${label}":`, error)
+                const message = decodeRevert(error)?.message ?? getErrorMessage(error)
+                updateTransaction(tx.hash, { status: "failed", error: message })
+                notify(`${label} failed: ${message}`, "error")
+                return { status: "failed" }
+            }
+        },
+        [chainId, notify, settle, updateTransaction, requestConfirmation]
+    )
+
+    const sendTransaction = useCallback(
+        async (label: string, call: ContractCall, options: SendOptions = {}) => {
+            const outcome = await submitTransaction(label, call, options)
+            return outcome.status === "confirmed" ? outcome.receipt : null
+        },
+        [submitTransaction]
+    )
+
+    const sendTransactionBatch = useCallback(
+        async <T>(items: T[], options: BatchOptions<T>): Promise<BatchResult<T>> => {
+            const result: BatchResult<T> = { approved: false, confirmed: [], failed: [], skipped: [], stoppedBy: null }
+            if (
+                options.confirmation &&
+                !(await requestConfirmation({ ...options.confirmation, gasLimit: null, gasCost: null }))
+            ) {
+                return result
+            }
+
+            result.approved = true
+            stopRequested.current = false
+            for (const [index, item] of items.entries()) {
+                if (stopRequested.current) {
+                    result.stoppedBy = "stop"
+                    result.skipped = items.slice(index)
+                    break
+                }
+
+                await options.beforeSend?.(item)
+                const { label, call, summary } = options.transaction(item)
+                const outcome = await submitTransaction(label, call, { summary, skipConfirmation: true })
+                options.afterSend?.(item, outcome)
+                if (outcome.status === "rejected") {
+                    result.stoppedBy = "rejection"
+                    result.skipped = items.slice(index)
+                    break
+                }
+                result[outcome.status].push(item)
+            }
+            return result
+        },
+        [requestConfirmation, submitTransaction]
+    )
+
+    const stopBatch = useCallback(() => {
+        stopRequested.current = true
+    }, [])
+
+    const clearTransactions = useCallback(() => {
+        // Pending transactions stay so they can still be followed
+        setTransactions((prev) => prev.filter((tx) => tx.status === "pending"))
+    }, [])
+
+    // Restore transactions from the previous session
+    useEffect(() => {
+        setTransactions(loadTransactions())
+        setHasLoaded(true)
+    }, [])
+
+    useEffect(() => {
+        if (!hasLoaded) return
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions))
+    }, [transactions, hasLoaded])
+
+    // Re-attach to transactions that were still pending when the page was left
+    useEffect(() => {
+        if (!provider || !chainId) return
+
+        transactions
+            .filter((tx) => tx.status === "pending" && tx.chainId === chainId && !attachedHashes.current.has(tx.hash))
+            .forEach((tx) => {
+                attachedHashes.current.add(tx.hash)
+                provider
+                    .waitForTransaction(tx.hash)
+                    .then((receipt) => settle(tx, receipt))
+                    .catch((error) => {
+                        console.error(`Error re-attaching to ${tx.hash}:`, error)
+                        attachedHashes.current.delete(tx.hash)
+                    })
+            })
+    }, [provider, chainId, transactions, settle])
+
+    // Follow confirmations of recently mined transactions as new blocks arrive
+    useEffect(() => {
+        if (!provider || !chainId) return
+
+        const handleBlock = async () => {
+            const confirming = transactions.filter(
+                (tx) => tx.status === "confirmed" && tx.chainId === chainId && tx.confirmations < CONFIRMATION_TARGET
+            )
+            for (const tx of confirming) {
+                try {
+                    const receipt = await provider.getTransactionReceipt(tx.hash)
+                    if (receipt) updateTransaction(tx.hash, { confirmations: receipt.confirmations })
+                } catch (error) {
+                    console.error(`Error fetching receipt for ${tx.hash}:`, error)
+                }
+            }
+        }
+
+        provider.on("block", handleBlock)
+        return () => {
+            provider.off("block", handleBlock)
+        }
+    }, [provider, chainId, transactions, updateTransaction])
+
+    return {
+        transactions,
+        toasts,
+        confirmation,
+        sendTransaction,
+        sendTransactionBatch,
+        stopBatch,
+        requestConfirmation,
+        respondToConfirmation,
+        notify,
+        dismissToast,
+        clearTransactions,
+    }
+}
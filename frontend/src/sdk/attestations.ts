@@ -0,0 +1,195 @@
+import { ethers } from "ethers"
+import { EnergyClient } from "./client"
+import { Certificate, CertificateRedemption } from "./types"
+
+/**
+ * Redemption attestations are EIP-712 statements, signed by the redeemer's wallet, that a certificate was
+ * redeemed in a given transaction. Anyone can check the signature offline and the claims against the chain.
+ */
+
+export const ATTESTATION_VERSION = 1
+
+export interface RedemptionAttestation {
+    version: number
+    chainId: number
+    certificateContract: string
+    certificateId: number
+    energyAmount: number
+    energySource: string
+    location: string
+    // ISO 8601
+    issuanceDate: string
+    redeemer: string
+    txHash: string
+    blockNumber: number
+    // ISO 8601
+    redeemedAt: string
+}
+
+export interface SignedRedemptionAttestation {
+    attestation: RedemptionAttestation
+    signature: string
+}
+
+const ATTESTATION_TYPES: Record<string, ethers.TypedDataField[]> = {
+    RedemptionAttestation: [
+        { name: "version", type: "uint256" },
+        { name: "certificateId", type: "uint256" },
+        { name: "energyAmount", type: "uint256" },
+        { name: "energySource", type: "string" },
+        { name: "location", type: "string" },
+        { name: "issuanceDate", type: "string" },
+        { name: "redeemer", type: "address" },
+        { name: "txHash", type: "bytes32" },
+        { name: "blockNumber", type: "uint256" },
+        { name: "redeemedAt", type: "string" },
+    ],
+}
+
+// Binding the domain to the chain and certificate contract keeps a signature from being replayed elsewhere
+const attestationDomain = (attestation: RedemptionAttestation): ethers.TypedDataDomain => ({
+    name: "Renewable Certificate Redemption",
+    version: String(attestation.version),
+    chainId: attestation.chainId,
+    verifyingContract: attestation.certificateContract,
+})
+
+export const buildRedemptionAttestation = (
+    certificate: Certificate,
+    redemption: CertificateRedemption,
+    chainId: number,
+    certificateContract: string
+): RedemptionAttestation => ({
+    version: ATTESTATION_VERSION,
+    chainId,
+    certificateContract: ethers.utils.getAddress(certificateContract),
+    certificateId: certificate.id,
+    energyAmount: certificate.energyAmount,
+    energySource: certificate.energySource,
+    location: certificate.location,
+    issuanceDate: certificate.issuanceDate.toISOString(),
+    redeemer: ethers.utils.getAddress(redemption.redeemer),
+    txHash: redemption.txHash,
+    blockNumber: redemption.blockNumber,
+    redeemedAt: redemption.timestamp.toISOString(),
+})
+
+export const signRedemptionAttestation = async (
+    signer: ethers.providers.JsonRpcSigner,
+    attestation: RedemptionAttestation
+): Promise<SignedRedemptionAttestation> => ({
+    attestation,
+    signature: await signer._signTypedData(attestationDomain(attestation), ATTESTATION_TYPES, attestation),
+})
+
+export const recoverAttestationSigner = ({ attestation, signature }: SignedRedemptionAttestation): string =>
+    ethers.utils.verifyTypedData(attestationDomain(attestation), ATTESTATION_TYPES, attestation, signature)
+
+// Checks the shape of pasted or uploaded JSON; returns null when it isn't a signed attestation
+export const parseSignedAttestation = (json: string): SignedRedemptionAttestation | null => {
+    try {
+        const parsed = JSON.parse(json)
+        const attestation = parsed?.attestation
+        if (typeof parsed?.signature !== "string" || typeof attestation !== "object" || attestation === null) {
+            return null
+        }
+        const numbers = ["version", "chainId", "certificateId", "energyAmount", "blockNumber"]
+        const strings = [
+            "certificateContract",
+            "energySource",
+            "location",
+            "issuanceDate",
+            "redeemer",
+            "txHash",
+            "redeemedAt",
+        ]
+        if (!numbers.every((key) => Number.isInteger(attestation[key]))) return null
+        if (!strings.every((key) => typeof attestation[key] === "string")) return null
+        return { attestation, signature: parsed.signature }
+    } catch {
+        return null
+    }
+}
+
+export interface AttestationCheck {
+    label: string
+    passed: boolean
+    detail: string
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+/**
+ * Checks the signature, then re-reads the certificate and its redemption from the chain the client is on.
+ * The attestation only holds if every check passes.
+ */
+export const verifyRedemptionAttestation = async (
+    client: EnergyClient,
+    chainId: number,
+    signed: SignedRedemptionAttestation
+): Promise<AttestationCheck[]> => {
+    const { attestation } = signed
+    const checks: AttestationCheck[] = []
+
+    let signer = ""
+    try {
+        signer = recoverAttestationSigner(signed)
+    } catch (error) {
+        console.error("Error recovering attestation signer:", error)
+    }
+    checks.push({
+        label: "Signed by the redeemer",
+        passed: !!signer && sameAddress(signer, attestation.redeemer),
+        detail: signer ? `Signature recovers to ${signer}` : "The signature is malformed",
+    })
+
+    const isSameDeployment =
+        attestation.chainId === chainId &&
+        sameAddress(attestation.certificateContract, client.renewableCertificate.address)
+    checks.push({
+        label: "Issued on this network",
+        passed: isSameDeployment,
+        detail: `Attestation is for contract ${attestation.certificateContract} on chain ${attestation.chainId}; connected to ${client.renewableCertificate.address} on chain ${chainId}`,
+    })
+    // The remaining checks would read a different contract's certificates
+    if (!isSameDeployment) return checks
+
+    const [certificate, redemption] = await Promise.all([
+        client.getCertificate(attestation.certificateId),
+        client.getCertificateRedemption(attestation.certificateId),
+    ])
+    checks.push({
+        label: "Certificate is redeemed",
+        passed: !certificate.isValid && certificate.owner !== ethers.constants.AddressZero,
+        detail:
+            certificate.owner === ethers.constants.AddressZero
+                ? "No such certificate"
+                : `getCertificateDetails reports isValid = ${certificate.isValid}`,
+    })
+    checks.push({
+        label: "Held by the redeemer",
+        passed: sameAddress(certificate.owner, attestation.redeemer),
+        detail: `Owner on chain is ${certificate.owner}`,
+    })
+    checks.push({
+        label: "Certificate details match",
+        passed:
+            certificate.energyAmount === attestation.energyAmount &&
+            certificate.energySource === attestation.energySource &&
+            certificate.location === attestation.location &&
+            certificate.issuanceDate.toISOString() === attestation.issuanceDate,
+        detail: `${certificate.energyAmount} kWh ${certificate.energySource} from ${certificate.location}, issued ${certificate.issuanceDate.toISOString()}`,
+    })
+    checks.push({
+        label: "Redemption transaction matches",
+        passed:
+            !!redemption &&
+            redemption.txHash === attestation.txHash &&
+            redemption.blockNumber === attestation.blockNumber &&
+            sameAddress(redemption.redeemer, attestation.redeemer),
+        detail: redemption
+            ? `Redeemed by ${redemption.redeemer} in ${redemption.txHash} (block ${redemption.blockNumber})`
+            : "No CertificateRedeemed event found",
+    })
+    return checks
+}
@@ -0,0 +1,39 @@
+import { ethers } from "ethers"
+
+// A contract write that hasn't been sent yet, so it can be dry-run and confirmed first
+export interface ContractCall {
+    contract: ethers.Contract
+    method: string
+    args: unknown[]
+    value?: ethers.BigNumber
+}
+
+export interface CallSimulation {
+    gasLimit: ethers.BigNumber
+    // Unknown when the node doesn't report a gas price
+    gasCost: ethers.BigNumber | null
+}
+
+export const contractCall = (contract: ethers.Contract, method: string, ...args: unknown[]): ContractCall => ({
+    contract,
+    method,
+    args,
+})
+
+const toOverrides = (call: ContractCall): ethers.PayableOverrides => (call.value ? { value: call.value } : {})
+
+/**
+ * Runs the call against the current chain state without sending it. Rejects with the node's
+ * revert error if the transaction would fail, otherwise returns its gas estimate.
+ */
+export const simulateCall = async (call: ContractCall): Promise<CallSimulation> => {
+    const overrides = toOverrides(call)
+    await call.contract.callStatic[call.method](...call.args, overrides)
+    const gasLimit: ethers.BigNumber = await call.contract.estimateGas[call.method](...call.args, overrides)
+
+    const gasPrice = await call.contract.provider.getGasPrice().catch(() => null)
+    return { gasLimit, gasCost: gasPrice ? gasLimit.mul(gasPrice) : null }
+}
+
+export const sendCall = (call: ContractCall): Promise<ethers.ContractTransaction> =>
+    call.contract[call.method](...call.args, toOverrides(call))
@@ -0,0 +1,663 @@
+import { ethers } from "ethers"
+import EnergyLogger from "../artifacts/EnergyLogger.json"
+import RenewableCertificate from "../artifacts/RenewableCertificate.json"
+import EnergyTradeLedger from "../artifacts/EnergyTradeLedger.json"
+import { ContractCall, contractCall } from "./calls"
+import {
+    decodeCertificate,
+    decodeEnergyEvent,
+    decodeMarketMetrics,
+    decodeOffer,
+    decodeReading,
+    decodeRegionMarketMetrics,
+    decodeRegionMetrics,
+    decodeTrade,
+    decodeUserMetrics,
+    toDate,
+    toTimestamp,
+} from "./decode"
+import {
+    Certificate,
+    CertificateActivity,
+    CertificateProvenance,
+    CertificateRedemption,
+    ContractAddresses,
+    CustodyEvent,
+    EnergyEvent,
+    EnergyEventType,
+    LedgerSettings,
+    MarketMetrics,
+    Offer,
+    OfferFill,
+    Reading,
+    ReadingType,
+    RedeemedCertificate,
+    RegionMarketMetrics,
+    RegionMetrics,
+    RegionReading,
+    SellerOffer,
+    Trade,
+    TradeHistoryEntry,
+    TradePayment,
+    TradeStatus,
+    UserMetrics,
+    Verification,
+} from "./types"
+
+export interface OfferTerms {
+    energyAmount: number
+    pricePerUnit: ethers.BigNumber
+    minPurchaseAmount: number
+    expirationTime: Date
+}
+
+export interface NewOffer extends OfferTerms {
+    region: string
+    isCertified: boolean
+}
+
+export interface DirectTrade {
+    seller: string
+    buyer: string
+    energyAmount: number
+    pricePerUnit: ethers.BigNumber
+    region: string
+}
+
+export interface EnergyClient {
+    energyLogger: ethers.Contract
+    renewableCertificate: ethers.Contract
+    energyTrader: ethers.Contract
+
+    getUserRegion: (user: string) => Promise<string>
+    getUserMetrics: (user: string) => Promise<UserMetrics>
+    getReadingsCount: (user: string, readingType: ReadingType) => Promise<number>
+    getReading: (user: string, readingType: ReadingType, index: number) => Promise<Reading>
+    getReadings: (user: string, readingType: ReadingType) => Promise<Reading[]>
+    getRegionMetrics: (region: string) => Promise<RegionMetrics>
+    getRegionUsers: (region: string) => Promise<string[]>
+    // Every reading ever logged, oldest first, for charting regions over time
+    getRegionReadings: () => Promise<RegionReading[]>
+    // Every region anyone has registered in or listed an offer in, sorted by name
+    getRegions: () => Promise<string[]>
+    isVerifier: (address: string) => Promise<boolean>
+    getVerifications: (verifier?: string) => Promise<Verification[]>
+    getLoggerOwner: () => Promise<string>
+    // The current verifiers, replayed from VerifierAdded/VerifierRemoved on top of the owner
+    getVerifiers: () => Promise<string[]>
+
+    getCertificateCount: (owner: string) => Promise<number>
+    getCertificate: (id: number) => Promise<Certificate>
+    getOwnedCertificates: (owner: string) => Promise<Certificate[]>
+    getEnergyThreshold: () => Promise<number>
+    getCertificateActivity: (account: string) => Promise<CertificateActivity[]>
+    // Chain of custody from the certificate's events, traced back to the reading it was minted for
+    getCertificateProvenance: (id: number) => Promise<CertificateProvenance>
+    // Null while the certificate is still valid
+    getCertificateRedemption: (id: number) => Promise<CertificateRedemption | null>
+    // Certificates an account redeemed, oldest redemption first
+    getRedeemedCertificates: (redeemer: string) => Promise<RedeemedCertificate[]>
+
+    getOffer: (id: number) => Promise<Offer>
+    getOffers: (ids: number[]) => Promise<Offer[]>
+    getRegionOffers: (region: string) => Promise<Offer[]>
+    // Offers across all regions, found through their OfferCreated events
+    getAllOffers: () => Promise<Offer[]>
+    getSellerOffers: (seller: string) => Promise<Offer[]>
+    getSellerOfferHistory: (seller: string) => Promise<SellerOffer[]>
+    getTrade: (id: number) => Promise<Trade>
+    getTrades: (ids: number[]) => Promise<Trade[]>
+    getAccountTrades: (account: string) => Promise<TradeHistoryEntry[]>
+    getLedgerTrades: () => Promise<TradeHistoryEntry[]>
+    getMarketMetrics: () => Promise<MarketMetrics>
+    getRegionMarketMetrics: (region: string) => Promise<RegionMarketMetrics>
+    getPlatformFeeRate: () => Promise<number>
+    // ETH paid and received through accepted offers; direct trades from recordTrade move no ETH
+    getTradePayments: (account: string) => Promise<TradePayment[]>
+    getLedgerSettings: () => Promise<LedgerSettings>
+
+    // Calls the listener for every new watched event until the returned function is called
+    watchEvents: (listener: (event: EnergyEvent) => void) => () => void
+
+    // Writes are returned unsent, so they can be dry-run and confirmed before signing
+    registerUser: (region: string) => ContractCall
+    logConsumption: (amount: number, source: string) => ContractCall
+    logProduction: (amount: number, source: string, carbonOffset: number) => ContractCall
+    verifyReading: (user: string, readingType: ReadingType, index: number) => ContractCall
+    mintCertificate: (generator: string, energyAmount: number, energySource: string, location: string) => ContractCall
+    transferCertificate: (to: string, id: number) => ContractCall
+    redeemCertificate: (id: number) => ContractCall
+    createOffer: (offer: NewOffer) => ContractCall
+    updateOffer: (id: number, terms: OfferTerms) => ContractCall
+    cancelOffer: (id: number) => ContractCall
+    acceptOffer: (id: number, energyAmount: number, value: ethers.BigNumber) => ContractCall
+    completeTrade: (id: number) => ContractCall
+    cancelTrade: (id: number) => ContractCall
+    recordTrade: (trade: DirectTrade) => ContractCall
+
+    // Owner only
+    addVerifier: (verifier: string) => ContractCall
+    removeVerifier: (verifier: string) => ContractCall
+    setCertificateContract: (address: string) => ContractCall
+    setPlatformFeeRate: (feeRate: number) => ContractCall
+    setFeeRecipient: (recipient: string) => ContractCall
+    setLoggerContract: (address: string) => ContractCall
+    withdrawETH: () => ContractCall
+}
+
+const toIds = (ids: ethers.BigNumber[]): number[] => ids.map((id) => id.toNumber())
+
+const LEDGER_EVENTS: EnergyEventType[] = [
+    "OfferCreated",
+    "OfferUpdated",
+    "OfferCancelled",
+    "OfferAccepted",
+    "TradeCreated",
+    "TradeCompleted",
+    "TradeCancelled",
+]
+const CERTIFICATE_EVENTS: EnergyEventType[] = ["CertificateMinted", "CertificateTransferred", "CertificateRedeemed"]
+const LOGGER_EVENTS: EnergyEventType[] = ["ReadingVerified", "UserRegistered"]
+
+const byChainOrder = (a: ethers.Event, b: ethers.Event) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+
+/**
+ * Builds a typed client over the three deployed contracts. All BigNumber, enum and timestamp
+ * decoding happens here so components only ever deal with the domain types.
+ */
+export const createEnergyClient = (
+    addresses: ContractAddresses,
+    signerOrProvider: ethers.Signer | ethers.providers.Provider
+): EnergyClient => {
+    const energyLogger = new ethers.Contract(addresses.ENERGY_LOGGER, EnergyLogger.abi, signerOrProvider)
+    const renewableCertificate = new ethers.Contract(
+        addresses.RENEWABLE_CERTIFICATE,
+        RenewableCertificate.abi,
+        signerOrProvider
+    )
+    const energyTrader = new ethers.Contract(addresses.ENERGY_TRADER, EnergyTradeLedger.abi, signerOrProvider)
+
+    const getReadingsCount = async (user: string, readingType: ReadingType) => {
+        const count =
+            readingType === "production"
+                ? await energyLogger.getProductionLogsCount(user)
+                : await energyLogger.getConsumptionLogsCount(user)
+        return count.toNumber()
+    }
+
+    const getReading = async (user: string, readingType: ReadingType, index: number) => {
+        const result =
+            readingType === "production"
+                ? await energyLogger.getProductionLog(user, index)
+                : await energyLogger.getConsumptionLog(user, index)
+        return decodeReading(user, index, result)
+    }
+
+    // Events without a timestamp argument are dated by their block; each block is only fetched once
+    const blockTimes = new Map<number, Promise<Date>>()
+    const getLogTime = (log: ethers.Event) => {
+        const cached = blockTimes.get(log.blockNumber)
+        if (cached) return cached
+        const time = log.getBlock().then((block) => toDate(block.timestamp))
+        blockTimes.set(log.blockNumber, time)
+        // Let a failed lookup be retried
+        time.catch(() => blockTimes.delete(log.blockNumber))
+        return time
+    }
+
+    const decodeVerification = async (log: ethers.Event): Promise<Verification> => {
+        const { verifier, user, readingIndex, isProduction } = log.args as ethers.utils.Result
+        return {
+            verifier,
+            user,
+            readingIndex: readingIndex.toNumber(),
+            readingType: isProduction ? "production" : "consumption",
+            timestamp: await getLogTime(log),
+            txHash: log.transactionHash,
+        }
+    }
+
+    const decodeRedemption = async (log: ethers.Event): Promise<CertificateRedemption> => {
+        const { redeemer, certificateId } = log.args as ethers.utils.Result
+        return {
+            certificateId: certificateId.toNumber(),
+            redeemer,
+            txHash: log.transactionHash,
+            blockNumber: log.blockNumber,
+            timestamp: await getLogTime(log),
+        }
+    }
+
+    const getCertificate = async (id: number) => decodeCertificate(await renewableCertificate.getCertificateDetails(id))
+
+    const getOffer = async (id: number) => decodeOffer(await energyTrader.getOffer(id))
+    const getOffers = (ids: number[]) => Promise.all(ids.map(getOffer))
+
+    const getTrade = async (id: number) => decodeTrade(await energyTrader.getTrade(id))
+    const getTrades = (ids: number[]) => Promise.all(ids.map(getTrade))
+
+    // Creation and status-change logs give us the transaction of each trade and its final status
+    const getTradeHistory = async (tradeIds: number[], createdLogs: ethers.Event[]): Promise<TradeHistoryEntry[]> => {
+        const [completedLogs, cancelledLogs] = await Promise.all([
+            energyTrader.queryFilter(energyTrader.filters.TradeCompleted(tradeIds)),
+            energyTrader.queryFilter(energyTrader.filters.TradeCancelled(tradeIds)),
+        ])
+
+        const txHashes = new Map<number, string>()
+        createdLogs.forEach((log) => {
+            if (log.args) txHashes.set(log.args.tradeId.toNumber(), log.transactionHash)
+        })
+
+        const statusFromLogs = new Map<number, TradeStatus>()
+        completedLogs.forEach((log) => {
+            if (log.args) statusFromLogs.set(log.args.tradeId.toNumber(), TradeStatus.Completed)
+        })
+        cancelledLogs.forEach((log) => {
+            if (log.args) statusFromLogs.set(log.args.tradeId.toNumber(), TradeStatus.Cancelled)
+        })
+
+        const trades = await getTrades(tradeIds)
+        return trades.map((trade) => ({
+            ...trade,
+            status: statusFromLogs.get(trade.id) ?? trade.status,
+            txHash: txHashes.get(trade.id) ?? "",
+        }))
+    }
+
+    return {
+        energyLogger,
+        renewableCertificate,
+        energyTrader,
+
+        getUserRegion: (user) => energyLogger.userRegion(user),
+        getUserMetrics: async (user) => decodeUserMetrics(await energyLogger.userMetrics(user)),
+        getReadingsCount,
+        getReading,
+        getReadings: async (user, readingType) => {
+            const count = await getReadingsCount(user, readingType)
+            return Promise.all(Array.from({ length: count }, (_, index) => getReading(user, readingType, index)))
+        },
+        getRegionMetrics: async (region) => decodeRegionMetrics(await energyLogger.getRegionMetrics(region)),
+        getRegionUsers: async (region) => {
+            // regionUsers only has an indexed getter; the region's participant count is its length
+            const { participantCount } = decodeRegionMetrics(await energyLogger.getRegionMetrics(region))
+            return Promise.all(
+                Array.from({ length: participantCount }, (_, index) => energyLogger.regionUsers(region, index))
+            )
+        },
+        getRegionReadings: async () => {
+            const [registrations, production, consumption] = await Promise.all([
+                energyLogger.queryFilter(energyLogger.filters.UserRegistered()),
+                energyLogger.queryFilter(energyLogger.filters.ProductionLogged()),
+                energyLogger.queryFilter(energyLogger.filters.ConsumptionLogged()),
+            ])
+
+            // Users can move between regions, so registrations are replayed in chain order alongside the readings
+            const logs = [...registrations, ...production, ...consumption].sort(byChainOrder)
+            const userRegions = new Map<string, string>()
+            const readings: RegionReading[] = []
+            logs.forEach((log) => {
+                if (!log.args) return
+                const user: string = log.args.user
+                if (log.event === "UserRegistered") {
+                    userRegions.set(user, log.args.region)
+                    return
+                }
+                readings.push({
+                    region: userRegions.get(user) ?? "",
+                    user,
+                    readingType: log.event === "ProductionLogged" ? "production" : "consumption",
+                    amount: log.args.amount.toNumber(),
+                    timestamp: toDate(log.args.timestamp),
+                })
+            })
+            return readings
+        },
+        getRegions: async () => {
+            const [registrations, offers] = await Promise.all([
+                energyLogger.queryFilter(energyLogger.filters.UserRegistered()),
+                energyTrader.queryFilter(energyTrader.filters.OfferCreated()),
+            ])
+            const regions = [...registrations, ...offers].flatMap((log): string[] =>
+                log.args?.region ? [log.args.region] : []
+            )
+            return Array.from(new Set(regions)).sort()
+        },
+        isVerifier: (address) => energyLogger.verifiers(address),
+        getVerifications: async (verifier) => {
+            const logs = await energyLogger.queryFilter(energyLogger.filters.ReadingVerified(verifier ?? null))
+            return Promise.all(logs.filter((log) => log.args).map(decodeVerification))
+        },
+        getLoggerOwner: () => energyLogger.owner(),
+        getVerifiers: async () => {
+            const [owner, added, removed] = await Promise.all([
+                energyLogger.owner(),
+                energyLogger.queryFilter(energyLogger.filters.VerifierAdded()),
+                energyLogger.queryFilter(energyLogger.filters.VerifierRemoved()),
+            ])
+            const changes = [...added, ...removed].sort(byChainOrder)
+            // The constructor makes the owner a verifier without emitting VerifierAdded
+            const verifiers = new Set<string>([owner])
+            changes.forEach((log) => {
+                if (!log.args) return
+                if (log.event === "VerifierAdded") {
+                    verifiers.add(log.args.verifier)
+                } else {
+                    verifiers.delete(log.args.verifier)
+                }
+            })
+            return Array.from(verifiers)
+        },
+
+        getCertificateCount: async (owner) => (await renewableCertificate.getCertificates(owner)).toNumber(),
+        getCertificate,
+        getOwnedCertificates: async (owner) =>
+            Promise.all(toIds(await renewableCertificate.getOwnedCertificateIds(owner)).map(getCertificate)),
+        getEnergyThreshold: async () => (await renewableCertificate.ENERGY_THRESHOLD()).toNumber(),
+        getCertificateActivity: async (account) => {
+            const [minted, redeemed] = await Promise.all([
+                renewableCertificate.queryFilter(renewableCertificate.filters.CertificateMinted(account)),
+                renewableCertificate.queryFilter(renewableCertificate.filters.CertificateRedeemed(account)),
+            ])
+            return Promise.all(
+                [...minted, ...redeemed]
+                    .sort(byChainOrder)
+                    .filter((log) => log.args)
+                    .map(async (log) => {
+                        const args = log.args as ethers.utils.Result
+                        const activity: CertificateActivity = {
+                            certificateId: args.certificateId.toNumber(),
+                            kind: log.event === "CertificateMinted" ? "earned" : "redeemed",
+                            energyAmount: log.event === "CertificateMinted" ? args.energyAmount.toNumber() : null,
+                            timestamp: await getLogTime(log),
+                            txHash: log.transactionHash,
+                        }
+                        return activity
+                    })
+            )
+        },
+        getCertificateProvenance: async (id) => {
+            const [certificate, minted, transferred, redeemed] = await Promise.all([
+                getCertificate(id),
+                renewableCertificate.queryFilter(renewableCertificate.filters.CertificateMinted(null, id)),
+                renewableCertificate.queryFilter(renewableCertificate.filters.CertificateTransferred(null, null, id)),
+                renewableCertificate.queryFilter(renewableCertificate.filters.CertificateRedeemed(null, id)),
+            ])
+
+            const custody = await Promise.all(
+                [...minted, ...transferred, ...redeemed]
+                    .sort(byChainOrder)
+                    .filter((log) => log.args)
+                    .map(async (log): Promise<CustodyEvent> => {
+                        const args = log.args as ethers.utils.Result
+                        const timestamp = await getLogTime(log)
+                        const txHash = log.transactionHash
+                        if (log.event === "CertificateMinted") {
+                            return { kind: "minted", from: null, to: args.generator, timestamp, txHash }
+                        }
+                        if (log.event === "CertificateTransferred") {
+                            return { kind: "transferred", from: args.from, to: args.to, timestamp, txHash }
+                        }
+                        return { kind: "redeemed", from: args.redeemer, to: args.redeemer, timestamp, txHash }
+                    })
+            )
+
+            // A mint that went through verification shares its transaction with the ReadingVerified event
+            const mintLog = minted[0]
+            if (!mintLog) return { certificate, custody, origin: null }
+            const [verifiedLogs, blockMints] = await Promise.all([
+                energyLogger.queryFilter(
+                    energyLogger.filters.ReadingVerified(),
+                    mintLog.blockNumber,
+                    mintLog.blockNumber
+                ),
+                renewableCertificate.queryFilter(
+                    renewableCertificate.filters.CertificateMinted(),
+                    mintLog.blockNumber,
+                    mintLog.blockNumber
+                ),
+            ])
+            const verifiedLog = verifiedLogs.find(
+                (log) => log.transactionHash === mintLog.transactionHash && log.args?.isProduction
+            )
+            if (!verifiedLog) return { certificate, custody, origin: null }
+
+            const verification = await decodeVerification(verifiedLog)
+            // Each production reading emits one ProductionLogged, so the reading index picks out its event
+            const [reading, productionLogs] = await Promise.all([
+                getReading(verification.user, "production", verification.readingIndex),
+                energyLogger.queryFilter(energyLogger.filters.ProductionLogged(verification.user)),
+            ])
+            const readingLog = productionLogs.sort(byChainOrder)[verification.readingIndex]
+
+            return {
+                certificate,
+                custody,
+                origin: {
+                    reading,
+                    readingTxHash: readingLog?.transactionHash ?? "",
+                    verification,
+                    certificateIds: blockMints
+                        .filter((log) => log.transactionHash === mintLog.transactionHash && log.args)
+                        .map((log) => (log.args as ethers.utils.Result).certificateId.toNumber()),
+                },
+            }
+        },
+        getCertificateRedemption: async (id) => {
+            const [log] = await renewableCertificate.queryFilter(
+                renewableCertificate.filters.CertificateRedeemed(null, id)
+            )
+            return log?.args ? decodeRedemption(log) : null
+        },
+        getRedeemedCertificates: async (redeemer) => {
+            const logs = await renewableCertificate.queryFilter(
+                renewableCertificate.filters.CertificateRedeemed(redeemer)
+            )
+            return Promise.all(
+                logs
+                    .sort(byChainOrder)
+                    .filter((log) => log.args)
+                    .map(async (log) => {
+                        const redemption = await decodeRedemption(log)
+                        return { certificate: await getCertificate(redemption.certificateId), redemption }
+                    })
+            )
+        },
+
+        getOffer,
+        getOffers,
+        getRegionOffers: async (region) => getOffers(toIds(await energyTrader.getRegionOffers(region))),
+        getAllOffers: async () => {
+            const logs = await energyTrader.queryFilter(energyTrader.filters.OfferCreated())
+            return getOffers(logs.flatMap((log) => (log.args ? [log.args.offerId.toNumber()] : [])))
+        },
+        getSellerOffers: async (seller) => getOffers(toIds(await energyTrader.getSellerOffers(seller))),
+        getSellerOfferHistory: async (seller) => {
+            const offerIds = toIds(await energyTrader.getSellerOffers(seller))
+            if (offerIds.length === 0) return []
+
+            const [offers, acceptedLogs, cancelledLogs] = await Promise.all([
+                getOffers(offerIds),
+                energyTrader.queryFilter(energyTrader.filters.OfferAccepted(offerIds)),
+                energyTrader.queryFilter(energyTrader.filters.OfferCancelled(offerIds)),
+            ])
+
+            const fills = await Promise.all(
+                acceptedLogs
+                    .filter((log) => log.args)
+                    .sort(byChainOrder)
+                    .map(async (log): Promise<OfferFill> => {
+                        const args = log.args as ethers.utils.Result
+                        return {
+                            offerId: args.offerId.toNumber(),
+                            buyer: args.buyer,
+                            energyAmount: args.energyAmount.toNumber(),
+                            totalPrice: args.totalPrice,
+                            timestamp: await getLogTime(log),
+                            txHash: log.transactionHash,
+                        }
+                    })
+            )
+            const cancelledIds = new Set(
+                cancelledLogs.flatMap((log) => (log.args ? [log.args.offerId.toNumber()] : []))
+            )
+
+            return offers.map((offer) => ({
+                ...offer,
+                fills: fills.filter((fill) => fill.offerId === offer.id),
+                isCancelled: cancelledIds.has(offer.id),
+            }))
+        },
+        getTrade,
+        getTrades,
+        getAccountTrades: async (account) => {
+            const [sellerTradeIds, buyerTradeIds] = await Promise.all([
+                energyTrader.getSellerTrades(account),
+                energyTrader.getBuyerTrades(account),
+            ])
+
+            // A self-trade appears in both lists
+            const tradeIds = Array.from(new Set([...toIds(sellerTradeIds), ...toIds(buyerTradeIds)]))
+            if (tradeIds.length === 0) return []
+
+            const [soldLogs, boughtLogs] = await Promise.all([
+                energyTrader.queryFilter(energyTrader.filters.TradeCreated(null, account)),
+                energyTrader.queryFilter(energyTrader.filters.TradeCreated(null, null, account)),
+            ])
+            return getTradeHistory(tradeIds, [...soldLogs, ...boughtLogs])
+        },
+        getLedgerTrades: async () => {
+            const createdLogs = await energyTrader.queryFilter(energyTrader.filters.TradeCreated())
+            const tradeIds = createdLogs.flatMap((log) => (log.args ? [log.args.tradeId.toNumber()] : []))
+            if (tradeIds.length === 0) return []
+
+            return getTradeHistory(tradeIds, createdLogs)
+        },
+        getMarketMetrics: async () => decodeMarketMetrics(await energyTrader.getMarketMetrics()),
+        getRegionMarketMetrics: async (region) =>
+            decodeRegionMarketMetrics(await energyTrader.getRegionMarketMetrics(region)),
+        getPlatformFeeRate: async () => (await energyTrader.platformFeeRate()).toNumber(),
+        getTradePayments: async (account) => {
+            const offerIds = toIds(await energyTrader.getSellerOffers(account))
+            const [bought, sold, fees] = await Promise.all([
+                energyTrader.queryFilter(energyTrader.filters.OfferAccepted(null, account)),
+                offerIds.length > 0
+                    ? energyTrader.queryFilter(energyTrader.filters.OfferAccepted(offerIds))
+                    : Promise.resolve([]),
+                energyTrader.queryFilter(energyTrader.filters.PlatformFeeCollected()),
+            ])
+
+            // The fee is taken from the seller's share and reported by the same transaction
+            const feesByTx = new Map<string, ethers.BigNumber>()
+            fees.forEach((log) => {
+                if (log.args) feesByTx.set(log.transactionHash, log.args.amount)
+            })
+
+            const toPayment = async (log: ethers.Event, role: TradePayment["role"]): Promise<TradePayment> => {
+                const args = log.args as ethers.utils.Result
+                const fee = role === "seller" ? (feesByTx.get(log.transactionHash) ?? ethers.constants.Zero) : null
+                return {
+                    offerId: args.offerId.toNumber(),
+                    role,
+                    energyAmount: args.energyAmount.toNumber(),
+                    amount: fee ? args.totalPrice.sub(fee) : args.totalPrice,
+                    fee: fee ?? ethers.constants.Zero,
+                    timestamp: await getLogTime(log),
+                    txHash: log.transactionHash,
+                }
+            }
+
+            return Promise.all([
+                ...bought.filter((log) => log.args).map((log) => toPayment(log, "buyer")),
+                ...sold.filter((log) => log.args).map((log) => toPayment(log, "seller")),
+            ])
+        },
+        getLedgerSettings: async () => {
+            const [owner, platformFeeRate, feeRecipient, balance] = await Promise.all([
+                energyTrader.owner(),
+                energyTrader.platformFeeRate(),
+                energyTrader.feeRecipient(),
+                energyTrader.provider.getBalance(energyTrader.address),
+            ])
+            return { owner, platformFeeRate: platformFeeRate.toNumber(), feeRecipient, balance }
+        },
+
+        watchEvents: (listener) => {
+            const watched: [ethers.Contract, EnergyEventType[]][] = [
+                [energyTrader, LEDGER_EVENTS],
+                [renewableCertificate, CERTIFICATE_EVENTS],
+                [energyLogger, LOGGER_EVENTS],
+            ]
+
+            // ethers passes the event object as the last listener argument
+            const handler = (...args: unknown[]) => {
+                const decoded = decodeEnergyEvent(args[args.length - 1] as ethers.Event)
+                if (decoded) listener(decoded)
+            }
+
+            watched.forEach(([contract, eventNames]) => eventNames.forEach((name) => contract.on(name, handler)))
+            return () => {
+                watched.forEach(([contract, eventNames]) => eventNames.forEach((name) => contract.off(name, handler)))
+            }
+        },
+
+        registerUser: (region) => contractCall(energyLogger, "registerUser", region),
+        logConsumption: (amount, source) => contractCall(energyLogger, "logConsumption", amount, source),
+        logProduction: (amount, source, carbonOffset) =>
+            contractCall(energyLogger, "logProduction", amount, source, carbonOffset),
+        verifyReading: (user, readingType, index) =>
+            readingType === "production"
+                ? contractCall(energyLogger, "verifyProductionAndMintCertificate", user, index)
+                : contractCall(energyLogger, "verifyConsumption", user, index),
+        mintCertificate: (generator, energyAmount, energySource, location) =>
+            contractCall(renewableCertificate, "mintCertificate", generator, energyAmount, energySource, location),
+        transferCertificate: (to, id) => contractCall(renewableCertificate, "transferCertificate", to, id),
+        redeemCertificate: (id) => contractCall(renewableCertificate, "redeemCertificate", id),
+        createOffer: (offer) =>
+            contractCall(
+                energyTrader,
+                "createOffer",
+                offer.energyAmount,
+                offer.pricePerUnit,
+                offer.minPurchaseAmount,
+                toTimestamp(offer.expirationTime),
+                offer.region,
+                offer.isCertified
+            ),
+        updateOffer: (id, terms) =>
+            contractCall(
+                energyTrader,
+                "updateOffer",
+                id,
+                terms.energyAmount,
+                terms.pricePerUnit,
+                terms.minPurchaseAmount,
+                toTimestamp(terms.expirationTime)
+            ),
+        cancelOffer: (id) => contractCall(energyTrader, "cancelOffer", id),
+        acceptOffer: (id, energyAmount, value) => ({
+            ...contractCall(energyTrader, "acceptOffer", id, energyAmount),
+            value,
+        }),
+        completeTrade: (id) => contractCall(energyTrader, "completeTrade", id),
+        cancelTrade: (id) => contractCall(energyTrader, "cancelTrade", id),
+        recordTrade: (trade) =>
+            contractCall(
+                energyTrader,
+                "recordTrade",
+                trade.seller,
+                trade.buyer,
+                trade.energyAmount,
+                trade.pricePerUnit,
+                trade.region
+            ),
+
+        addVerifier: (verifier) => contractCall(energyLogger, "addVerifier", verifier),
+        removeVerifier: (verifier) => contractCall(energyLogger, "removeVerifier", verifier),
+        setCertificateContract: (address) => contractCall(energyLogger, "setCertificateContract", address),
+        setPlatformFeeRate: (feeRate) => contractCall(energyTrader, "setPlatformFeeRate", feeRate),
+        setFeeRecipient: (recipient) => contractCall(energyTrader, "setFeeRecipient", recipient),
+        setLoggerContract: (address) => contractCall(energyTrader, "setLoggerContract", address),
+        withdrawETH: () => contractCall(energyTrader, "withdrawETH"),
+    }
+}
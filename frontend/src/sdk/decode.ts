@@ -0,0 +1,182 @@
+import { ethers } from "ethers"
+import {
+    Certificate,
+    EnergyEvent,
+    MarketMetrics,
+    Offer,
+    Reading,
+    ReadingType,
+    RegionMarketMetrics,
+    RegionMetrics,
+    Trade,
+    TradeStatus,
+    UserMetrics,
+} from "./types"
+
+export const TRADE_STATUS_LABELS: Record<TradeStatus, string> = {
+    [TradeStatus.Open]: "Open",
+    [TradeStatus.Completed]: "Completed",
+    [TradeStatus.Cancelled]: "Cancelled",
+}
+
+// Contract timestamps are unix seconds
+export const toDate = (seconds: ethers.BigNumberish): Date => new Date(ethers.BigNumber.from(seconds).toNumber() * 1000)
+
+export const toTimestamp = (date: Date): number => Math.floor(date.getTime() / 1000)
+
+export const formatEth = (wei: ethers.BigNumberish): string => ethers.utils.formatEther(wei)
+
+export const parseEth = (ether: string): ethers.BigNumber => ethers.utils.parseEther(ether.trim())
+
+export const decodeCertificate = (result: ethers.utils.Result): Certificate => ({
+    id: result.id.toNumber(),
+    energyAmount: result.energyAmount.toNumber(),
+    issuanceDate: toDate(result.issuanceDate),
+    energySource: result.energySource,
+    location: result.location,
+    isValid: result.isValid,
+    owner: result.owner,
+})
+
+export const decodeOffer = (result: ethers.utils.Result): Offer => ({
+    id: result.id.toNumber(),
+    seller: result.seller,
+    energyAmount: result.energyAmount.toNumber(),
+    pricePerUnit: result.pricePerUnit,
+    minPurchaseAmount: result.minPurchaseAmount.toNumber(),
+    expirationTime: toDate(result.expirationTime),
+    region: result.region,
+    isCertified: result.isCertified,
+    isActive: result.isActive,
+})
+
+export const decodeTrade = (result: ethers.utils.Result): Trade => ({
+    id: result.id.toNumber(),
+    seller: result.seller,
+    buyer: result.buyer,
+    energyAmount: result.energyAmount.toNumber(),
+    pricePerUnit: result.pricePerUnit,
+    totalPrice: result.totalPrice,
+    timestamp: toDate(result.timestamp),
+    deliveryTime: toDate(result.deliveryTime),
+    region: result.region,
+    status: result.status.toNumber() as TradeStatus,
+    isCertified: result.isCertified,
+    certificateId: result.certificateId.toNumber(),
+})
+
+export const decodeReading = (user: string, index: number, result: ethers.utils.Result): Reading => ({
+    user,
+    index,
+    amount: result.amount.toNumber(),
+    timestamp: toDate(result.timestamp),
+    readingType: result.readingType as ReadingType,
+    source: result.source,
+    carbonOffset: result.carbonOffset.toNumber(),
+    reporter: result.reporter,
+    verified: result.verified,
+})
+
+export const decodeUserMetrics = (result: ethers.utils.Result): UserMetrics => ({
+    totalProduction: result.totalProduction.toNumber(),
+    totalConsumption: result.totalConsumption.toNumber(),
+    totalCarbonOffset: result.totalCarbonOffset.toNumber(),
+    lastUpdate: toDate(result.lastUpdateTimestamp),
+})
+
+export const decodeRegionMetrics = (result: ethers.utils.Result): RegionMetrics => ({
+    region: result.region,
+    totalProduction: result.totalProduction.toNumber(),
+    totalConsumption: result.totalConsumption.toNumber(),
+    participantCount: result.participantCount.toNumber(),
+    lastUpdate: toDate(result.lastUpdateTimestamp),
+})
+
+export const decodeMarketMetrics = (result: ethers.utils.Result): MarketMetrics => ({
+    totalTrades: result.totalTrades.toNumber(),
+    totalVolumeTraded: result.totalVolumeTraded.toNumber(),
+    totalValueTraded: result.totalValueTraded,
+    averagePrice: result.averagePrice,
+})
+
+export const decodeRegionMarketMetrics = (result: ethers.utils.Result): RegionMarketMetrics => ({
+    volume: result.volume.toNumber(),
+    value: result.value,
+    averagePrice: result.averagePrice,
+})
+
+export const decodeEnergyEvent = (event: ethers.Event): EnergyEvent | null => {
+    const args = event.args
+    if (!args) return null
+
+    const meta = { blockNumber: event.blockNumber, transactionHash: event.transactionHash }
+    switch (event.event) {
+        case "OfferCreated":
+            return {
+                ...meta,
+                type: "OfferCreated",
+                offerId: args.offerId.toNumber(),
+                seller: args.seller,
+                region: args.region,
+            }
+        case "OfferUpdated":
+            return { ...meta, type: "OfferUpdated", offerId: args.offerId.toNumber() }
+        case "OfferCancelled":
+            return { ...meta, type: "OfferCancelled", offerId: args.offerId.toNumber() }
+        case "OfferAccepted":
+            return {
+                ...meta,
+                type: "OfferAccepted",
+                offerId: args.offerId.toNumber(),
+                buyer: args.buyer,
+                energyAmount: args.energyAmount.toNumber(),
+            }
+        case "TradeCreated":
+            return {
+                ...meta,
+                type: "TradeCreated",
+                tradeId: args.tradeId.toNumber(),
+                seller: args.seller,
+                buyer: args.buyer,
+            }
+        case "TradeCompleted":
+            return { ...meta, type: "TradeCompleted", tradeId: args.tradeId.toNumber() }
+        case "TradeCancelled":
+            return { ...meta, type: "TradeCancelled", tradeId: args.tradeId.toNumber() }
+        case "CertificateMinted":
+            return {
+                ...meta,
+                type: "CertificateMinted",
+                certificateId: args.certificateId.toNumber(),
+                generator: args.generator,
+            }
+        case "CertificateTransferred":
+            return {
+                ...meta,
+                type: "CertificateTransferred",
+                certificateId: args.certificateId.toNumber(),
+                from: args.from,
+                to: args.to,
+            }
+        case "CertificateRedeemed":
+            return {
+                ...meta,
+                type: "CertificateRedeemed",
+                certificateId: args.certificateId.toNumber(),
+                redeemer: args.redeemer,
+            }
+        case "ReadingVerified":
+            return {
+                ...meta,
+                type: "ReadingVerified",
+                verifier: args.verifier,
+                user: args.user,
+                readingIndex: args.readingIndex.toNumber(),
+                readingType: args.isProduction ? "production" : "consumption",
+            }
+        case "UserRegistered":
+            return { ...meta, type: "UserRegistered", user: args.user, region: args.region }
+        default:
+            return null
+    }
+}
@@ -0,0 +1,139 @@
+import { ethers } from "ethers"
+
+export interface DecodedRevert {
+    // The raw require() message from the contract
+    reason: string
+    message: string
+    // The form field the failure is about, when there is one
+    field?: string
+}
+
+interface RevertDescription {
+    message: string
+    field?: string
+}
+
+// require() messages of the three contracts, phrased for the person filling in the form
+const REVERT_DESCRIPTIONS: Record<string, RevertDescription> = {
+    // EnergyLogger
+    "User must be registered to a region": {
+        field: "region",
+        message: "Register to a region before logging energy.",
+    },
+    "Only owner can call this function": { message: "Only the contract owner can do this." },
+    "Only verifiers can call this function": { message: "Only registered verifiers can do this." },
+    "Reading index out of bounds": { message: "That reading does not exist." },
+    "Reading already verified": { message: "That reading has already been verified." },
+    "Invalid verifier address": { field: "verifier", message: "Enter a valid verifier address." },
+    "Address is already a verifier": { field: "verifier", message: "This address is already a verifier." },
+    "Address is not a verifier": { field: "verifier", message: "This address is not a verifier." },
+    "Cannot remove owner as verifier": { field: "verifier", message: "The owner can't be removed as a verifier." },
+    "Invalid certificate contract address": {
+        field: "contractAddress",
+        message: "Enter a valid certificate contract address.",
+    },
+
+    // RenewableCertificate
+    "Invalid energy source": { field: "energySource", message: "This energy source isn't accepted for certificates." },
+    "Energy production below threshold": {
+        field: "energyAmount",
+        message: "A certificate needs at least 100 kWh of production.",
+    },
+    "Invalid recipient address": { field: "recipient", message: "Enter a valid recipient address." },
+    "You don't own this certificate": { message: "You don't own this certificate." },
+    "Certificate is no longer valid": { message: "This certificate has been redeemed and can't be transferred." },
+    "Certificate is already redeemed": { message: "This certificate has already been redeemed." },
+
+    // EnergyTradeLedger
+    "Energy amount must be positive": { field: "energyAmount", message: "Enter an amount greater than zero." },
+    "Price must be positive": { field: "pricePerUnit", message: "Enter a price greater than zero." },
+    "Invalid minimum purchase amount": {
+        field: "minPurchaseAmount",
+        message: "The minimum purchase must be between 1 kWh and the offered amount.",
+    },
+    "Expiration time must be in the future": { field: "expirationTime", message: "Pick an expiration in the future." },
+    "Insufficient certificates for certified energy offer": {
+        field: "isCertified",
+        message: "You don't hold enough certificates for a certified offer of this size (one per 100 kWh).",
+    },
+    "Offer does not exist": { message: "This offer does not exist." },
+    "Only seller can update offer": { message: "Only the seller can change this offer." },
+    "Only seller can cancel offer": { message: "Only the seller can cancel this offer." },
+    "Offer is not active": { message: "This offer is no longer active." },
+    "Offer has expired": { message: "This offer has expired." },
+    "Purchase amount below minimum": {
+        field: "purchaseAmount",
+        message: "The amount is below the offer's minimum purchase.",
+    },
+    "Purchase amount exceeds available energy": {
+        field: "purchaseAmount",
+        message: "The amount is more than the offer has left.",
+    },
+    "Insufficient payment": { field: "purchaseAmount", message: "The payment doesn't cover the total price." },
+    "Trade does not exist": { message: "This trade does not exist." },
+    "Only buyer can complete trade": { message: "Only the buyer can confirm delivery of this trade." },
+    "Trade is not open": { message: "This trade has already been completed or cancelled." },
+    Unauthorized: { message: "Only the buyer, the seller or the owner can cancel this trade." },
+    "Invalid addresses": { field: "buyer", message: "Enter a valid buyer address." },
+    "Fee rate cannot exceed 10%": { field: "feeRate", message: "The platform fee can be at most 10% (1000 bps)." },
+    "Invalid address": { field: "feeRecipient", message: "Enter a valid fee recipient address." },
+    "Invalid logger contract address": { field: "contractAddress", message: "Enter a valid logger contract address." },
+    "No ETH to withdraw": { message: "The ledger holds no ETH to withdraw." },
+}
+
+// Error(string) selector, used when the node hands back raw revert data
+const ERROR_SELECTOR = "0x08c379a0"
+
+const decodeRevertData = (data: unknown): string | null => {
+    if (typeof data !== "string" || !data.startsWith(ERROR_SELECTOR)) return null
+    try {
+        return ethers.utils.defaultAbiCoder.decode(["string"], ethers.utils.hexDataSlice(data, 4))[0]
+    } catch {
+        return null
+    }
+}
+
+// Wallets and nodes nest the revert message differently, so look everywhere it tends to end up
+const collectErrorTexts = (error: unknown, depth = 0): string[] => {
+    if (!error || typeof error !== "object" || depth > 3) return []
+
+    const err = error as Record<string, unknown>
+    const texts: string[] = []
+    for (const key of ["reason", "message"]) {
+        if (typeof err[key] === "string") texts.push(err[key] as string)
+    }
+
+    const decoded = decodeRevertData(err.data)
+    if (decoded) texts.push(decoded)
+
+    for (const key of ["error", "data", "originalError"]) {
+        texts.push(...collectErrorTexts(err[key], depth + 1))
+    }
+    return texts
+}
+
+/**
+ * Finds the require() reason behind a failed call or dry run. Returns null when the error
+ * isn't a revert of one of our contracts, e.g. a rejected signature or a network failure.
+ */
+export const decodeRevert = (error: unknown): DecodedRevert | null => {
+    const texts = collectErrorTexts(error)
+
+    // Longest first, so "Invalid address" doesn't shadow the more specific address reasons
+    const reasons = Object.keys(REVERT_DESCRIPTIONS).sort((a, b) => b.length - a.length)
+    for (const reason of reasons) {
+        if (texts.some((text) => text.includes(reason))) {
+            return { reason, ...REVERT_DESCRIPTIONS[reason] }
+        }
+    }
+    return null
+}
+
+/**
+ * Turns a revert into errors keyed by form field. Reasons about a field the form doesn't
+ * have are reported under "form".
+ */
+export const toFieldErrors = (revert: DecodedRevert, fields: string[]): Record<string, string> => {
+    const field = revert.field && fields.includes(revert.field) ? revert.field : "form"
+    return { [field]: revert.message }
+}
@@ -0,0 +1,191 @@
+import { ImportRow } from "./imports"
+import { PERIOD_LABELS, Period, periodStart } from "./periods"
+import { ReadingType } from "./types"
+
+/**
+ * Green Button (NAESB ESPI) exports: an Atom feed whose entries hold ReadingType, MeterReading and
+ * IntervalBlock resources, linked by their hrefs. Interval readings are turned into kWh per flow direction
+ * and summed into import rows, so they go through the same dry run and queue as CSV files.
+ */
+
+// Delivered to the customer, i.e. consumption
+const FLOW_FORWARD = "1"
+// Received from the customer, i.e. production fed to the grid
+const FLOW_REVERSE = "19"
+// Real energy in Wh; demand (W) and reactive (VArh) readings aren't energy the logger can take
+const UOM_WH = "72"
+
+// One IntervalReading, converted to kWh
+export interface EspiInterval {
+    readingType: ReadingType
+    start: Date
+    energy: number
+}
+
+export interface EspiParseResult {
+    intervals: EspiInterval[]
+    // Readings that aren't energy in Wh, have a flow other than forward or reverse, or are negative
+    skippedReadings: number
+}
+
+export type EspiGranularity = "interval" | "hour" | Period
+
+export const ESPI_GRANULARITY_LABELS: Record<EspiGranularity, string> = {
+    interval: "As metered",
+    hour: "Hourly",
+    ...PERIOD_LABELS,
+}
+
+interface EspiReadingType {
+    flowDirection: string
+    uom: string
+    powerOfTenMultiplier: number
+}
+
+// Files that leave these out are almost always plain consumption in Wh
+const DEFAULT_READING_TYPE: EspiReadingType = { flowDirection: FLOW_FORWARD, uom: UOM_WH, powerOfTenMultiplier: 0 }
+
+const descendants = (parent: Element | Document, name: string) => Array.from(parent.getElementsByTagNameNS("*", name))
+
+const childText = (parent: Element, name: string) => descendants(parent, name)[0]?.textContent?.trim() ?? ""
+
+const linkHrefs = (entry: Element, rel: string) =>
+    descendants(entry, "link")
+        .filter((link) => link.getAttribute("rel") === rel)
+        .map((link) => link.getAttribute("href") ?? "")
+
+const linkHref = (entry: Element, rel: string) => linkHrefs(entry, rel)[0] ?? ""
+
+// Hrefs of a MeterReading and the resources under it share this prefix
+const meterReadingPath = (href: string) => href.match(/^(.*\/MeterReading\/[^/]+)/)?.[1] ?? ""
+
+const readReadingType = (element: Element): EspiReadingType => ({
+    flowDirection: childText(element, "flowDirection") || DEFAULT_READING_TYPE.flowDirection,
+    uom: childText(element, "uom") || DEFAULT_READING_TYPE.uom,
+    powerOfTenMultiplier: Number(childText(element, "powerOfTenMultiplier")) || 0,
+})
+
+const toReadingType = (flowDirection: string): ReadingType | null =>
+    flowDirection === FLOW_FORWARD ? "consumption" : flowDirection === FLOW_REVERSE ? "production" : null
+
+// Returns null when the text isn't XML or has no interval readings
+export const parseEspiXml = (xml: string): EspiParseResult | null => {
+    const document = new DOMParser().parseFromString(xml, "application/xml")
+    if (document.getElementsByTagName("parsererror").length > 0) return null
+    if (descendants(document, "IntervalReading").length === 0) return null
+
+    // A lone resource outside of a feed is read as a single entry
+    const entries = descendants(document, "entry")
+    const resources = entries.length > 0 ? entries : [document.documentElement]
+
+    const readingTypes = new Map<string, EspiReadingType>()
+    const meterReadingTypes = new Map<string, string>()
+    resources.forEach((entry) => {
+        const readingType = descendants(entry, "ReadingType")[0]
+        if (readingType) readingTypes.set(linkHref(entry, "self"), readReadingType(readingType))
+        if (descendants(entry, "MeterReading").length > 0) {
+            // Besides its ReadingType, a MeterReading is also related to its IntervalBlock collection
+            const readingTypeHref = linkHrefs(entry, "related").find((href) => href.includes("/ReadingType/"))
+            meterReadingTypes.set(meterReadingPath(linkHref(entry, "self")), readingTypeHref ?? "")
+        }
+    })
+
+    // With a single ReadingType in the file, every block is read with it, however the links are written
+    const onlyReadingType = readingTypes.size === 1 ? Array.from(readingTypes.values())[0] : null
+    const blockReadingType = (entry: Element) => {
+        const path = meterReadingPath(linkHref(entry, "up") || linkHref(entry, "self"))
+        const href = meterReadingTypes.get(path)
+        return (href && readingTypes.get(href)) || onlyReadingType || DEFAULT_READING_TYPE
+    }
+
+    const intervals: EspiInterval[] = []
+    let skippedReadings = 0
+    resources.forEach((entry) => {
+        descendants(entry, "IntervalBlock").forEach((block) => {
+            const { flowDirection, uom, powerOfTenMultiplier } = blockReadingType(entry)
+            const readingType = toReadingType(flowDirection)
+            descendants(block, "IntervalReading").forEach((intervalReading) => {
+                const timePeriod = descendants(intervalReading, "timePeriod")[0]
+                const start = Number(timePeriod ? childText(timePeriod, "start") : "")
+                const value = Number(childText(intervalReading, "value"))
+                if (!readingType || uom !== UOM_WH || !timePeriod || !Number.isFinite(start) || !(value >= 0)) {
+                    skippedReadings++
+                    return
+                }
+                intervals.push({
+                    readingType,
+                    start: new Date(start * 1000),
+                    energy: (value * Math.pow(10, powerOfTenMultiplier)) / 1000,
+                })
+            })
+        })
+    })
+
+    return { intervals, skippedReadings }
+}
+
+const bucketStart = (date: Date, granularity: EspiGranularity): Date => {
+    if (granularity === "interval") return date
+    if (granularity === "hour") {
+        return new Date(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours())
+    }
+    return periodStart(date, granularity)
+}
+
+/**
+ * Sums intervals into one row per period and flow direction. The logger stores whole kWh, so each period
+ * is rounded with the remainder carried into the next one, keeping the total within half a kWh of the meter's.
+ * Periods that round to nothing become invalid rows, so the dry run shows where the energy went; in the last
+ * period there is nothing to carry it into, so it is reported as dropped.
+ */
+export const aggregateEspiIntervals = (
+    intervals: EspiInterval[],
+    granularity: EspiGranularity,
+    sources: Record<ReadingType, string>
+): ImportRow[] => {
+    // Rows of both flow directions, with the start of their period for ordering
+    const rows = (["consumption", "production"] as ReadingType[]).flatMap((readingType) => {
+        const buckets = new Map<number, number>()
+        intervals
+            .filter((interval) => interval.readingType === readingType)
+            .sort((a, b) => a.start.getTime() - b.start.getTime())
+            .forEach((interval) => {
+                const start = bucketStart(interval.start, granularity).getTime()
+                buckets.set(start, (buckets.get(start) ?? 0) + interval.energy)
+            })
+
+        let metered = 0
+        let logged = 0
+        return Array.from(buckets, ([start, energy], index): [number, Omit<ImportRow, "line">] => {
+            metered += energy
+            const amount = Math.round(metered) - logged
+            logged += amount
+            const timestamp = new Date(start)
+            if (amount > 0) {
+                return [
+                    start,
+                    {
+                        reading: { timestamp, readingType, amount, source: sources[readingType], carbonOffset: 0 },
+                        status: "ready",
+                        reason: "",
+                    },
+                ]
+            }
+            return [
+                start,
+                {
+                    reading: null,
+                    status: "invalid",
+                    reason:
+                        `${energy.toFixed(3)} kWh of ${readingType} from ${timestamp.toLocaleString()} is under 1 kWh once rounded; ` +
+                        (index < buckets.size - 1
+                            ? "carried into the next period"
+                            : `this is the last period, so the ${(metered - logged).toFixed(3)} kWh left over are dropped`),
+                },
+            ]
+        })
+    })
+
+    // Without file lines to point at, rows are numbered in time order
+    return rows.sort((a, b) => a[0] - b[0]).map(([, row], index) => ({ ...row, line: index + 1 }))
+}
@@ -0,0 +1,72 @@
+import { ethers } from "ethers"
+import { Offer } from "./types"
+
+// One acceptOffer call of a plan
+export interface PlannedFill {
+    offer: Offer
+    energyAmount: number
+    // What the buyer sends, in wei
+    cost: ethers.BigNumber
+    // The part of the cost the ledger passes to the fee recipient instead of the seller
+    fee: ethers.BigNumber
+}
+
+export interface FillPlan {
+    fills: PlannedFill[]
+    energyAmount: number
+    cost: ethers.BigNumber
+    fee: ethers.BigNumber
+    // kWh of the target that no offer could fill within the price limit
+    shortfall: number
+}
+
+// Mirrors the ledger's fee calculation, rounding down like Solidity does
+export const platformFee = (totalPrice: ethers.BigNumber, feeRateBps: number): ethers.BigNumber =>
+    totalPrice.mul(feeRateBps).div(10000)
+
+const byPrice = (a: Offer, b: Offer) =>
+    a.pricePerUnit.lt(b.pricePerUnit) ? -1 : a.pricePerUnit.gt(b.pricePerUnit) ? 1 : 0
+
+/**
+ * Fills a target amount from the cheapest offers up, without going over the price limit. An offer is
+ * skipped when what is left of the target is below its minimum purchase, so later offers with smaller
+ * minimums can still top it up. The buyer's own offers and expired ones are never used.
+ */
+export const planFills = (
+    offers: Offer[],
+    targetAmount: number,
+    maxPricePerUnit: ethers.BigNumber,
+    feeRateBps: number,
+    buyer: string,
+    now: number = Date.now()
+): FillPlan => {
+    const candidates = offers
+        .filter(
+            (offer) =>
+                offer.isActive &&
+                offer.expirationTime.getTime() > now &&
+                offer.seller.toLowerCase() !== buyer.toLowerCase() &&
+                offer.pricePerUnit.lte(maxPricePerUnit)
+        )
+        .sort((a, b) => byPrice(a, b) || a.expirationTime.getTime() - b.expirationTime.getTime())
+
+    const fills: PlannedFill[] = []
+    let remaining = targetAmount
+    for (const offer of candidates) {
+        if (remaining <= 0) break
+        if (remaining < offer.minPurchaseAmount) continue
+
+        const energyAmount = Math.min(remaining, offer.energyAmount)
+        const cost = offer.pricePerUnit.mul(energyAmount)
+        fills.push({ offer, energyAmount, cost, fee: platformFee(cost, feeRateBps) })
+        remaining -= energyAmount
+    }
+
+    return {
+        fills,
+        energyAmount: targetAmount - remaining,
+        cost: fills.reduce((sum, fill) => sum.add(fill.cost), ethers.constants.Zero),
+        fee: fills.reduce((sum, fill) => sum.add(fill.fee), ethers.constants.Zero),
+        shortfall: remaining,
+    }
+}
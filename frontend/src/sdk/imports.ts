@@ -0,0 +1,279 @@
+import { ENERGY_SOURCES, Reading, ReadingType } from "./types"
+
+/**
+ * Bulk import of meter readings. Files are parsed into rows, checked, and matched against the account's
+ * readings already on chain, before anything is sent. The logger stamps readings with their block time, so the
+ * metered timestamp of a row only serves to tell rows apart.
+ */
+
+// A reading to log, as read from an import file
+export interface MeterReading {
+    timestamp: Date
+    readingType: ReadingType
+    // Whole kWh, as the logger stores them
+    amount: number
+    source: string
+    // kg CO2; only logged for production
+    carbonOffset: number
+}
+
+export type ImportField = "timestamp" | "readingType" | "amount" | "source" | "carbonOffset"
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+    timestamp: "Timestamp",
+    readingType: "Type",
+    amount: "Amount (kWh)",
+    source: "Source",
+    carbonOffset: "Carbon offset (kg CO2)",
+}
+
+// Fields that must come from the file; the others fall back to ImportDefaults
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ["timestamp", "amount"]
+
+// Column index of each field, or null when the file doesn't have it
+export type ColumnMapping = Record<ImportField, number | null>
+
+export interface ImportDefaults {
+    readingType: ReadingType
+    // By reading type, since a file's type column can mix both
+    sources: Record<ReadingType, string>
+    carbonOffset: number
+}
+
+export type ImportRowStatus = "ready" | "invalid" | "duplicate"
+
+export interface ImportRow {
+    // Line in the CSV file, or position in other formats, for pointing users at the row
+    line: number
+    reading: MeterReading | null
+    status: ImportRowStatus
+    // Why an invalid or duplicate row won't be logged
+    reason: string
+}
+
+export interface ImportSummary {
+    ready: number
+    invalid: number
+    duplicate: number
+    productionAmount: number
+    consumptionAmount: number
+    // Metered time span of the rows to log
+    first: Date | null
+    last: Date | null
+}
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+    const records: string[][] = []
+    let record: string[] = []
+    let field = ""
+    let inQuotes = false
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"'
+                i++
+            } else if (char === '"') {
+                inQuotes = false
+            } else {
+                field += char
+            }
+        } else if (char === '"') {
+            inQuotes = true
+        } else if (char === ",") {
+            record.push(field)
+            field = ""
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++
+            record.push(field)
+            records.push(record)
+            record = []
+            field = ""
+        } else {
+            field += char
+        }
+    }
+    if (field || record.length > 0) {
+        record.push(field)
+        records.push(record)
+    }
+    return records
+}
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+    timestamp: ["timestamp", "time", "date", "datetime", "start", "period start", "interval start"],
+    readingType: ["type", "reading type", "direction", "flow"],
+    amount: ["amount", "kwh", "energy", "value", "usage", "reading"],
+    source: ["source", "category", "meter"],
+    carbonOffset: ["carbon offset", "carbonoffset", "co2", "offset", "carbon"],
+}
+
+const normalizeHeader = (header: string) =>
+    header
+        .toLowerCase()
+        .replace(/\(.*?\)/g, "")
+        .replace(/[_-]/g, " ")
+        .trim()
+
+// Matches headers to fields by common names; unmatched fields are left for the user to map
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+    const normalized = headers.map(normalizeHeader)
+    return Object.fromEntries(
+        (Object.keys(HEADER_ALIASES) as ImportField[]).map((field) => {
+            const index = normalized.findIndex((header) => HEADER_ALIASES[field].includes(header))
+            return [field, index === -1 ? null : index]
+        })
+    ) as ColumnMapping
+}
+
+const parseTimestamp = (value: string): Date | null => {
+    // Unix time in seconds, or in milliseconds when it is too large to be seconds
+    if (/^\d+$/.test(value)) {
+        const number = Number(value)
+        return new Date(number < 1e11 ? number * 1000 : number)
+    }
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? null : date
+}
+
+const parseReadingType = (value: string): ReadingType | null => {
+    const normalized = value.toLowerCase()
+    if (["production", "produced", "generation", "export", "p"].includes(normalized)) return "production"
+    if (["consumption", "consumed", "usage", "import", "c"].includes(normalized)) return "consumption"
+    return null
+}
+
+const readRecord = (
+    record: string[],
+    mapping: ColumnMapping,
+    defaults: ImportDefaults
+): { reading: MeterReading | null; reason: string } => {
+    const cell = (field: ImportField) => {
+        const index = mapping[field]
+        return index === null ? "" : (record[index] ?? "").trim()
+    }
+
+    const timestamp = parseTimestamp(cell("timestamp"))
+    if (!timestamp) return { reading: null, reason: `"${cell("timestamp")}" isn't a date` }
+
+    const typeCell = cell("readingType")
+    const readingType = typeCell ? parseReadingType(typeCell) : defaults.readingType
+    if (!readingType) return { reading: null, reason: `"${typeCell}" isn't production or consumption` }
+
+    const amountCell = cell("amount")
+    const amount = Number(amountCell)
+    if (!amountCell || !Number.isInteger(amount) || amount <= 0) {
+        return { reading: null, reason: `"${amountCell}" isn't a whole number of kWh above zero` }
+    }
+
+    const offsetCell = cell("carbonOffset")
+    const carbonOffset = offsetCell ? Number(offsetCell) : defaults.carbonOffset
+    if (!Number.isInteger(carbonOffset) || carbonOffset < 0) {
+        return { reading: null, reason: `"${offsetCell}" isn't a whole number of kg CO2` }
+    }
+
+    // Production is checked against the certificate contract's sources, or its verification would revert
+    const sourceCell = cell("source") || defaults.sources[readingType]
+    const source = readingType === "production" ? sourceCell.toLowerCase() : sourceCell
+    if (readingType === "production" && !ENERGY_SOURCES.includes(source)) {
+        return {
+            reading: null,
+            reason: `"${sourceCell}" isn't a renewable source certificates can be issued for (${ENERGY_SOURCES.join(", ")})`,
+        }
+    }
+
+    return {
+        reading: {
+            timestamp,
+            readingType,
+            amount,
+            source,
+            carbonOffset: readingType === "production" ? carbonOffset : 0,
+        },
+        reason: "",
+    }
+}
+
+// Reads CSV records with the given mapping; blank lines are dropped and lines are counted from 1
+export const readCsvRows = (
+    records: string[][],
+    mapping: ColumnMapping,
+    defaults: ImportDefaults,
+    hasHeader: boolean
+): ImportRow[] =>
+    records.flatMap((record, index): ImportRow[] => {
+        if ((hasHeader && index === 0) || record.every((cell) => !cell.trim())) return []
+        const { reading, reason } = readRecord(record, mapping, defaults)
+        return [{ line: index + 1, reading, status: reading ? "ready" : "invalid", reason }]
+    })
+
+// Identifies a metered reading across files and imports
+export const meterReadingKey = (reading: MeterReading) =>
+    `${reading.readingType}|${reading.timestamp.toISOString()}|${reading.amount}|${reading.source}`
+
+// Whether the reading at an index of an account's on-chain log is the one an import logged there
+export const matchesLoggedReading = (logged: Reading | undefined, reading: Pick<MeterReading, "amount" | "source">) =>
+    !!logged && logged.amount === reading.amount && logged.source === reading.source
+
+/**
+ * Marks rows repeated within the file, and rows already on chain, as duplicates. `logged` maps the keys of
+ * readings an earlier import logged to a description of where, and should only hold readings still on chain.
+ * `unclaimed` are the account's other on-chain readings: they don't record when they were metered, so a row
+ * matches one by type, amount and source if it was logged no earlier than the row was metered, and each of
+ * them matches one row at most.
+ */
+export const markDuplicates = (rows: ImportRow[], logged: Map<string, string>, unclaimed: Reading[]): ImportRow[] => {
+    const seen = new Map<string, number>()
+    const marked = rows.map((row): ImportRow => {
+        if (row.status !== "ready" || !row.reading) return row
+        const key = meterReadingKey(row.reading)
+        const loggedAs = logged.get(key)
+        if (loggedAs) return { ...row, status: "duplicate", reason: `Already logged as ${loggedAs}` }
+        const firstLine = seen.get(key)
+        if (firstLine !== undefined) return { ...row, status: "duplicate", reason: `Same reading as line ${firstLine}` }
+        seen.set(key, row.line)
+        return row
+    })
+
+    // Latest metered first: a row can take any reading a later row can, so none is left without one it could have
+    const available = [...unclaimed].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    marked
+        .flatMap((row, index) => (row.status === "ready" && row.reading ? [{ index, reading: row.reading }] : []))
+        .sort((a, b) => b.reading.timestamp.getTime() - a.reading.timestamp.getTime())
+        .forEach(({ index, reading }) => {
+            const match = available.findIndex(
+                (onChain) =>
+                    onChain.readingType === reading.readingType &&
+                    matchesLoggedReading(onChain, reading) &&
+                    onChain.timestamp.getTime() >= reading.timestamp.getTime()
+            )
+            if (match === -1) return
+            const [onChain] = available.splice(match, 1)
+            marked[index] = {
+                ...marked[index],
+                status: "duplicate",
+                reason: `Same amount and source as ${onChain.readingType} reading #${onChain.index}, logged ${onChain.timestamp.toLocaleString()}`,
+            }
+        })
+    return marked
+}
+
+export const summarizeImport = (rows: ImportRow[]): ImportSummary => {
+    const readings = rows.flatMap((row) => (row.status === "ready" && row.reading ? [row.reading] : []))
+    const times = readings.map((reading) => reading.timestamp.getTime())
+    const total = (readingType: ReadingType) =>
+        readings
+            .filter((reading) => reading.readingType === readingType)
+            .reduce((sum, reading) => sum + reading.amount, 0)
+    return {
+        ready: readings.length,
+        invalid: rows.filter((row) => row.status === "invalid").length,
+        duplicate: rows.filter((row) => row.status === "duplicate").length,
+        productionAmount: total("production"),
+        consumptionAmount: total("consumption"),
+        // Reduced rather than spread, as a file can hold more rows than a call takes arguments
+        first: times.length > 0 ? new Date(times.reduce((a, b) => Math.min(a, b))) : null,
+        last: times.length > 0 ? new Date(times.reduce((a, b) => Math.max(a, b))) : null,
+    }
+}
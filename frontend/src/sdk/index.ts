@@ -0,0 +1,12 @@
+export * from "./types"
+export * from "./decode"
+export * from "./client"
+export * from "./calls"
+export * from "./errors"
+export * from "./periods"
+export * from "./fills"
+export * from "./attestations"
+export * from "./reports"
+export * from "./imports"
+export * from "./espi"
+export * from "./documents"
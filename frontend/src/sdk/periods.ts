@@ -0,0 +1,62 @@
+// Calendar buckets used to chart on-chain history over time, in the browser's local time zone
+export type Period = "day" | "week" | "month"
+
+export const PERIOD_LABELS: Record<Period, string> = {
+    day: "Daily",
+    week: "Weekly",
+    month: "Monthly",
+}
+
+// Weeks start on Monday
+export const periodStart = (date: Date, period: Period): Date => {
+    if (period === "month") return new Date(date.getFullYear(), date.getMonth(), 1)
+    const day = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+    if (period === "week") day.setDate(day.getDate() - ((day.getDay() + 6) % 7))
+    return day
+}
+
+const nextPeriodStart = (start: Date, period: Period): Date => {
+    if (period === "month") return new Date(start.getFullYear(), start.getMonth() + 1, 1)
+    return new Date(start.getFullYear(), start.getMonth(), start.getDate() + (period === "week" ? 7 : 1))
+}
+
+// Every period from the one containing `from` to the one containing `to`, so quiet periods show up as gaps
+export const periodRange = (from: Date, to: Date, period: Period): Date[] => {
+    const starts: Date[] = []
+    for (let start = periodStart(from, period); start <= to; start = nextPeriodStart(start, period)) {
+        starts.push(start)
+    }
+    return starts
+}
+
+export const formatPeriod = (start: Date, period: Period): string =>
+    period === "month"
+        ? start.toLocaleDateString(undefined, { year: "numeric", month: "short" })
+        : start.toLocaleDateString(undefined, { month: "short", day: "numeric" })
+
+// Sums values into the periods of `starts`, which must come from periodRange
+export const sumByPeriod = <T>(
+    items: T[],
+    starts: Date[],
+    period: Period,
+    getDate: (item: T) => Date,
+    getValue: (item: T) => number
+): number[] => {
+    const indexes = new Map(starts.map((start, index) => [start.getTime(), index]))
+    const sums = starts.map(() => 0)
+    items.forEach((item) => {
+        const index = indexes.get(periodStart(getDate(item), period).getTime())
+        if (index !== undefined) sums[index] += getValue(item)
+    })
+    return sums
+}
+
+// Length of a countdown, e.g. "2d 4h 10m" or "3h 5m 12s"; the sign is ignored
+export const formatCountdown = (milliseconds: number): string => {
+    const totalSeconds = Math.floor(Math.abs(milliseconds) / 1000)
+    const days = Math.floor(totalSeconds / 86400)
+    const hours = Math.floor((totalSeconds % 86400) / 3600)
+    const minutes = Math.floor((totalSeconds % 3600) / 60)
+    const seconds = totalSeconds % 60
+    return days > 0 ? `${days}d ${hours}h ${minutes}m` : `${hours}h ${minutes}m ${seconds}s`
+}
@@ -0,0 +1,81 @@
+import { Reading, RedeemedCertificate } from "./types"
+
+// Redeemed certificates of one energy source and location
+export interface RenewableClaimLine {
+    energySource: string
+    location: string
+    certificateCount: number
+    energyAmount: number
+}
+
+/**
+ * Market-based Scope 2 figures for one account and period: metered consumption, matched against
+ * certificates redeemed in the same period. Periods include `from` and exclude `to`.
+ */
+export interface Scope2Report {
+    account: string
+    from: Date
+    to: Date
+    consumption: number
+    verifiedConsumption: number
+    consumptionReadings: number
+    renewableEnergy: number
+    claims: RenewableClaimLine[]
+    redemptions: RedeemedCertificate[]
+    // Share of consumption covered by redeemed certificates, capped at 100
+    coveragePercent: number
+    unmatchedConsumption: number
+    // Redeemed kWh beyond the period's consumption, which can't be claimed against it
+    surplusRenewableEnergy: number
+}
+
+const inPeriod = (date: Date, from: Date, to: Date) => date >= from && date < to
+
+export const buildScope2Report = (
+    account: string,
+    consumptionReadings: Reading[],
+    redeemed: RedeemedCertificate[],
+    from: Date,
+    to: Date
+): Scope2Report => {
+    const readings = consumptionReadings.filter((reading) => inPeriod(reading.timestamp, from, to))
+    const redemptions = redeemed.filter(({ redemption }) => inPeriod(redemption.timestamp, from, to))
+
+    const claimsByKey = new Map<string, RenewableClaimLine>()
+    redemptions.forEach(({ certificate }) => {
+        const key = `${certificate.energySource}\u0000${certificate.location}`
+        const line = claimsByKey.get(key) ?? {
+            energySource: certificate.energySource,
+            location: certificate.location,
+            certificateCount: 0,
+            energyAmount: 0,
+        }
+        line.certificateCount++
+        line.energyAmount += certificate.energyAmount
+        claimsByKey.set(key, line)
+    })
+    const claims = Array.from(claimsByKey.values()).sort(
+        (a, b) => a.energySource.localeCompare(b.energySource) || a.location.localeCompare(b.location)
+    )
+
+    const consumption = readings.reduce((sum, reading) => sum + reading.amount, 0)
+    const renewableEnergy = claims.reduce((sum, line) => sum + line.energyAmount, 0)
+    const matched = Math.min(consumption, renewableEnergy)
+
+    return {
+        account,
+        from,
+        to,
+        consumption,
+        verifiedConsumption: readings
+            .filter((reading) => reading.verified)
+            .reduce((sum, reading) => sum + reading.amount, 0),
+        consumptionReadings: readings.length,
+        renewableEnergy,
+        claims,
+        redemptions,
+        coveragePercent: consumption > 0 ? (matched / consumption) * 100 : 0,
+        unmatchedConsumption: consumption - matched,
+        surplusRenewableEnergy: renewableEnergy - matched,
+    }
+}
@@ -0,0 +1,240 @@
+import { ethers } from "ethers"
+
+/**
+ * Domain types decoded from the EnergyLogger, RenewableCertificate and EnergyTradeLedger contracts.
+ * Energy amounts are kWh and fit in a JS number; prices and values stay in wei as BigNumber.
+ */
+
+// Mirrors EnergyTradeLedger.TradeStatus
+export enum TradeStatus {
+    Open = 0,
+    Completed = 1,
+    Cancelled = 2,
+}
+
+export type ReadingType = "production" | "consumption"
+
+// RenewableCertificate's validEnergySources as deployed; production with any other source can't be certified
+export const ENERGY_SOURCE_LABELS: Record<string, string> = {
+    solar: "Solar",
+    wind: "Wind",
+    hydro: "Hydro",
+    biomass: "Biomass",
+    geothermal: "Geothermal",
+}
+
+export const ENERGY_SOURCES = Object.keys(ENERGY_SOURCE_LABELS)
+
+export interface Certificate {
+    id: number
+    energyAmount: number
+    issuanceDate: Date
+    energySource: string
+    location: string
+    isValid: boolean
+    owner: string
+}
+
+export interface Offer {
+    id: number
+    seller: string
+    energyAmount: number
+    pricePerUnit: ethers.BigNumber
+    minPurchaseAmount: number
+    expirationTime: Date
+    region: string
+    isCertified: boolean
+    isActive: boolean
+}
+
+// One purchase from an offer, from its OfferAccepted event
+export interface OfferFill {
+    offerId: number
+    buyer: string
+    energyAmount: number
+    totalPrice: ethers.BigNumber
+    timestamp: Date
+    txHash: string
+}
+
+// A seller's own offer with what has been sold from it so far
+export interface SellerOffer extends Offer {
+    fills: OfferFill[]
+    // Inactive offers were either cancelled or sold down below their minimum purchase
+    isCancelled: boolean
+}
+
+export interface Trade {
+    id: number
+    seller: string
+    buyer: string
+    energyAmount: number
+    pricePerUnit: ethers.BigNumber
+    totalPrice: ethers.BigNumber
+    timestamp: Date
+    deliveryTime: Date
+    region: string
+    status: TradeStatus
+    isCertified: boolean
+    certificateId: number
+}
+
+// A trade of an account's history, with the transaction that created it
+export interface TradeHistoryEntry extends Trade {
+    txHash: string
+}
+
+export interface Reading {
+    user: string
+    index: number
+    amount: number
+    timestamp: Date
+    readingType: ReadingType
+    source: string
+    carbonOffset: number
+    reporter: string
+    verified: boolean
+}
+
+// A ReadingVerified event, i.e. a verifier signing off one reading
+export interface Verification {
+    verifier: string
+    user: string
+    readingIndex: number
+    readingType: ReadingType
+    timestamp: Date
+    txHash: string
+}
+
+// A certificate minted to an account for verified production, or redeemed by it
+export interface CertificateActivity {
+    certificateId: number
+    kind: "earned" | "redeemed"
+    // Only known for minted certificates
+    energyAmount: number | null
+    timestamp: Date
+    txHash: string
+}
+
+// One step of a certificate's chain of custody: minted to its generator, moved to a new holder, or redeemed
+export interface CustodyEvent {
+    kind: "minted" | "transferred" | "redeemed"
+    // Holder before the step; null for the mint
+    from: string | null
+    // Holder after the step; for a redemption, the account that redeemed it
+    to: string
+    timestamp: Date
+    txHash: string
+}
+
+// The metered production a certificate was minted from, when it came through verifyProductionAndMintCertificate
+export interface CertificateOrigin {
+    reading: Reading
+    // The transaction that logged the reading
+    readingTxHash: string
+    verification: Verification
+    // Every certificate minted from the same reading, this one included
+    certificateIds: number[]
+}
+
+// The CertificateRedeemed event of a certificate
+export interface CertificateRedemption {
+    certificateId: number
+    redeemer: string
+    txHash: string
+    blockNumber: number
+    timestamp: Date
+}
+
+export interface RedeemedCertificate {
+    certificate: Certificate
+    redemption: CertificateRedemption
+}
+
+export interface CertificateProvenance {
+    certificate: Certificate
+    custody: CustodyEvent[]
+    // Null for certificates minted directly rather than through a verified reading
+    origin: CertificateOrigin | null
+}
+
+// One side of an accepted offer: what the buyer paid, or what the seller received after the platform fee
+export interface TradePayment {
+    offerId: number
+    role: "buyer" | "seller"
+    energyAmount: number
+    amount: ethers.BigNumber
+    fee: ethers.BigNumber
+    timestamp: Date
+    txHash: string
+}
+
+// A logged reading, attributed to the region its user was registered in when it was logged
+export interface RegionReading {
+    region: string
+    user: string
+    readingType: ReadingType
+    amount: number
+    timestamp: Date
+}
+
+// Owner-controlled configuration of the EnergyTradeLedger
+export interface LedgerSettings {
+    owner: string
+    platformFeeRate: number
+    feeRecipient: string
+    // ETH held by the ledger, which only the owner can withdraw
+    balance: ethers.BigNumber
+}
+
+export interface UserMetrics {
+    totalProduction: number
+    totalConsumption: number
+    totalCarbonOffset: number
+    lastUpdate: Date
+}
+
+export interface RegionMetrics {
+    region: string
+    totalProduction: number
+    totalConsumption: number
+    participantCount: number
+    lastUpdate: Date
+}
+
+export interface MarketMetrics {
+    totalTrades: number
+    totalVolumeTraded: number
+    totalValueTraded: ethers.BigNumber
+    averagePrice: ethers.BigNumber
+}
+
+export interface RegionMarketMetrics {
+    volume: number
+    value: ethers.BigNumber
+    averagePrice: ethers.BigNumber
+}
+
+// Contract events the app reacts to live, decoded into domain terms
+export type EnergyEvent = (
+    | { type: "OfferCreated"; offerId: number; seller: string; region: string }
+    | { type: "OfferUpdated"; offerId: number }
+    | { type: "OfferCancelled"; offerId: number }
+    | { type: "OfferAccepted"; offerId: number; buyer: string; energyAmount: number }
+    | { type: "TradeCreated"; tradeId: number; seller: string; buyer: string }
+    | { type: "TradeCompleted"; tradeId: number }
+    | { type: "TradeCancelled"; tradeId: number }
+    | { type: "CertificateMinted"; certificateId: number; generator: string }
+    | { type: "CertificateTransferred"; certificateId: number; from: string; to: string }
+    | { type: "CertificateRedeemed"; certificateId: number; redeemer: string }
+    | { type: "ReadingVerified"; verifier: string; user: string; readingIndex: number; readingType: ReadingType }
+    | { type: "UserRegistered"; user: string; region: string }
+) & { blockNumber: number; transactionHash: string }
+
+export type EnergyEventType = EnergyEvent["type"]
+
+export interface ContractAddresses {
+    ENERGY_LOGGER: string
+    RENEWABLE_CERTIFICATE: string
+    ENERGY_TRADER: string
+}
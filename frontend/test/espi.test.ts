@@ -0,0 +1,166 @@
+import fs from "fs"
+import path from "path"
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { DOMParser } from "@xmldom/xmldom"
+import { EspiGranularity, EspiInterval, ImportRow, aggregateEspiIntervals, parseEspiXml } from "../src/sdk"
+
+// Buckets are local calendar periods, so the expected totals are for UTC
+process.env.TZ = "UTC"
+globalThis.DOMParser = DOMParser as unknown as typeof globalThis.DOMParser
+
+const SOURCES = { consumption: "household", production: "solar" }
+const READING_TYPES = ["consumption", "production"]
+
+const readSample = (file: string) => fs.readFileSync(path.join(__dirname, "../public/samples", file), "utf8")
+
+const parseSample = (xml: string) => {
+    const parsed = parseEspiXml(xml)
+    assert.ok(parsed, "the sample parses")
+    return parsed
+}
+
+const ofType = (intervals: EspiInterval[], readingType: string) =>
+    intervals.filter((interval) => interval.readingType === readingType)
+
+const totalEnergy = (intervals: EspiInterval[]) => intervals.reduce((sum, interval) => sum + interval.energy, 0)
+
+const readyAmounts = (rows: ImportRow[], readingType: string) =>
+    rows.flatMap((row) => (row.reading?.readingType === readingType ? [row.reading.amount] : []))
+
+const GRANULARITIES: EspiGranularity[] = ["interval", "hour", "day", "week", "month"]
+
+// With the remainders carried, what gets logged is the metered total rounded, whatever the periods
+const assertTotalsKept = (intervals: EspiInterval[]) =>
+    GRANULARITIES.forEach((granularity) => {
+        const rows = aggregateEspiIntervals(intervals, granularity, SOURCES)
+        READING_TYPES.forEach((readingType) => {
+            const logged = readyAmounts(rows, readingType).reduce((sum, amount) => sum + amount, 0)
+            assert.equal(
+                logged,
+                Math.round(totalEnergy(ofType(intervals, readingType))),
+                `${granularity} ${readingType}`
+            )
+        })
+    })
+
+describe("Green Button hourly consumption sample", () => {
+    const xml = readSample("green-button-hourly-consumption.xml")
+
+    it("reads every hourly interval as consumption in kWh", () => {
+        const { intervals, skippedReadings } = parseSample(xml)
+        assert.equal(intervals.length, 48)
+        assert.equal(skippedReadings, 0)
+        assert.equal(ofType(intervals, "consumption").length, 48)
+        assert.deepEqual(intervals[0], {
+            readingType: "consumption",
+            start: new Date("2024-03-01T00:00:00Z"),
+            energy: 0.35,
+        })
+        assert.equal(totalEnergy(intervals).toFixed(3), "39.036")
+    })
+
+    it("carries the remainder of hours under 1 kWh into the next hour", () => {
+        const rows = aggregateEspiIntervals(parseSample(xml).intervals, "hour", SOURCES)
+        assert.equal(rows.length, 48)
+        // 0.35, 0.53 and 0.41 kWh: 0.35 rounds to nothing, 0.88 to 1, and 1.29 still to 1
+        assert.deepEqual(
+            rows.slice(0, 3).map((row) => [row.status, row.reading?.amount ?? null]),
+            [
+                ["invalid", null],
+                ["ready", 1],
+                ["invalid", null],
+            ]
+        )
+        assert.match(rows[0].reason, /^0\.350 kWh of consumption .* carried into the next period$/)
+        assert.equal(
+            readyAmounts(rows, "consumption").reduce((sum, amount) => sum + amount, 0),
+            39
+        )
+    })
+
+    it("sums each day", () => {
+        const rows = aggregateEspiIntervals(parseSample(xml).intervals, "day", SOURCES)
+        assert.deepEqual(
+            rows.map((row) => [row.reading?.timestamp.toISOString(), row.reading?.amount]),
+            [
+                ["2024-03-01T00:00:00.000Z", 20],
+                ["2024-03-02T00:00:00.000Z", 19],
+            ]
+        )
+    })
+
+    it("keeps the logged total within rounding of the metered one", () => {
+        assertTotalsKept(parseSample(xml).intervals)
+    })
+})
+
+describe("Green Button solar net metering sample", () => {
+    const xml = readSample("green-button-solar-net-metering.xml")
+
+    it("maps flow direction 1 to consumption and 19 to production", () => {
+        const { intervals, skippedReadings } = parseSample(xml)
+        assert.equal(intervals.length, 192)
+        assert.equal(skippedReadings, 0)
+        assert.equal(ofType(intervals, "consumption").length, 96)
+        assert.equal(ofType(intervals, "production").length, 96)
+    })
+
+    it("applies each reading type's power of ten multiplier to Wh", () => {
+        const { intervals } = parseSample(xml)
+        const at = (readingType: string, start: string) =>
+            ofType(intervals, readingType).find((interval) => interval.start.getTime() === new Date(start).getTime())
+        // Consumption is 87 Wh with a multiplier of 0, production 86 tens of Wh
+        assert.equal(at("consumption", "2024-03-01T00:00:00Z")?.energy, 0.087)
+        assert.equal(at("production", "2024-03-01T10:00:00Z")?.energy, 0.86)
+        assert.equal(totalEnergy(ofType(intervals, "consumption")).toFixed(3), "11.980")
+        assert.equal(totalEnergy(ofType(intervals, "production")).toFixed(3), "34.490")
+    })
+
+    it("sums each flow direction into its own rows", () => {
+        const rows = aggregateEspiIntervals(parseSample(xml).intervals, "day", SOURCES)
+        assert.deepEqual(
+            rows.map((row) => row.reading && [row.reading.readingType, row.reading.source, row.reading.amount]),
+            [
+                ["consumption", "household", 12],
+                ["production", "solar", 34],
+            ]
+        )
+
+        const hourly = aggregateEspiIntervals(parseSample(xml).intervals, "hour", SOURCES)
+        assert.equal(hourly.length, 48)
+        assert.deepEqual(
+            hourly.map((row) => row.line),
+            hourly.map((_, index) => index + 1)
+        )
+    })
+
+    it("keeps the logged total within rounding of the metered one", () => {
+        assertTotalsKept(parseSample(xml).intervals)
+    })
+
+    it("skips readings of other flow directions and units", () => {
+        const otherFlow = parseSample(
+            xml.replace("<espi:flowDirection>19</espi:flowDirection>", "<espi:flowDirection>4</espi:flowDirection>")
+        )
+        assert.equal(otherFlow.intervals.length, 96)
+        assert.equal(otherFlow.skippedReadings, 96)
+        assert.equal(ofType(otherFlow.intervals, "production").length, 0)
+
+        // 38 is W, i.e. demand rather than energy
+        const demand = parseSample(xml.replace(/<espi:uom>72<\/espi:uom>/g, "<espi:uom>38</espi:uom>"))
+        assert.equal(demand.intervals.length, 0)
+        assert.equal(demand.skippedReadings, 192)
+    })
+
+    it("reports the last period's remainder as dropped", () => {
+        const { intervals } = parseSample(xml)
+        const lastHour = ofType(intervals, "consumption").filter(
+            (interval) => interval.start >= new Date("2024-03-01T23:00:00Z")
+        )
+        const rows = aggregateEspiIntervals(lastHour, "hour", SOURCES)
+        assert.equal(rows.length, 1)
+        assert.equal(rows[0].status, "invalid")
+        assert.match(rows[0].reason, /this is the last period, so the 0\.\d{3} kWh left over are dropped$/)
+    })
+})
@@ -20,24 +20,28 @@ module.exports = async function (deployer, network, accounts) {
     const energyTradeLedger = await EnergyTradeLedger.deployed()
     console.log(`EnergyTradeLedger deployed at: ${energyTradeLedger.address}`)
 
-    // Create contract addresses object
-    const contractAddresses = {
-        networkId: deployer.network_id.toString(),
-        addresses: {
-            ENERGY_LOGGER: energyLogger.address,
-            RENEWABLE_CERTIFICATE: renewableCertificate.address,
-            ENERGY_TRADER: energyTradeLedger.address,
-        },
-    }
-
     // Create frontend/src/constants directory if it doesn't exist
     const constantsDir = path.resolve(__dirname, "../frontend/src/constants")
     if (!fs.existsSync(constantsDir)) {
         fs.mkdirSync(constantsDir, { recursive: true })
     }
 
+    // The frontend picks addresses by the chain ID the wallet reports, so keep other networks' entries
+    const contractsFile = path.join(constantsDir, "contracts.json")
+    const contractsData = fs.existsSync(contractsFile) ? JSON.parse(fs.readFileSync(contractsFile, "utf8")) : {}
+    const chainId = await web3.eth.getChainId()
+
+    contractsData.networks = {
+        ...contractsData.networks,
+        [chainId]: {
+            ENERGY_LOGGER: energyLogger.address,
+            RENEWABLE_CERTIFICATE: renewableCertificate.address,
+            ENERGY_TRADER: energyTradeLedger.address,
+        },
+    }
+
     // Write contracts.json to frontend/src/constants
-    fs.writeFileSync(path.join(constantsDir, "contracts.json"), JSON.stringify(contractAddresses, null, 2))
+    fs.writeFileSync(contractsFile, JSON.stringify(contractsData, null, 2))
 
     // Create frontend/src/artifacts directory if it doesn't exist
     const artifactsDir = path.resolve(__dirname, "../frontend/src/artifacts")
@@ -2,23 +2,21 @@ const fs = require("fs")
 const path = require("path")
 
 /**
- * This script copies the contract artifacts from build/contracts to frontend/src/artifacts
- * and saves contract addresses to frontend/src/constants/contracts.json
+ * This script copies the contract artifacts from build/contracts to frontend/src/artifacts.
+ *
+ * Contract addresses are left to the migration, which writes them to frontend/src/constants/contracts.json
+ * keyed by chain ID. Artifacts key their deployments by Truffle network ID (e.g. 5777), which isn't the
+ * chain ID the wallet reports, so they can't be used there.
  */
 async function main() {
     const buildDir = path.resolve(__dirname, "../build/contracts")
     const artifactsDir = path.resolve(__dirname, "../frontend/src/artifacts")
-    const constantsDir = path.resolve(__dirname, "../frontend/src/constants")
 
-    // Ensure the directories exist
+    // Ensure the directory exists
     if (!fs.existsSync(artifactsDir)) {
         fs.mkdirSync(artifactsDir, { recursive: true })
     }
 
-    if (!fs.existsSync(constantsDir)) {
-        fs.mkdirSync(constantsDir, { recursive: true })
-    }
-
     // Check if build directory exists
     if (!fs.existsSync(buildDir)) {
         console.error("Error: build/contracts directory does not exist. Please run truffle compile first.")
@@ -28,12 +26,6 @@ async function main() {
     // Copy contract ABI files from build/contracts to frontend/src/artifacts
     const files = fs.readdirSync(buildDir)
 
-    // Initialize contract addresses object
-    const contractAddresses = {
-        networkId: "development", // Default network
-        addresses: {},
-    }
-
     // Copy each ABI file to the artifacts directory
     files.forEach((file) => {
         const filePath = path.join(buildDir, file)
@@ -43,34 +35,9 @@ async function main() {
             // Copy the file
             fs.copyFileSync(filePath, destPath)
             console.log(`Copied ${file} to frontend/src/artifacts`)
-
-            // Extract contract name and address from the file
-            try {
-                const contractData = JSON.parse(fs.readFileSync(filePath, "utf8"))
-                const contractName = contractData.contractName
-
-                // Get the most recent network deployment
-                const networks = contractData.networks
-                if (networks && Object.keys(networks).length > 0) {
-                    const latestNetworkId = Object.keys(networks)[Object.keys(networks).length - 1]
-                    const address = networks[latestNetworkId].address
-
-                    // Add to contractAddresses
-                    if (contractName && address) {
-                        contractAddresses.addresses[contractName.toUpperCase()] = address
-                        contractAddresses.networkId = latestNetworkId
-                    }
-                }
-            } catch (err) {
-                console.error(`Error processing ${file}: ${err.message}`)
-            }
         }
     })
 
-    // Write contracts.json to frontend/src/constants
-    fs.writeFileSync(path.join(constantsDir, "contracts.json"), JSON.stringify(contractAddresses, null, 2))
-
-    console.log("Contract addresses exported to frontend/src/constants/contracts.json")
     console.log("Contract ABIs copied to frontend/src/artifacts")
 }
 